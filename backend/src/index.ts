@@ -6,6 +6,9 @@ import dotenv from 'dotenv';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import routes from './routes';
+import { startWatchRenewalJob } from './jobs/watchRenewal.job';
+import { startSyncWorker } from './jobs/syncWorker.job';
+import { startSyncScheduler } from './jobs/syncScheduler.job';
 
 dotenv.config();
 
@@ -47,6 +50,11 @@ if (process.env.NODE_ENV !== 'production' || !process.env.VERCEL) {
     logger.info(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   });
 
+  // Background jobs
+  startWatchRenewalJob();
+  startSyncWorker();
+  startSyncScheduler();
+
   // Graceful shutdown
   process.on('SIGTERM', () => {
     logger.info('SIGTERM signal received: closing HTTP server');
@@ -0,0 +1,74 @@
+import cron from 'node-cron';
+import { supabase } from '../config/supabase';
+import { syncJobService } from '../services/syncJob.service';
+import { logger } from '../utils/logger';
+
+const SCHEDULED_MAX_RESULTS = 50;
+
+/**
+ * Queues a sync job for every mailbox whose interval has elapsed. The
+ * interval comes from the mailbox itself, falling back to the owner's
+ * settings; 0 or no interval at all means the mailbox is only synced on
+ * demand. Overlapping runs are prevented by the job queue, which keeps at
+ * most one queued or running job per mailbox.
+ */
+export const scheduleDueSyncs = async (): Promise<void> => {
+  const now = new Date();
+
+  // Disabled and errored mailboxes are never synced automatically
+  const { data: mailboxes, error } = await supabase
+    .from('mailboxes')
+    .select('id, user_id, email_address, sync_interval_minutes, next_sync_at')
+    .eq('status', 'connected')
+    .or(`next_sync_at.is.null,next_sync_at.lte.${now.toISOString()}`);
+
+  if (error) {
+    logger.error('Failed to fetch mailboxes for scheduled sync', { error });
+    return;
+  }
+
+  if (!mailboxes || mailboxes.length === 0) return;
+
+  const userIds = [...new Set(mailboxes.map(m => m.user_id))];
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('user_id, sync_interval_minutes')
+    .in('user_id', userIds);
+
+  const userIntervals = new Map(
+    (settings || []).map(s => [s.user_id, s.sync_interval_minutes as number | null])
+  );
+
+  for (const mailbox of mailboxes) {
+    const interval = mailbox.sync_interval_minutes ?? userIntervals.get(mailbox.user_id) ?? null;
+    if (!interval || interval <= 0) continue;
+
+    try {
+      const job = await syncJobService.enqueue(mailbox.user_id, mailbox.id, {
+        maxResults: SCHEDULED_MAX_RESULTS,
+        trigger: 'scheduled'
+      });
+
+      await supabase
+        .from('mailboxes')
+        .update({ next_sync_at: new Date(now.getTime() + interval * 60 * 1000).toISOString() })
+        .eq('id', mailbox.id);
+
+      logger.info('Scheduled sync queued', {
+        mailbox: mailbox.email_address,
+        jobId: job.id,
+        intervalMinutes: interval
+      });
+    } catch (error) {
+      logger.error('Failed to queue scheduled sync', { mailbox: mailbox.email_address, error });
+    }
+  }
+};
+
+export const startSyncScheduler = () => {
+  cron.schedule('* * * * *', () => {
+    scheduleDueSyncs().catch(error => logger.error('Sync scheduler tick failed', { error }));
+  });
+
+  logger.info('Sync scheduler started');
+};
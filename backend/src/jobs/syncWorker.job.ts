@@ -0,0 +1,271 @@
+import os from 'os';
+import { supabase } from '../config/supabase';
+import { syncJobService, SyncJob } from '../services/syncJob.service';
+import { syncService, SyncProgress, emptyProgress } from '../services/sync.service';
+import { backfillService, BackfillCheckpoint } from '../services/backfill.service';
+import { classificationService, ClassificationCheckpoint, ClassificationRun } from '../services/classification.service';
+import { ingestionService } from '../services/ingestion.service';
+import { syncEvents } from '../services/syncEvents.service';
+import { logger } from '../utils/logger';
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+const BUSY_RETRY_DELAY_MS = 30 * 1000;
+
+// Abort reason for a job stopped because a drain ran out of time, as
+// opposed to one the user cancelled
+const OUT_OF_TIME = 'out_of_time';
+
+const workerId = `${os.hostname()}:${process.pid}`;
+let runningJobs = 0;
+let polling = false;
+
+/**
+ * Records a job stopped through its signal. One the user cancelled stays
+ * cancelled; one a drain ran out of time for goes back on the queue,
+ * without counting as an attempt, to resume from its checkpoint.
+ */
+const finishStopped = async (
+  job: SyncJob,
+  signal: AbortSignal,
+  progress: SyncProgress,
+  result: Record<string, any>,
+  label: string
+) => {
+  if (signal.reason === OUT_OF_TIME) {
+    await syncJobService.release(job, 0);
+    logger.info(`${label} job paused, out of time`, { jobId: job.id, ...result });
+    return;
+  }
+
+  await syncJobService.finishCancelled(job, progress, result);
+  logger.info(`${label} job stopped after cancel`, { jobId: job.id, ...result });
+};
+
+const runSyncJob = async (job: SyncJob, mailbox: any, signal: AbortSignal) => {
+  let progress: SyncProgress | null = null;
+  const result = await syncService.syncMailbox(mailbox, {
+    maxResults: job.params.maxResults || 10,
+    trigger: job.params.trigger || 'manual',
+    jobId: job.id,
+    signal,
+    onProgress: update => {
+      progress = update;
+      syncJobService.reportProgress(job, update);
+    }
+  });
+
+  if (!result) {
+    await syncJobService.release(job, BUSY_RETRY_DELAY_MS);
+    return;
+  }
+
+  const { messageIds, cancelled, ...counts } = result;
+  const finalProgress = progress || emptyProgress();
+
+  // The mailbox's history checkpoint only moves when a sync completes, so
+  // a requeued one starts over and skips what it already stored
+  if (cancelled) {
+    await finishStopped(job, signal, finalProgress, counts, 'Sync');
+    return;
+  }
+
+  await syncJobService.complete(job, finalProgress, counts);
+
+  logger.info('Sync job completed', { jobId: job.id, ...counts });
+};
+
+const runBackfillJob = async (job: SyncJob, mailbox: any, signal: AbortSignal) => {
+  const result = await backfillService.run(
+    mailbox,
+    { after: job.params.after, before: job.params.before },
+    {
+      checkpoint: job.checkpoint as BackfillCheckpoint | null,
+      signal,
+      onProgress: update => syncJobService.reportProgress(job, update),
+      onCheckpoint: checkpoint => syncJobService.saveCheckpoint(job, checkpoint)
+    }
+  );
+
+  const counts = { pages: result.pages, estimatedTotal: job.params.estimatedTotal ?? null };
+
+  if (result.cancelled) {
+    await finishStopped(job, signal, result.progress, counts, 'Backfill');
+    return;
+  }
+
+  await syncJobService.complete(job, result.progress, counts);
+
+  logger.info('Backfill job completed', { jobId: job.id, ...counts, ...result.progress });
+};
+
+/**
+ * Records how a reclassify or classify run ended. A run the AI provider
+ * couldn't take goes back on the queue, without counting as an attempt,
+ * and resumes from its checkpoint once the provider should be back.
+ */
+const finishClassificationRun = async (job: SyncJob, run: ClassificationRun, signal: AbortSignal, label: string) => {
+  const { progress, cancelled, deferred, stoppedAt } = run;
+  const counts = {
+    totalMessages: progress.listed,
+    classifiedCount: progress.classified,
+    skippedCount: progress.skipped,
+    failedCount: progress.failed
+  };
+
+  if (cancelled) {
+    if (stoppedAt && signal.reason === OUT_OF_TIME) {
+      await syncJobService.saveCheckpoint(job, stoppedAt);
+    }
+    await finishStopped(job, signal, progress, counts, label);
+    return;
+  }
+
+  if (deferred) {
+    await syncJobService.saveCheckpoint(job, deferred.checkpoint);
+    await syncJobService.release(job, deferred.retryAfterMs);
+    logger.info(`${label} job paused, AI provider unavailable`, { jobId: job.id, retryAfterMs: deferred.retryAfterMs, ...counts });
+    return;
+  }
+
+  await syncJobService.complete(job, progress, counts);
+
+  logger.info(`${label} job completed`, { jobId: job.id, ...counts });
+};
+
+const runReclassifyJob = async (job: SyncJob, mailbox: any, signal: AbortSignal) => {
+  const run = await classificationService.reclassifyMailbox(mailbox, job.params.filters || {}, {
+    signal,
+    resume: job.checkpoint as ClassificationCheckpoint | null,
+    onProgress: update => syncJobService.reportProgress(job, update)
+  });
+
+  await finishClassificationRun(job, run, signal, 'Reclassify');
+};
+
+const runClassifyJob = async (job: SyncJob, mailbox: any, signal: AbortSignal) => {
+  const run = await ingestionService.classifyPending(mailbox, {
+    signal,
+    resume: job.checkpoint as ClassificationCheckpoint | null,
+    onProgress: update => syncJobService.reportProgress(job, update)
+  });
+
+  await finishClassificationRun(job, run, signal, 'Classify');
+};
+
+/**
+ * Runs a claimed job. With a `deadline` the job is stopped and requeued
+ * when it's still running by then.
+ */
+const processJob = async (job: SyncJob, deadline: number | null = null) => {
+  const controller = new AbortController();
+  const stopListening = syncEvents.onCancel(job.id, () => controller.abort());
+  const outOfTime = deadline === null
+    ? undefined
+    : setTimeout(() => controller.abort(OUT_OF_TIME), Math.max(0, deadline - Date.now()));
+
+  const heartbeat = setInterval(async () => {
+    // Cancelled from another instance
+    if (await syncJobService.heartbeat(job.id) === 'cancelled') {
+      controller.abort();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const { data: mailbox, error } = await supabase
+      .from('mailboxes')
+      .select('*')
+      .eq('id', job.mailbox_id)
+      .single();
+
+    if (error || !mailbox) {
+      await syncJobService.fail(job, 'Mailbox not found', false);
+      return;
+    }
+
+    logger.info('Processing sync job', {
+      jobId: job.id,
+      kind: job.kind,
+      mailbox: mailbox.email_address,
+      attempt: job.attempts
+    });
+
+    if (job.kind === 'backfill') {
+      await runBackfillJob(job, mailbox, controller.signal);
+    } else if (job.kind === 'reclassify') {
+      await runReclassifyJob(job, mailbox, controller.signal);
+    } else if (job.kind === 'classify') {
+      await runClassifyJob(job, mailbox, controller.signal);
+    } else {
+      await runSyncJob(job, mailbox, controller.signal);
+    }
+  } catch (error: any) {
+    logger.error('Sync job threw', { jobId: job.id, error: error.message });
+    await syncJobService.fail(job, error.message || 'Sync failed');
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(outOfTime);
+    stopListening();
+  }
+};
+
+const poll = async (concurrency: number) => {
+  if (polling) return;
+  polling = true;
+
+  try {
+    while (runningJobs < concurrency) {
+      const job = await syncJobService.claimNext(workerId);
+      if (!job) return;
+
+      runningJobs++;
+      processJob(job).finally(() => {
+        runningJobs--;
+      });
+    }
+  } finally {
+    polling = false;
+  }
+};
+
+/**
+ * Runs queued jobs one after another until none are due or `budgetMs` has
+ * passed, for serverless deployments where no worker stays up to poll.
+ * A job still running when the budget is up is stopped and requeued to
+ * resume on the next drain. Returns the number of jobs run.
+ */
+export const drainSyncJobs = async (budgetMs: number): Promise<number> => {
+  const deadline = Date.now() + budgetMs;
+  await syncJobService.requeueStaleJobs();
+
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const job = await syncJobService.claimNext(workerId);
+    if (!job) break;
+
+    await processJob(job, deadline);
+    processed++;
+  }
+
+  return processed;
+};
+
+export const startSyncWorker = () => {
+  const concurrency = parseInt(process.env.SYNC_WORKER_CONCURRENCY || '2');
+
+  // Jobs that were running when a previous process stopped go back on the
+  // queue once their heartbeat is stale, here and on every later check
+  const requeueStale = () => {
+    syncJobService.requeueStaleJobs().catch(error => logger.error('Failed to requeue stale sync jobs', { error }));
+  };
+  requeueStale();
+
+  setInterval(() => {
+    poll(concurrency).catch(error => logger.error('Sync worker poll failed', { error }));
+  }, POLL_INTERVAL_MS);
+
+  setInterval(requeueStale, STALE_CHECK_INTERVAL_MS);
+
+  logger.info('Sync worker started', { workerId, concurrency });
+};
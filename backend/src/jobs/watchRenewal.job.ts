@@ -0,0 +1,106 @@
+import cron from 'node-cron';
+import { supabase } from '../config/supabase';
+import { gmailService } from '../services/gmail.service';
+import { logger } from '../utils/logger';
+
+// Gmail watches expire after 7 days; renew anything expiring within a day
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// How often the cron drain looks for watches to renew. Only watches close
+// to expiry are picked up, so an instance checking sooner costs one query.
+const RENEW_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastRenewCheckAt = 0;
+
+interface WatchedMailbox {
+  id: string;
+  email_address: string;
+  access_token_encrypted: string;
+  refresh_token_encrypted: string;
+}
+
+const watchMailbox = async (mailbox: WatchedMailbox, topicName: string): Promise<void> => {
+  const watch = await gmailService.setupWatch(
+    mailbox.access_token_encrypted,
+    mailbox.refresh_token_encrypted,
+    topicName
+  );
+
+  await supabase
+    .from('mailboxes')
+    .update({ watch_expires_at: watch.expiresAt?.toISOString() || null })
+    .eq('id', mailbox.id);
+
+  logger.info('Gmail watch renewed', {
+    mailbox: mailbox.email_address,
+    expiresAt: watch.expiresAt
+  });
+};
+
+export const renewGmailWatches = async (topicName: string): Promise<void> => {
+  const renewBefore = new Date(Date.now() + RENEW_BEFORE_MS).toISOString();
+
+  const { data: mailboxes, error } = await supabase
+    .from('mailboxes')
+    .select('id, email_address, access_token_encrypted, refresh_token_encrypted')
+    .eq('status', 'connected')
+    .or(`watch_expires_at.is.null,watch_expires_at.lt.${renewBefore}`);
+
+  if (error) {
+    logger.error('Failed to fetch mailboxes for watch renewal', { error });
+    return;
+  }
+
+  for (const mailbox of mailboxes || []) {
+    try {
+      await watchMailbox(mailbox, topicName);
+    } catch (error) {
+      logger.error('Failed to renew Gmail watch', { mailbox: mailbox.email_address, error });
+    }
+  }
+};
+
+/**
+ * renewGmailWatches at most once an hour per instance, for the cron drain
+ * where startWatchRenewalJob doesn't run.
+ */
+export const renewDueGmailWatches = async (): Promise<void> => {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName || Date.now() - lastRenewCheckAt < RENEW_CHECK_INTERVAL_MS) return;
+
+  lastRenewCheckAt = Date.now();
+  await renewGmailWatches(topicName);
+};
+
+/**
+ * Starts push notifications for a mailbox that was just connected, rather
+ * than leaving it to the next renewal. A failure is logged and left to
+ * that renewal, so connecting still succeeds.
+ */
+export const watchConnectedMailbox = async (mailbox: WatchedMailbox): Promise<void> => {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName) return;
+
+  try {
+    await watchMailbox(mailbox, topicName);
+  } catch (error) {
+    logger.error('Failed to set up Gmail watch for new mailbox', { mailbox: mailbox.email_address, error });
+  }
+};
+
+export const startWatchRenewalJob = () => {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName) {
+    logger.warn('GMAIL_PUBSUB_TOPIC not configured, push notifications disabled');
+    return;
+  }
+
+  // Renew once on startup so new mailboxes don't wait for the first tick
+  renewGmailWatches(topicName);
+
+  cron.schedule('0 * * * *', () => {
+    renewGmailWatches(topicName);
+  });
+
+  logger.info('Gmail watch renewal job scheduled');
+};
@@ -0,0 +1,103 @@
+import { PromptTemplate } from './types';
+
+// Changing any text here changes the prompt version stored with each
+// classification. For a real change, copy this file to the next version
+// and point CURRENT_CLASSIFICATION_PROMPT at it, so the old wording stays
+// around for comparison.
+export const classificationPromptV1: PromptTemplate = {
+  name: 'classification-v1',
+
+  main: `You are an assistant that classifies replies to B2B outbound sales emails.
+
+Given the EMAIL below, respond in valid JSON only with these fields:
+- sentiment: one of ["positive", "warm", "neutral", "negative", "auto_reply", "out_of_office", "spam"]
+- interest_level: one of ["high", "medium", "low", "none"]
+- summary: short 1-2 sentence summary of the email
+- recommended_action: short suggestion for the sales team (max 20 words)
+- category: high-level tag like "demo_request", "pricing", "not_interested", "follow_up_later", "job_application", "other"
+- confidence_score: a number between 0 and 1 indicating your confidence in the classification
+
+Classification Guidelines:
+
+**POSITIVE** - Clear interest, wants to move forward:
+- Requesting demo, call, meeting, or pricing
+- "Let's schedule a call", "I'm interested", "Send me more info"
+
+**WARM** - Polite response with potential future interest:
+- "Not right now, but maybe later"
+- "Keep us in mind for the future"
+- "We'll reach out if needed"
+- "Thank you, we'll consider it"
+- Polite acknowledgment with door left open
+
+**NEUTRAL** - Simple acknowledgment without clear sentiment:
+- Generic "Thank you for reaching out"
+- No indication of interest or disinterest
+
+**NEGATIVE** - Clear rejection with no future interest:
+- "Not interested", "Please remove us", "Stop contacting"
+- Harsh or rude rejection
+- Explicit request to stop communication
+
+**AUTO_REPLY** - Automated response:
+- Auto-responders, chatbots
+- Bounce-back emails (e.g., "Undelivered Mail", "Mail Delivery Failed", "Returned to Sender")
+- "Thank you for contacting us" automated messages
+- Email delivery failure notifications
+- System-generated messages
+
+**OUT_OF_OFFICE** - Out of office message (human-set auto-reply)
+
+**SPAM** - Spam, unrelated, or junk email:
+- Emails with random tracking codes (e.g., "6PZGMYD", "J4C5BVX")
+- Generic questions with tracking codes like "who should I call | CODE123"
+- Unrelated marketing or promotional content
+- Suspicious or phishing attempts
+
+IMPORTANT: If the email is polite and mentions "future", "later", "keep in touch", or "reach out if needed", classify as WARM, not negative!
+{{examples}}
+{{context}}
+SUBJECT: {{subject}}
+
+EMAIL TEXT:
+"""
+{{body}}
+"""
+
+Respond with ONLY valid JSON, no other text.`,
+
+  context: `
+EARLIER MESSAGES IN THIS THREAD (oldest first, for context only - classify the EMAIL below, not these):
+"""
+{{messages}}
+"""
+`,
+
+  contextMessage: `[{{author}} - {{from}} - {{receivedAt}}]
+{{body}}`,
+
+  examples: `
+EXAMPLES LABELLED BY THIS TEAM (these override the guidelines above - label similar emails the same way):
+
+{{examples}}
+`,
+
+  example: `SUBJECT: {{subject}}
+EMAIL TEXT:
+"""
+{{body}}
+"""
+CORRECT LABELS: {{labels}}`,
+
+  repair: `{{prompt}}
+
+Your previous answer was:
+"""
+{{previousAnswer}}
+"""
+
+It was rejected for these reasons:
+{{errors}}
+
+Answer again with ONLY a valid JSON object that fixes these problems.`
+};
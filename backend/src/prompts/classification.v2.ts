@@ -0,0 +1,76 @@
+import { PromptTemplate } from './types';
+
+// Sentiments and categories come from the user's taxonomy instead of
+// being written into the prompt.
+export const classificationPromptV2: PromptTemplate = {
+  name: 'classification-v2',
+
+  main: `You are an assistant that classifies replies to B2B outbound sales emails.
+
+Given the EMAIL below, respond in valid JSON only with these fields:
+- sentiment: one of {{sentimentKeys}}
+- interest_level: one of {{interestLevels}}
+- summary: short 1-2 sentence summary of the email
+- recommended_action: short suggestion for the sales team (max 20 words)
+- category: one of {{categoryKeys}}
+- confidence_score: a number between 0 and 1 indicating your confidence in the classification
+
+SENTIMENTS:
+
+{{sentiments}}
+
+CATEGORIES:
+{{categories}}
+{{examples}}
+{{context}}
+SUBJECT: {{subject}}
+
+EMAIL TEXT:
+"""
+{{body}}
+"""
+
+Respond with ONLY valid JSON, no other text.`,
+
+  sentiment: `**{{key}}** ({{label}}) - {{description}}{{examples}}`,
+
+  sentimentExample: `
+- "{{text}}"`,
+
+  category: `- {{key}} ({{label}}): {{description}}`,
+
+  context: `
+EARLIER MESSAGES IN THIS THREAD (oldest first, for context only - classify the EMAIL below, not these):
+"""
+{{messages}}
+"""
+`,
+
+  contextMessage: `[{{author}} - {{from}} - {{receivedAt}}]
+{{body}}`,
+
+  examples: `
+EXAMPLES LABELLED BY THIS TEAM (these take precedence over the descriptions above - label similar emails the same way):
+
+{{examples}}
+`,
+
+  example: `SUBJECT: {{subject}}
+EMAIL TEXT:
+"""
+{{body}}
+"""
+CORRECT LABELS: {{labels}}`,
+
+  repair: `{{prompt}}
+
+Your previous answer was:
+"""
+{{previousAnswer}}
+"""
+
+It was rejected for these reasons:
+{{errors}}
+
+Answer again with ONLY a valid JSON object that fixes these problems.`
+};
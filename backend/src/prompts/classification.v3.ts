@@ -0,0 +1,93 @@
+import { PromptTemplate } from './types';
+
+// v2 plus an `entities` field: meeting times, referrals and contact
+// details, read from the email and the sender's signature.
+export const classificationPromptV3: PromptTemplate = {
+  name: 'classification-v3',
+
+  main: `You are an assistant that classifies replies to B2B outbound sales emails.
+
+Given the EMAIL below, respond in valid JSON only with these fields:
+- sentiment: one of {{sentimentKeys}}
+- interest_level: one of {{interestLevels}}
+- summary: short 1-2 sentence summary of the email
+- recommended_action: short suggestion for the sales team (max 20 words)
+- category: one of {{categoryKeys}}
+- confidence_score: a number between 0 and 1 indicating your confidence in the classification
+- entities: details stated in the EMAIL or the SIGNATURE, with empty lists and strings for anything not stated (never guess):
+  - meeting_times: times the sender proposes or accepts for a call or meeting, as [{"start": ISO 8601 date-time, "text": the words they used}]. Resolve relative dates ("Thursday 3pm", "tomorrow morning") against the date the email was received. Include the UTC offset when the sender names a time zone; otherwise leave it out
+  - referrals: other people the sender points us to, as [{"name", "email", "title"}]
+  - phone_numbers: phone numbers the sender gives, as written
+  - company: the sender's company
+  - job_title: the sender's job title
+  - return_date: for out of office replies, the first day the sender is back, as YYYY-MM-DD
+
+SENTIMENTS:
+
+{{sentiments}}
+
+CATEGORIES:
+{{categories}}
+{{examples}}
+{{context}}
+RECEIVED: {{receivedAt}} (recipient's time zone: {{timeZone}})
+
+SUBJECT: {{subject}}
+
+EMAIL TEXT:
+"""
+{{body}}
+"""
+{{signature}}
+
+Respond with ONLY valid JSON, no other text.`,
+
+  sentiment: `**{{key}}** ({{label}}) - {{description}}{{examples}}`,
+
+  sentimentExample: `
+- "{{text}}"`,
+
+  category: `- {{key}} ({{label}}): {{description}}`,
+
+  signature: `
+SIGNATURE (for entities only):
+"""
+{{signature}}
+"""
+`,
+
+  context: `
+EARLIER MESSAGES IN THIS THREAD (oldest first, for context only - classify the EMAIL below, not these):
+"""
+{{messages}}
+"""
+`,
+
+  contextMessage: `[{{author}} - {{from}} - {{receivedAt}}]
+{{body}}`,
+
+  examples: `
+EXAMPLES LABELLED BY THIS TEAM (these take precedence over the descriptions above - label similar emails the same way):
+
+{{examples}}
+`,
+
+  example: `SUBJECT: {{subject}}
+EMAIL TEXT:
+"""
+{{body}}
+"""
+CORRECT LABELS: {{labels}}`,
+
+  repair: `{{prompt}}
+
+Your previous answer was:
+"""
+{{previousAnswer}}
+"""
+
+It was rejected for these reasons:
+{{errors}}
+
+Answer again with ONLY a valid JSON object that fixes these problems.`
+};
@@ -0,0 +1,52 @@
+import { BatchPromptTemplate } from './types';
+
+// v1 with a shortened view of the thread above each email, so a reply in a
+// conversation can be batched too. Still no signatures.
+export const classificationBatchPromptV2: BatchPromptTemplate = {
+  name: 'classification-batch-v2',
+
+  main: `You are an assistant that classifies replies to B2B outbound sales emails.
+
+Below are {{count}} EMAILS, each marked with an ID. Classify each one on its own; the earlier messages shown with an email are context only. Respond in valid JSON only, as {"results": [...]} with exactly one entry per email, each with these fields:
+- id: the email's ID, exactly as given
+- sentiment: one of {{sentimentKeys}}
+- interest_level: one of {{interestLevels}}
+- summary: short 1-2 sentence summary of the email
+- recommended_action: short suggestion for the sales team (max 20 words)
+- category: one of {{categoryKeys}}
+- confidence_score: a number between 0 and 1 indicating your confidence in the classification
+- entities: details stated in the email, with empty lists and strings for anything not stated (never guess):
+  - meeting_times: times the sender proposes or accepts for a call or meeting, as [{"start": ISO 8601 date-time, "text": the words they used}]. Resolve relative dates ("Thursday 3pm", "tomorrow morning") against the date the email was received. Include the UTC offset when the sender names a time zone; otherwise leave it out
+  - referrals: other people the sender points us to, as [{"name", "email", "title"}]
+  - phone_numbers: phone numbers the sender gives, as written
+  - company: the sender's company
+  - job_title: the sender's job title
+  - return_date: for out of office replies, the first day the sender is back, as YYYY-MM-DD
+
+SENTIMENTS:
+
+{{sentiments}}
+
+CATEGORIES:
+{{categories}}
+{{examples}}
+Received dates are in the recipient's time zone: {{timeZone}}
+
+{{emails}}
+
+Respond with ONLY valid JSON, no other text.`,
+
+  item: `=== EMAIL {{id}} ===
+RECEIVED: {{receivedAt}}
+SUBJECT: {{subject}}
+{{context}}EMAIL TEXT:
+"""
+{{body}}
+"""`,
+
+  context: `EARLIER IN THE THREAD (oldest first, shortened):
+{{messages}}
+`,
+
+  contextMessage: `[{{author}} - {{receivedAt}}] {{body}}`
+};
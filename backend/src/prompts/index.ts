@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { BatchPromptTemplate, PromptTemplate } from './types';
+import { classificationPromptV3 } from './classification.v3';
+import { classificationBatchPromptV2 } from './classificationBatch.v2';
+
+export * from './types';
+
+// Earlier versions stay in their files so old runs can be compared
+export const CURRENT_CLASSIFICATION_PROMPT = classificationPromptV3;
+export const CURRENT_BATCH_PROMPT = classificationBatchPromptV2;
+
+/**
+ * Identifies the exact prompt wording, e.g. "classification-v1:3f9a0c1b2d4e".
+ * The hash covers every piece of the template, so an edit made without
+ * bumping the name still shows up as a new version.
+ */
+export const promptVersion = (template: PromptTemplate | BatchPromptTemplate): string => {
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify(template))
+    .digest('hex')
+    .slice(0, 12);
+
+  return `${template.name}:${hash}`;
+};
+
+export const CURRENT_PROMPT_VERSION = promptVersion(CURRENT_CLASSIFICATION_PROMPT);
+
+// The batch prompt borrows pieces of the single-email one, so its version
+// changes with either
+export const CURRENT_BATCH_PROMPT_VERSION = promptVersion({
+  ...CURRENT_BATCH_PROMPT,
+  main: `${CURRENT_BATCH_PROMPT.main}\n${JSON.stringify(CURRENT_CLASSIFICATION_PROMPT)}`
+});
+
+/**
+ * Fills `{{name}}` placeholders in one pass, so placeholder-like text
+ * inside an email is left alone.
+ */
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => (key in values ? values[key] : placeholder));
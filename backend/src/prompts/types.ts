@@ -0,0 +1,51 @@
+/**
+ * The text pieces of a classification prompt. `{{name}}` placeholders are
+ * filled in by renderTemplate.
+ */
+export interface PromptTemplate {
+  name: string;
+  // The whole prompt: {{examples}}, {{context}}, {{subject}}, {{body}}, and
+  // from v2 {{sentimentKeys}}, {{interestLevels}}, {{categoryKeys}},
+  // {{sentiments}}, {{categories}}, and from v3 {{receivedAt}}, {{timeZone}},
+  // {{signature}}
+  main: string;
+  // Taxonomy entries, from v2 on (v1 had the labels written into main).
+  // One sentiment: {{key}}, {{label}}, {{description}}, {{examples}}
+  sentiment?: string;
+  // One example phrase of a sentiment: {{text}}
+  sentimentExample?: string;
+  // One category: {{key}}, {{label}}, {{description}}
+  category?: string;
+  // The sender's signature section, from v3 on: {{signature}}
+  signature?: string;
+  // Earlier thread messages section: {{messages}}
+  context: string;
+  // One earlier message: {{author}}, {{from}}, {{receivedAt}}, {{body}}
+  contextMessage: string;
+  // Few-shot examples section: {{examples}}
+  examples: string;
+  // One example: {{subject}}, {{body}}, {{labels}}
+  example: string;
+  // Follow-up after an invalid answer: {{prompt}}, {{previousAnswer}}, {{errors}}
+  repair: string;
+}
+
+/**
+ * Framing for classifying several emails in one request. The taxonomy
+ * entries and few-shot examples are rendered with the single-email
+ * template's pieces.
+ */
+export interface BatchPromptTemplate {
+  name: string;
+  // The whole prompt: {{count}}, {{sentimentKeys}}, {{interestLevels}},
+  // {{categoryKeys}}, {{sentiments}}, {{categories}}, {{examples}},
+  // {{timeZone}}, {{emails}}
+  main: string;
+  // One email: {{id}}, {{receivedAt}}, {{subject}}, {{body}}, and from v2
+  // {{context}}
+  item: string;
+  // Earlier thread messages of one email, from v2 on: {{messages}}
+  context?: string;
+  // One earlier message: {{author}}, {{receivedAt}}, {{body}}
+  contextMessage?: string;
+}
@@ -2,9 +2,33 @@ import { Router, Response, NextFunction } from 'express';
 import { supabase } from '../config/supabase';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
+import { taxonomyService } from '../services/taxonomy.service';
 
 const router = Router();
 
+// PostgREST returns at most this many rows per request, so longer lists
+// are read a page at a time
+const ROWS_PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, paging through it in id order. `query` builds a
+ * fresh query for each page.
+ */
+const fetchAllRows = async (query: () => any): Promise<{ data: any[] | null; error: any }> => {
+  const rows: any[] = [];
+
+  for (let from = 0; ; from += ROWS_PAGE_SIZE) {
+    const { data, error } = await query()
+      .order('id', { ascending: true })
+      .range(from, from + ROWS_PAGE_SIZE - 1);
+
+    if (error) return { data: null, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < ROWS_PAGE_SIZE) return { data: rows, error: null };
+  }
+};
+
 // Get analytics overview
 router.get('/overview', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -40,6 +64,14 @@ router.get('/overview', authenticate, async (req: AuthRequest, res: Response, ne
     const autoReplyCount = data.filter(c => c.sentiment === 'auto_reply').length;
     const outOfOfficeCount = data.filter(c => c.sentiment === 'out_of_office').length;
 
+    // Counts for every label, including custom taxonomy ones
+    const bySentiment: Record<string, number> = {};
+    const byCategory: Record<string, number> = {};
+    data.forEach(item => {
+      if (item.sentiment) bySentiment[item.sentiment] = (bySentiment[item.sentiment] || 0) + 1;
+      if (item.category) byCategory[item.category] = (byCategory[item.category] || 0) + 1;
+    });
+
     // Group by mailbox
     const byMailbox: any[] = [];
     const mailboxMap = new Map();
@@ -124,6 +156,8 @@ router.get('/overview', authenticate, async (req: AuthRequest, res: Response, ne
     dayMap.forEach(value => trendByDay.push(value));
     trendByDay.sort((a, b) => a.date.localeCompare(b.date));
 
+    const taxonomy = await taxonomyService.get(req.userId!);
+
     res.json({
       totalReplies,
       positiveCount,
@@ -132,6 +166,9 @@ router.get('/overview', authenticate, async (req: AuthRequest, res: Response, ne
       neutralCount,
       autoReplyCount,
       outOfOfficeCount,
+      bySentiment,
+      byCategory,
+      taxonomy,
       byMailbox,
       trendByDay
     });
@@ -140,4 +177,121 @@ router.get('/overview', authenticate, async (req: AuthRequest, res: Response, ne
   }
 });
 
+const normalizeSubject = (subject: string | null) =>
+  (subject || '(no subject)').replace(/^\s*((re|fwd?|aw|sv):\s*)+/i, '').trim() || '(no subject)';
+
+// Reply rate and response time of sent emails, overall and per opener
+router.get('/reply-rates', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { mailboxId } = req.query;
+
+    const sentQuery = () => {
+      const query = supabase
+        .from('messages')
+        .select(`
+          id,
+          subject,
+          received_at,
+          thread:threads!inner(
+            mailbox:mailboxes!inner(
+              id,
+              user_id
+            )
+          )
+        `)
+        .eq('direction', 'outbound')
+        .eq('thread.mailbox.user_id', req.userId);
+
+      return mailboxId ? query.eq('thread.mailbox.id', mailboxId) : query;
+    };
+
+    const repliesQuery = () => {
+      const query = supabase
+        .from('messages')
+        .select(`
+          replied_to_message_id,
+          received_at,
+          thread:threads!inner(
+            mailbox:mailboxes!inner(
+              id,
+              user_id
+            )
+          )
+        `)
+        .eq('direction', 'inbound')
+        .not('replied_to_message_id', 'is', null)
+        .eq('thread.mailbox.user_id', req.userId);
+
+      return mailboxId ? query.eq('thread.mailbox.id', mailboxId) : query;
+    };
+
+    const [{ data: sent, error: sentError }, { data: replies, error: repliesError }] = await Promise.all([
+      fetchAllRows(sentQuery),
+      fetchAllRows(repliesQuery)
+    ]);
+
+    if (sentError || repliesError) {
+      throw new AppError('Failed to fetch reply rates', 500);
+    }
+
+    // Only the first reply to each sent email counts towards response time
+    const firstReplyAt = new Map<string, number>();
+    (replies || []).forEach((reply: any) => {
+      const receivedAt = new Date(reply.received_at).getTime();
+      const current = firstReplyAt.get(reply.replied_to_message_id);
+      if (current === undefined || receivedAt < current) {
+        firstReplyAt.set(reply.replied_to_message_id, receivedAt);
+      }
+    });
+
+    const openerMap = new Map<string, { subject: string; sent: number; replied: number; responseMinutes: number[] }>();
+    const responseMinutes: number[] = [];
+
+    (sent || []).forEach((message: any) => {
+      const subject = normalizeSubject(message.subject);
+      if (!openerMap.has(subject)) {
+        openerMap.set(subject, { subject, sent: 0, replied: 0, responseMinutes: [] });
+      }
+
+      const opener = openerMap.get(subject)!;
+      opener.sent++;
+
+      const repliedAt = firstReplyAt.get(message.id);
+      if (repliedAt === undefined) return;
+
+      const minutes = Math.max(0, (repliedAt - new Date(message.received_at).getTime()) / 60000);
+      opener.replied++;
+      opener.responseMinutes.push(minutes);
+      responseMinutes.push(minutes);
+    });
+
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+    const rate = (replied: number, total: number) =>
+      total > 0 ? Math.round((replied / total) * 1000) / 10 : 0;
+
+    const byOpener = [...openerMap.values()]
+      .map(opener => ({
+        subject: opener.subject,
+        sent: opener.sent,
+        replied: opener.replied,
+        replyRate: rate(opener.replied, opener.sent),
+        avgResponseMinutes: average(opener.responseMinutes)
+      }))
+      .sort((a, b) => b.sent - a.sent);
+
+    const sentCount = sent?.length || 0;
+
+    res.json({
+      sentCount,
+      repliedCount: responseMinutes.length,
+      replyRate: rate(responseMinutes.length, sentCount),
+      avgResponseMinutes: average(responseMinutes),
+      byOpener
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
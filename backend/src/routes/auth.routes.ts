@@ -3,6 +3,7 @@ import { getAuthUrl, getTokensFromCode } from '../config/gmail';
 import { supabase } from '../config/supabase';
 import { AppError } from '../middleware/errorHandler';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { watchConnectedMailbox } from '../jobs/watchRenewal.job';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -212,7 +213,7 @@ router.get('/google/callback', async (req: Request, res: Response, _next: NextFu
     }
 
     // Store mailbox in database
-    const { error } = await supabase
+    const { data: mailbox, error } = await supabase
       .from('mailboxes')
       .insert({
         user_id: userId,
@@ -231,6 +232,8 @@ router.get('/google/callback', async (req: Request, res: Response, _next: NextFu
       return res.redirect(`${process.env.FRONTEND_URL}/mailboxes?error=mailbox_storage_failed`);
     }
 
+    await watchConnectedMailbox(mailbox);
+
     // Generate JWT token
     const jwt = require('jsonwebtoken');
     const token = jwt.sign(
@@ -329,6 +332,8 @@ router.post('/google/callback', async (req: Request, res: Response, next: NextFu
       throw new AppError('Failed to connect mailbox', 500);
     }
 
+    await watchConnectedMailbox(mailbox);
+
     // Generate JWT token
     const jwt = require('jsonwebtoken');
     const token = jwt.sign(
@@ -0,0 +1,81 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { bounceService, BounceFilters } from '../services/bounce.service';
+
+const router = Router();
+
+const CSV_COLUMNS = ['email', 'type', 'status', 'diagnostic', 'bounce_count', 'last_bounced_at'] as const;
+
+// Quotes a CSV field when needed, and keeps spreadsheet apps from running
+// a diagnostic that starts with = + - @ as a formula
+const csvField = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const parseFilters = (query: AuthRequest['query']): BounceFilters => {
+  const { type, mailboxId } = query;
+
+  if (type !== undefined && type !== 'hard' && type !== 'soft') {
+    throw new AppError('type must be hard or soft', 400);
+  }
+
+  return {
+    type: type as BounceFilters['type'],
+    mailboxId: mailboxId ? String(mailboxId) : undefined
+  };
+};
+
+// List bounces, most recent first
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseFilters(req.query);
+    const pageNum = parseInt(String(req.query.page || '1'));
+    const pageSizeNum = parseInt(String(req.query.pageSize || '25'));
+
+    const { data, total } = await bounceService.list(req.userId!, filters, pageNum, pageSizeNum);
+
+    res.json({
+      page: pageNum,
+      pageSize: pageSizeNum,
+      total,
+      data
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Bounced addresses as CSV, one line per address, for importing into a
+// sending tool's suppression list. Hard bounces only unless type is given.
+router.get('/export', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseFilters(req.query);
+    const addresses = await bounceService.addresses(req.userId!, {
+      ...filters,
+      type: filters.type || 'hard'
+    });
+
+    const lines = [
+      CSV_COLUMNS.join(','),
+      ...addresses.map(address => [
+        address.recipient,
+        address.type,
+        address.status,
+        address.diagnostic,
+        address.bounce_count,
+        address.last_bounced_at
+      ].map(csvField).join(','))
+    ];
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="bounces-${filters.type || 'hard'}.csv"`);
+    res.send(`${lines.join('\n')}\n`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { followUpService, FOLLOW_UP_STATUSES, FollowUpStatus } from '../services/followUp.service';
+
+const router = Router();
+
+const isStatus = (value: unknown): value is FollowUpStatus =>
+  typeof value === 'string' && (FOLLOW_UP_STATUSES as readonly string[]).includes(value);
+
+// List follow-ups, open ones soonest due first
+router.get('/', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status = 'open' } = req.query;
+
+    if (!isStatus(status)) {
+      throw new AppError(`status must be one of ${FOLLOW_UP_STATUSES.join(', ')}`, 400);
+    }
+
+    const followUps = await followUpService.list(req.userId!, status);
+    res.json({ data: followUps });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark a follow-up done or dismissed, or reopen it
+router.patch('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status } = req.body;
+
+    if (!isStatus(status)) {
+      throw new AppError(`status must be one of ${FOLLOW_UP_STATUSES.join(', ')}`, 400);
+    }
+
+    const followUp = await followUpService.updateStatus(req.params.id, req.userId!, status);
+    if (!followUp) {
+      throw new AppError('Follow-up not found', 404);
+    }
+
+    res.json(followUp);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -5,6 +5,8 @@ import replyRoutes from './reply.routes';
 import analyticsRoutes from './analytics.routes';
 import settingsRoutes from './settings.routes';
 import syncRoutes from './sync.routes';
+import followUpRoutes from './followUp.routes';
+import bounceRoutes from './bounce.routes';
 
 const router = Router();
 
@@ -14,5 +16,7 @@ router.use('/replies', replyRoutes);
 router.use('/analytics', analyticsRoutes);
 router.use('/settings', settingsRoutes);
 router.use('/sync', syncRoutes);
+router.use('/follow-ups', followUpRoutes);
+router.use('/bounces', bounceRoutes);
 
 export default router;
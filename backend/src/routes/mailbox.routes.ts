@@ -10,7 +10,7 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
   try {
     const { data: mailboxes, error } = await supabase
       .from('mailboxes')
-      .select('id, email_address, status, last_synced_at, created_at')
+      .select('id, email_address, status, last_synced_at, sync_interval_minutes, next_sync_at, created_at')
       .eq('user_id', req.userId)
       .order('created_at', { ascending: false });
 
@@ -50,6 +50,62 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: N
   }
 });
 
+// Update the automatic sync interval of a mailbox (null inherits the user setting, 0 disables)
+router.put('/:id/schedule', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { syncIntervalMinutes } = req.body;
+
+    if (syncIntervalMinutes !== null && (!Number.isInteger(syncIntervalMinutes) || syncIntervalMinutes < 0)) {
+      throw new AppError('syncIntervalMinutes must be null or a non-negative integer', 400);
+    }
+
+    const { data: mailbox, error } = await supabase
+      .from('mailboxes')
+      .update({
+        sync_interval_minutes: syncIntervalMinutes,
+        // Let the scheduler pick the new interval up on its next tick
+        next_sync_at: null
+      })
+      .eq('id', id)
+      .eq('user_id', req.userId)
+      .select('id, email_address, status, last_synced_at, sync_interval_minutes, next_sync_at, created_at')
+      .single();
+
+    if (error || !mailbox) {
+      throw new AppError('Mailbox not found', 404);
+    }
+
+    res.json(mailbox);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the sync run history of a mailbox
+router.get('/:id/sync-runs', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(parseInt((req.query.limit as string) || '20'), 100);
+
+    const { data: runs, error } = await supabase
+      .from('sync_runs')
+      .select('id, trigger, status, mode, total_messages, processed_count, classified_count, skipped_count, failed_count, deferred_count, cache_hits, cache_misses, error_message, started_at, finished_at')
+      .eq('mailbox_id', id)
+      .eq('user_id', req.userId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new AppError('Failed to fetch sync history', 500);
+    }
+
+    res.json(runs || []);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete a mailbox
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
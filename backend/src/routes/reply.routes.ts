@@ -2,9 +2,42 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { supabase } from '../config/supabase';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
+import { classificationService } from '../services/classification.service';
+import { INTEREST_LEVELS } from '../services/classificationSchema';
+import { taxonomyService } from '../services/taxonomy.service';
+import { ENTITY_TYPES } from '../utils/entityExtractor';
 
 const router = Router();
 
+// Loads a classification with its message, checking that the user owns it
+const findOwnedClassification = async (id: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('classifications')
+    .select(`
+      *,
+      message:messages!inner(
+        id,
+        thread:threads!inner(
+          mailbox:mailboxes!inner(
+            user_id
+          )
+        )
+      )
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new AppError('Reply not found', 404);
+  }
+
+  if ((data.message as any)?.thread?.mailbox?.user_id !== userId) {
+    throw new AppError('Unauthorized', 403);
+  }
+
+  return data;
+};
+
 // Debug endpoint to check database contents (no auth for debugging)
 router.get('/debug', async (_req: Request, res: Response, next: NextFunction) => {
   try {
@@ -47,9 +80,15 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
       search,
       from,
       to,
-      interestLevel
+      interestLevel,
+      category,
+      entity
     } = req.query;
 
+    if (entity && !ENTITY_TYPES.includes(entity as any)) {
+      throw new AppError(`entity must be one of ${ENTITY_TYPES.join(', ')}`, 400);
+    }
+
     const pageNum = parseInt(page as string);
     const pageSizeNum = parseInt(pageSize as string);
     const offset = (pageNum - 1) * pageSizeNum;
@@ -66,9 +105,26 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
           snippet,
           body_plain,
           body_html,
+          body_new_content,
           received_at,
           is_read,
+          entities:reply_entities(
+            id,
+            type,
+            value,
+            starts_at,
+            details,
+            source
+          ),
+          ${entity ? 'entity_filter:reply_entities!inner(type),' : ''}
+          replied_to:messages!replied_to_message_id(
+            id,
+            subject,
+            snippet,
+            received_at
+          ),
           thread:threads!inner(
+            current_stage,
             mailbox:mailboxes!inner(
               id,
               email_address,
@@ -78,7 +134,9 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
         )
       `, { count: 'exact' });
 
-    if (sentiment) {
+    if (sentiment === 'needs_review') {
+      query = query.eq('status', 'needs_review');
+    } else if (sentiment) {
       query = query.eq('sentiment', sentiment);
     }
 
@@ -86,6 +144,16 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response, next: Next
       query = query.eq('interest_level', interestLevel);
     }
 
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    // Filtered through a second embedding so `entities` still lists
+    // everything found in the reply
+    if (entity) {
+      query = query.eq('message.entity_filter.type', entity);
+    }
+
     if (mailboxId) {
       query = query.eq('message.thread.mailbox.id', mailboxId);
     }
@@ -155,6 +223,98 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: Response, next
   }
 });
 
+// Run a reply through the current model again
+router.post('/:id/reclassify', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const classification = await findOwnedClassification(req.params.id, req.userId!);
+
+    if (classification.overridden_at) {
+      throw new AppError('This reply was labelled by hand; remove the override first', 409);
+    }
+
+    if (classification.source === 'bounce') {
+      throw new AppError('Delivery reports are labelled without the model', 409);
+    }
+
+    const outcome = await classificationService.reclassifyMessage(req.userId!, classification.message_id);
+
+    if (outcome.status === 'deferred') {
+      res.set('Retry-After', String(Math.ceil(outcome.retryAfterMs / 1000)));
+      throw new AppError('The AI provider is unavailable right now; try again shortly', 503);
+    }
+
+    if (outcome.status === 'failed') {
+      throw new AppError(`Failed to reclassify reply: ${outcome.error}`, 502);
+    }
+
+    const { data: updated } = await supabase
+      .from('classifications')
+      .select('*')
+      .eq('id', classification.id)
+      .single();
+
+    res.json({ status: outcome.status, classification: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set the labels by hand; later reclassification never overwrites them
+router.put('/:id/override', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { sentiment, interestLevel, category } = req.body;
+
+    const taxonomy = await taxonomyService.get(req.userId!);
+    const sentiments = taxonomy.sentiments.map(s => s.key);
+    const categories = taxonomy.categories.map(c => c.key);
+
+    if (!sentiments.includes(sentiment)) {
+      throw new AppError(`sentiment must be one of ${sentiments.join(', ')}`, 400);
+    }
+    if (!INTEREST_LEVELS.includes(interestLevel)) {
+      throw new AppError(`interestLevel must be one of ${INTEREST_LEVELS.join(', ')}`, 400);
+    }
+    if (!categories.includes(category)) {
+      throw new AppError(`category must be one of ${categories.join(', ')}`, 400);
+    }
+
+    await findOwnedClassification(req.params.id, req.userId!);
+
+    const updated = await classificationService.override(req.params.id, req.userId!, {
+      sentiment,
+      interest_level: interestLevel,
+      category
+    });
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Drop a manual override so the reply can be reclassified again. The
+// labels stay as they are until the next reclassification.
+router.delete('/:id/override', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await findOwnedClassification(req.params.id, req.userId!);
+
+    const { data, error } = await supabase
+      .from('classifications')
+      .update({ overridden_by: null, overridden_at: null })
+      .eq('id', req.params.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError('Failed to remove override', 500);
+    }
+
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get a specific reply with full details
 router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -166,6 +326,12 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response, next: N
         *,
         message:messages(
           *,
+          replied_to:messages!replied_to_message_id(
+            id,
+            subject,
+            snippet,
+            received_at
+          ),
           thread:threads(
             *,
             mailbox:mailboxes(
@@ -2,6 +2,19 @@ import { Router, Response, NextFunction } from 'express';
 import { supabase } from '../config/supabase';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
+import { getDefaultProviderName, isProviderName, listProviders } from '../services/providers';
+import { fewShotService } from '../services/fewShot.service';
+import {
+  FALLBACK_CATEGORY,
+  INTEREST_LEVELS,
+  REPLY_STAGES,
+  SYSTEM_SENTIMENTS,
+  validateTaxonomy
+} from '../services/classificationSchema';
+import { taxonomyService } from '../services/taxonomy.service';
+import { MAX_TEST_LIMIT, spamRuleService } from '../services/spamRule.service';
+import { SPAM_RULE_FIELDS, SPAM_RULE_TYPES, validateSpamRule } from '../utils/spamRules';
+import { CURRENT_PROMPT_VERSION } from '../prompts';
 
 const router = Router();
 
@@ -54,4 +67,386 @@ router.put('/alerts', authenticate, async (req: AuthRequest, res: Response, next
   }
 });
 
+// Get automatic sync settings
+router.get('/sync', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { data: settings, error } = await supabase
+      .from('settings')
+      .select('sync_interval_minutes')
+      .eq('user_id', req.userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // Not found is ok
+      throw new AppError('Failed to fetch settings', 500);
+    }
+
+    res.json({
+      sync_interval_minutes: settings?.sync_interval_minutes ?? null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update automatic sync settings (null or 0 disables scheduled syncs)
+router.put('/sync', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { syncIntervalMinutes } = req.body;
+
+    if (syncIntervalMinutes !== null && (!Number.isInteger(syncIntervalMinutes) || syncIntervalMinutes < 0)) {
+      throw new AppError('syncIntervalMinutes must be null or a non-negative integer', 400);
+    }
+
+    const { data, error } = await supabase
+      .from('settings')
+      .upsert({
+        user_id: req.userId,
+        sync_interval_minutes: syncIntervalMinutes
+      }, {
+        onConflict: 'user_id'
+      })
+      .select('sync_interval_minutes')
+      .single();
+
+    if (error) {
+      throw new AppError('Failed to update settings', 500);
+    }
+
+    // Reschedule mailboxes that follow the user-level interval
+    await supabase
+      .from('mailboxes')
+      .update({ next_sync_at: null })
+      .eq('user_id', req.userId)
+      .is('sync_interval_minutes', null);
+
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get classification settings
+router.get('/classification', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { data: settings, error } = await supabase
+      .from('settings')
+      .select('thread_context_enabled, ai_provider, ai_model')
+      .eq('user_id', req.userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // Not found is ok
+      throw new AppError('Failed to fetch settings', 500);
+    }
+
+    res.json({
+      thread_context_enabled: settings?.thread_context_enabled ?? true,
+      ai_provider: settings?.ai_provider ?? null,
+      ai_model: settings?.ai_model ?? null,
+      default_provider: getDefaultProviderName(),
+      providers: listProviders(),
+      prompt_version: CURRENT_PROMPT_VERSION
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update classification settings
+router.put('/classification', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { threadContextEnabled, aiProvider, aiModel } = req.body;
+    const update: Record<string, any> = { user_id: req.userId };
+
+    if (threadContextEnabled !== undefined) {
+      if (typeof threadContextEnabled !== 'boolean') {
+        throw new AppError('threadContextEnabled must be a boolean', 400);
+      }
+      update.thread_context_enabled = threadContextEnabled;
+    }
+
+    // null resets to the server default
+    if (aiProvider !== undefined) {
+      if (aiProvider !== null && !isProviderName(aiProvider)) {
+        throw new AppError('Unknown AI provider', 400);
+      }
+      update.ai_provider = aiProvider;
+    }
+
+    if (aiModel !== undefined) {
+      if (aiModel !== null && (typeof aiModel !== 'string' || !/^[\w.:\/-]{1,100}$/.test(aiModel))) {
+        throw new AppError('Invalid AI model name', 400);
+      }
+      update.ai_model = aiModel || null;
+    }
+
+    const { data, error } = await supabase
+      .from('settings')
+      .upsert(update, {
+        onConflict: 'user_id'
+      })
+      .select('thread_context_enabled, ai_provider, ai_model')
+      .single();
+
+    if (error) {
+      throw new AppError('Failed to update settings', 500);
+    }
+
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the labels replies are classified into
+router.get('/taxonomy', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { taxonomy, isDefault } = await taxonomyService.load(req.userId!);
+
+    res.json({
+      ...taxonomy,
+      is_default: isDefault,
+      system_sentiments: SYSTEM_SENTIMENTS,
+      system_categories: [FALLBACK_CATEGORY],
+      stages: REPLY_STAGES
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the taxonomy. Existing classifications keep their labels; use
+// reclassification to move them to the new ones.
+router.put('/taxonomy', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { value, errors } = validateTaxonomy(req.body);
+    if (!value) {
+      throw new AppError(`Invalid taxonomy: ${errors.join('; ')}`, 400);
+    }
+
+    const taxonomy = await taxonomyService.save(req.userId!, value);
+    res.json({ ...taxonomy, is_default: false });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Go back to the built-in taxonomy
+router.delete('/taxonomy', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const taxonomy = await taxonomyService.reset(req.userId!);
+    res.json({ ...taxonomy, is_default: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the spam rules and the score at which a reply counts as spam
+router.get('/spam', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rules = await spamRuleService.list(req.userId!);
+
+    res.json({
+      threshold: await spamRuleService.threshold(req.userId!),
+      rules,
+      rule_types: SPAM_RULE_TYPES,
+      rule_fields: SPAM_RULE_FIELDS
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update the spam threshold. Replies already labelled keep their labels
+router.put('/spam', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { threshold } = req.body;
+
+    if (typeof threshold !== 'number' || !(threshold > 0) || threshold > 100) {
+      throw new AppError('threshold must be a number above 0 and at most 100', 400);
+    }
+
+    res.json({ threshold: await spamRuleService.setThreshold(req.userId!, threshold) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a spam rule
+router.post('/spam/rules', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { value, errors } = validateSpamRule(req.body);
+    if (!value) {
+      throw new AppError(`Invalid spam rule: ${errors.join('; ')}`, 400);
+    }
+
+    const rule = await spamRuleService.create(req.userId!, value);
+    if (!rule) {
+      throw new AppError('A spam rule with this name already exists', 409);
+    }
+
+    res.status(201).json(rule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Turn a spam rule on or off, or change its weight
+router.patch('/spam/rules/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { enabled, weight } = req.body;
+    const changes: { enabled?: boolean; weight?: number } = {};
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        throw new AppError('enabled must be a boolean', 400);
+      }
+      changes.enabled = enabled;
+    }
+
+    if (weight !== undefined) {
+      if (typeof weight !== 'number' || weight < -10 || weight > 10) {
+        throw new AppError('weight must be a number between -10 and 10', 400);
+      }
+      changes.weight = weight;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new AppError('Nothing to update', 400);
+    }
+
+    const rule = await spamRuleService.update(req.params.id, req.userId!, changes);
+    if (!rule) {
+      throw new AppError('Spam rule not found', 404);
+    }
+
+    res.json(rule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a spam rule the user added; built-in rules can only be turned off
+router.delete('/spam/rules/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rule = await spamRuleService.get(req.params.id, req.userId!);
+    if (!rule) {
+      throw new AppError('Spam rule not found', 404);
+    }
+    if (rule.builtin) {
+      throw new AppError('Built-in spam rules can be turned off but not deleted', 400);
+    }
+
+    await spamRuleService.remove(req.params.id, req.userId!);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Try the spam rules on recent replies without changing anything. A draft
+// rule and threshold can be passed to see what they would catch before
+// saving them.
+router.post('/spam/test', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { rule, threshold, limit } = req.body;
+
+    let draft = null;
+    if (rule !== undefined && rule !== null) {
+      const { value, errors } = validateSpamRule(rule);
+      if (!value) {
+        throw new AppError(`Invalid spam rule: ${errors.join('; ')}`, 400);
+      }
+      draft = value;
+    }
+
+    if (threshold !== undefined && (typeof threshold !== 'number' || !(threshold > 0))) {
+      throw new AppError('threshold must be a number above 0', 400);
+    }
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_TEST_LIMIT)) {
+      throw new AppError(`limit must be an integer between 1 and ${MAX_TEST_LIMIT}`, 400);
+    }
+
+    res.json(await spamRuleService.test(req.userId!, { draft, threshold, limit }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List the corrections used as few-shot examples
+router.get('/classification/examples', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const examples = await fewShotService.list(req.userId!);
+    res.json({ examples });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Curate an example: turn it off, or fix its labels
+router.patch('/classification/examples/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { enabled, sentiment, interestLevel, category } = req.body;
+    const changes: Record<string, any> = {};
+    const taxonomy = await taxonomyService.get(req.userId!);
+    const sentiments = taxonomy.sentiments.map(s => s.key);
+    const categories = taxonomy.categories.map(c => c.key);
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        throw new AppError('enabled must be a boolean', 400);
+      }
+      changes.enabled = enabled;
+    }
+
+    if (sentiment !== undefined) {
+      if (!sentiments.includes(sentiment)) {
+        throw new AppError(`sentiment must be one of ${sentiments.join(', ')}`, 400);
+      }
+      changes.sentiment = sentiment;
+    }
+
+    if (interestLevel !== undefined) {
+      if (!INTEREST_LEVELS.includes(interestLevel)) {
+        throw new AppError(`interestLevel must be one of ${INTEREST_LEVELS.join(', ')}`, 400);
+      }
+      changes.interest_level = interestLevel;
+    }
+
+    if (category !== undefined) {
+      if (!categories.includes(category)) {
+        throw new AppError(`category must be one of ${categories.join(', ')}`, 400);
+      }
+      changes.category = category;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new AppError('Nothing to update', 400);
+    }
+
+    const example = await fewShotService.update(req.params.id, req.userId!, changes);
+    if (!example) {
+      throw new AppError('Example not found', 404);
+    }
+
+    res.json(example);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an example; the reply keeps its corrected labels
+router.delete('/classification/examples/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const deleted = await fewShotService.remove(req.params.id, req.userId!);
+    if (!deleted) {
+      throw new AppError('Example not found', 404);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,13 +1,20 @@
-import { Router, Response, NextFunction } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { supabase } from '../config/supabase';
-import { gmailService } from '../services/gmail.service';
-import { GeminiService } from '../services/gemini.service';
+import { syncService } from '../services/sync.service';
+import { backfillService } from '../services/backfill.service';
+import { JobConflictError, syncJobService, TERMINAL_JOB_STATUSES } from '../services/syncJob.service';
+import { syncEvents, SyncJobEvent } from '../services/syncEvents.service';
 import { AppError } from '../middleware/errorHandler';
+import { drainSyncJobs } from '../jobs/syncWorker.job';
+import { scheduleDueSyncs } from '../jobs/syncScheduler.job';
+import { renewDueGmailWatches } from '../jobs/watchRenewal.job';
 import { logger } from '../utils/logger';
 
 const router = Router();
-const geminiService = new GeminiService();
+
+// How often an open progress stream rereads its jobs from the database
+const EVENTS_POLL_INTERVAL_MS = 3 * 1000;
 
 // Sync emails for a specific mailbox
 router.post('/mailbox/:mailboxId', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -27,234 +34,250 @@ router.post('/mailbox/:mailboxId', authenticate, async (req: AuthRequest, res: R
       throw new AppError('Mailbox not found', 404);
     }
 
-    logger.info('Starting email sync', { mailboxId, email: mailbox.email_address });
+    const result = await syncService.syncMailbox(mailbox, { maxResults });
+
+    if (!result) {
+      throw new AppError('A sync is already running for this mailbox', 409);
+    }
 
-    // Fetch recent message IDs (all inbox messages, not just unread)
-    logger.info('Fetching messages from Gmail', { 
+    res.json({
+      success: true,
+      ...result,
       mailbox: mailbox.email_address,
-      query: 'in:inbox',
-      maxResults 
-    });
-    
-    const messageIds = await gmailService.listMessages(
-      mailbox.access_token_encrypted,
-      mailbox.refresh_token_encrypted,
-      'in:inbox',
-      maxResults
-    );
-
-    logger.info(`Found ${messageIds.length} messages to process`, { 
-      messageIds: messageIds.slice(0, 3) 
+      messageIds: result.messageIds.slice(0, 5) // Show first 5 message IDs for debugging
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    let processedCount = 0;
-    let classifiedCount = 0;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-    for (const messageId of messageIds) {
-      try {
-        // Get full message details
-        const parsedMessage = await gmailService.fetchMessage(
-          mailbox.access_token_encrypted,
-          mailbox.refresh_token_encrypted,
-          messageId
-        );
-
-        if (!parsedMessage) {
-          logger.error('Failed to fetch message from Gmail', { 
-            messageId,
-            mailbox: mailbox.email_address 
-          });
-          continue;
-        }
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
 
-        logger.info('Message fetched successfully', { 
-          messageId,
-          subject: parsedMessage.subject,
-          from: parsedMessage.from 
-        });
-
-        // Check if message already exists
-        const { data: existingMessage } = await supabase
-          .from('messages')
-          .select('id, body_plain, snippet, subject')
-          .eq('gmail_message_id', messageId)
-          .single();
-
-        if (existingMessage) {
-          // Check if message has classification
-          const { data: existingClassification } = await supabase
-            .from('classifications')
-            .select('id')
-            .eq('message_id', existingMessage.id)
-            .single();
-
-          if (existingClassification) {
-            logger.info('Message already processed', { messageId });
-            continue;
-          }
-
-          // Message exists but no classification - classify it now
-          logger.info('Message exists but not classified, classifying now', { messageId });
-          try {
-            const classification = await geminiService.classifyEmail(
-              existingMessage.body_plain || existingMessage.snippet,
-              existingMessage.subject
-            );
-
-            await supabase
-              .from('classifications')
-              .insert({
-                message_id: existingMessage.id,
-                sentiment: classification.sentiment,
-                confidence_score: classification.confidence_score,
-                interest_level: classification.interest_level,
-                summary: classification.summary,
-                category: classification.category,
-                recommended_action: classification.recommended_action
-              });
-
-            logger.info('Existing message classified successfully', { messageId });
-          } catch (error) {
-            logger.error('Failed to classify existing message', { messageId, error });
-          }
-          continue;
-        }
+// Queue a backfill of everything in a date range for a mailbox
+router.post('/mailbox/:mailboxId/backfill', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { mailboxId } = req.params;
+    const { after, before } = req.body;
 
-        // Create or get thread
-        let threadId;
-        const { data: existingThread } = await supabase
-          .from('threads')
-          .select('id')
-          .eq('mailbox_id', mailboxId)
-          .eq('gmail_thread_id', parsedMessage.threadId)
-          .single();
-
-        if (existingThread) {
-          threadId = existingThread.id;
-        } else {
-          const { data: newThread, error: threadError } = await supabase
-            .from('threads')
-            .insert({
-              mailbox_id: mailboxId,
-              gmail_thread_id: parsedMessage.threadId,
-              subject: parsedMessage.subject,
-              lead_email: parsedMessage.from,
-              last_message_at: parsedMessage.receivedAt
-            })
-            .select()
-            .single();
-
-          if (threadError) {
-            logger.error('Failed to create thread', { error: threadError });
-            continue;
-          }
-          threadId = newThread.id;
-        }
+    if (!isValidDate(after)) {
+      throw new AppError('after must be a date in YYYY-MM-DD format', 400);
+    }
+    if (before !== undefined && before !== null && before !== '') {
+      if (!isValidDate(before)) {
+        throw new AppError('before must be a date in YYYY-MM-DD format', 400);
+      }
+      if (before <= after) {
+        throw new AppError('before must be later than after', 400);
+      }
+    }
 
-        // Insert message
-        const { data: insertedMessage, error: messageError } = await supabase
-          .from('messages')
-          .insert({
-            thread_id: threadId,
-            gmail_message_id: messageId,
-            direction: 'inbound',
-            from_address: parsedMessage.from,
-            to_addresses: parsedMessage.to,
-            cc_addresses: parsedMessage.cc,
-            subject: parsedMessage.subject,
-            snippet: parsedMessage.snippet,
-            body_plain: parsedMessage.bodyPlain,
-            body_html: parsedMessage.bodyHtml,
-            received_at: parsedMessage.receivedAt,
-            is_read: parsedMessage.isRead
-          })
-          .select()
-          .single();
-
-        if (messageError) {
-          logger.error('Failed to insert message into database', { 
-            error: messageError,
-            messageId,
-            subject: parsedMessage.subject 
-          });
-          continue;
-        }
+    const { data: mailbox, error: mailboxError } = await supabase
+      .from('mailboxes')
+      .select('*')
+      .eq('id', mailboxId)
+      .eq('user_id', req.userId)
+      .single();
 
-        logger.info('Message inserted into database', { 
-          messageId,
-          dbId: insertedMessage.id 
-        });
-
-        processedCount++;
-
-        // Classify with Gemini AI
-        try {
-          const geminiService = new GeminiService();
-          const classification = await geminiService.classifyEmail(
-            parsedMessage.bodyPlain || parsedMessage.snippet || '',
-            parsedMessage.subject || ''
-          );
-
-          // Insert classification
-          const { error: classificationError } = await supabase
-            .from('classifications')
-            .insert({
-              message_id: insertedMessage.id,
-              sentiment: classification.sentiment,
-              confidence_score: classification.confidence_score,
-              interest_level: classification.interest_level,
-              summary: classification.summary,
-              category: classification.category,
-              recommended_action: classification.recommended_action,
-              raw_ai_response: classification
-            });
-
-          if (classificationError) {
-            logger.error('Failed to insert classification', { error: classificationError });
-          } else {
-            classifiedCount++;
-            logger.info('Message classified', { 
-              messageId, 
-              sentiment: classification.sentiment 
-            });
-          }
-        } catch (classifyError) {
-          logger.error('Failed to classify message', { error: classifyError });
-        }
+    if (mailboxError || !mailbox) {
+      throw new AppError('Mailbox not found', 404);
+    }
 
-      } catch (msgError) {
-        logger.error('Failed to process message', { messageId, error: msgError });
+    const range = { after, before: before || null };
+
+    let estimatedTotal: number;
+    try {
+      estimatedTotal = await backfillService.estimate(mailbox, range);
+    } catch (error: any) {
+      logger.error('Failed to estimate backfill size', { mailbox: mailbox.email_address, error: error.message });
+      throw new AppError('Failed to read mailbox from Gmail', 502);
+    }
+
+    let job;
+    try {
+      job = await syncJobService.enqueue(req.userId!, mailbox.id, { ...range, estimatedTotal }, 'backfill');
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        throw new AppError('Another backfill is already in progress for this mailbox; cancel it or wait for it to finish', 409);
       }
+      throw error;
     }
 
-    // Update last synced timestamp
-    await supabase
+    return res.status(202).json({
+      success: true,
+      estimatedTotal: job.params.estimatedTotal ?? estimatedTotal,
+      job: {
+        id: job.id,
+        mailboxId: mailbox.id,
+        email: mailbox.email_address,
+        status: job.status,
+        after: job.params.after,
+        before: job.params.before
+      }
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+// Queue a reclassification of the user's replies with the current model.
+// Filters narrow it down; manual overrides are always left alone.
+router.post('/reclassify', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { mailboxId, sentiment, status, from, to, outdatedPrompt } = req.body;
+
+    if (status !== undefined && status !== 'classified' && status !== 'needs_review') {
+      throw new AppError('status must be classified or needs_review', 400);
+    }
+    if (outdatedPrompt !== undefined && typeof outdatedPrompt !== 'boolean') {
+      throw new AppError('outdatedPrompt must be a boolean', 400);
+    }
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        throw new AppError(`${name} must be a date`, 400);
+      }
+    }
+
+    let query = supabase
       .from('mailboxes')
-      .update({ last_synced_at: new Date().toISOString() })
-      .eq('id', mailboxId);
+      .select('id, email_address')
+      .eq('user_id', req.userId);
 
-    logger.info('Sync completed', { 
-      mailbox: mailbox.email_address,
-      totalMessages: messageIds.length,
-      processedCount,
-      classifiedCount 
-    });
+    if (mailboxId) {
+      query = query.eq('id', mailboxId);
+    }
 
-    res.json({
+    const { data: mailboxes, error } = await query;
+
+    if (error) {
+      throw new AppError('Failed to fetch mailboxes', 500);
+    }
+
+    if (mailboxId && (!mailboxes || mailboxes.length === 0)) {
+      throw new AppError('Mailbox not found', 404);
+    }
+
+    const filters = { sentiment, status, from, to, outdatedPrompt };
+    const jobs = [];
+
+    for (const mailbox of mailboxes || []) {
+      let job;
+      try {
+        job = await syncJobService.enqueue(req.userId!, mailbox.id, { filters }, 'reclassify');
+      } catch (error) {
+        if (error instanceof JobConflictError) {
+          throw new AppError(`A reclassification with other filters is already in progress for ${mailbox.email_address}; cancel it or wait for it to finish`, 409);
+        }
+        throw error;
+      }
+      jobs.push({
+        id: job.id,
+        mailboxId: mailbox.id,
+        email: mailbox.email_address,
+        status: job.status
+      });
+    }
+
+    return res.status(202).json({
       success: true,
-      totalMessages: messageIds.length,
-      processedCount,
-      classifiedCount,
-      mailbox: mailbox.email_address,
-      messageIds: messageIds.slice(0, 5) // Show first 5 message IDs for debugging
+      jobs
     });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+// Gmail push notification webhook (called by the Pub/Sub push subscription)
+router.post('/push', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const expectedToken = process.env.PUBSUB_VERIFICATION_TOKEN;
+    if (!expectedToken || req.query.token !== expectedToken) {
+      throw new AppError('Invalid push verification token', 401);
+    }
 
+    const data = req.body?.message?.data;
+    if (!data || typeof data !== 'string') {
+      throw new AppError('Invalid Pub/Sub message', 400);
+    }
+
+    let notification: { emailAddress?: string; historyId?: string | number };
+    try {
+      notification = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+    } catch (error) {
+      throw new AppError('Invalid Pub/Sub message data', 400);
+    }
+
+    const { emailAddress, historyId } = notification;
+    if (!emailAddress || !historyId) {
+      throw new AppError('Notification is missing emailAddress or historyId', 400);
+    }
+
+    logger.info('Gmail push notification received', {
+      emailAddress,
+      historyId,
+      pubsubMessageId: req.body.message.messageId
+    });
+
+    const { data: mailboxes, error } = await supabase
+      .from('mailboxes')
+      .select('id, user_id, email_address')
+      .eq('email_address', emailAddress)
+      .eq('status', 'connected');
+
+    if (error) {
+      throw new AppError('Failed to fetch mailboxes', 500);
+    }
+
+    if (!mailboxes || mailboxes.length === 0) {
+      // Acknowledge anyway, otherwise Pub/Sub keeps redelivering
+      logger.warn('Push notification for unknown mailbox', { emailAddress });
+      return res.status(204).send();
+    }
+
+    // Queued rather than run here: Pub/Sub redelivers notifications that
+    // aren't acknowledged within its deadline, and a burst of them for the
+    // same mailbox collapses into the one pending job
+    for (const mailbox of mailboxes) {
+      try {
+        await syncJobService.enqueue(mailbox.user_id, mailbox.id, { maxResults: 10, trigger: 'push' });
+      } catch (enqueueError) {
+        logger.error('Failed to queue push-triggered sync', { email: mailbox.email_address, error: enqueueError });
+      }
+    }
+
+    return res.status(204).send();
   } catch (error) {
-    next(error);
+    return next(error);
+  }
+});
+
+// Renew expiring Gmail watches, queue due scheduled syncs and run queued
+// jobs (called by Vercel Cron, where no background jobs run)
+router.get('/drain', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+      throw new AppError('Invalid cron secret', 401);
+    }
+
+    const budgetMs = parseInt(process.env.SYNC_DRAIN_BUDGET_MS || '45000');
+    const startedAt = Date.now();
+
+    await renewDueGmailWatches();
+    await scheduleDueSyncs();
+    const processed = await drainSyncJobs(budgetMs - (Date.now() - startedAt));
+
+    logger.info('Sync queue drained', { processed, budgetMs });
+
+    return res.json({ processed });
+  } catch (error) {
+    return next(error);
   }
 });
 
-// Sync all mailboxes for the authenticated user
+// Queue a sync job for every connected mailbox of the authenticated user
 router.post('/all', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const maxResults = parseInt(req.body.maxResults || '10');
@@ -262,7 +285,7 @@ router.post('/all', authenticate, async (req: AuthRequest, res: Response, next:
     // Get all user's mailboxes
     const { data: mailboxes, error } = await supabase
       .from('mailboxes')
-      .select('*')
+      .select('id, email_address')
       .eq('user_id', req.userId)
       .eq('status', 'connected');
 
@@ -274,228 +297,25 @@ router.post('/all', authenticate, async (req: AuthRequest, res: Response, next:
       return res.json({
         success: true,
         message: 'No mailboxes to sync',
-        results: []
+        jobs: []
       });
     }
 
-    const results = [];
+    const jobs = [];
 
     for (const mailbox of mailboxes) {
-      try {
-        logger.info('Syncing mailbox', { email: mailbox.email_address });
-
-        logger.info('Calling Gmail API', { 
-          email: mailbox.email_address,
-          query: 'in:inbox',
-          maxResults 
-        });
-
-        const messageIds = await gmailService.listMessages(
-          mailbox.access_token_encrypted,
-          mailbox.refresh_token_encrypted,
-          'in:inbox',
-          maxResults
-        );
-
-        logger.info('Gmail API response', { 
-          email: mailbox.email_address,
-          messageCount: messageIds.length,
-          sampleIds: messageIds.slice(0, 3)
-        });
-
-        let processed = 0;
-        let classified = 0;
-
-        for (const messageId of messageIds) {
-          try {
-            const parsedMessage = await gmailService.fetchMessage(
-              mailbox.access_token_encrypted,
-              mailbox.refresh_token_encrypted,
-              messageId
-            );
-
-            if (!parsedMessage) {
-              logger.error('Failed to parse message', { messageId });
-              continue;
-            }
-
-            logger.info('Message parsed', { 
-              messageId,
-              subject: parsedMessage.subject 
-            });
-
-            const { data: existingMessage } = await supabase
-              .from('messages')
-              .select('id, body_plain, snippet, subject')
-              .eq('gmail_message_id', messageId)
-              .single();
-
-            if (existingMessage) {
-              // Check if message has classification
-              const { data: existingClassification } = await supabase
-                .from('classifications')
-                .select('id')
-                .eq('message_id', existingMessage.id)
-                .single();
-
-              if (existingClassification) {
-                logger.info('Message already exists, skipping', { messageId });
-                continue;
-              }
-
-              // Message exists but no classification - classify it now
-              logger.info('Message exists but not classified, classifying now', { messageId });
-              try {
-                const classification = await geminiService.classifyEmail(
-                  existingMessage.body_plain || existingMessage.snippet,
-                  existingMessage.subject
-                );
-
-                await supabase
-                  .from('classifications')
-                  .insert({
-                    message_id: existingMessage.id,
-                    sentiment: classification.sentiment,
-                    confidence_score: classification.confidence_score,
-                    interest_level: classification.interest_level,
-                    summary: classification.summary,
-                    category: classification.category,
-                    recommended_action: classification.recommended_action
-                  });
-
-                classified++;
-                logger.info('Existing message classified successfully', { messageId });
-              } catch (error) {
-                logger.error('Failed to classify existing message', { messageId, error });
-              }
-              continue;
-            }
-
-            let threadId;
-            const { data: existingThread } = await supabase
-              .from('threads')
-              .select('id')
-              .eq('mailbox_id', mailbox.id)
-              .eq('gmail_thread_id', parsedMessage.threadId)
-              .single();
-
-            if (existingThread) {
-              threadId = existingThread.id;
-            } else {
-              const { data: newThread } = await supabase
-                .from('threads')
-                .insert({
-                  mailbox_id: mailbox.id,
-                  gmail_thread_id: parsedMessage.threadId,
-                  subject: parsedMessage.subject,
-                  lead_email: parsedMessage.from,
-                  last_message_at: parsedMessage.receivedAt
-                })
-                .select()
-                .single();
-
-              threadId = newThread?.id;
-              logger.info('Thread created', { threadId, messageId });
-            }
-
-            if (!threadId) {
-              logger.error('No thread ID, skipping message', { messageId });
-              continue;
-            }
-
-            logger.info('Inserting message into database', { messageId, threadId });
-
-            const { data: insertedMessage, error: insertError } = await supabase
-              .from('messages')
-              .insert({
-                thread_id: threadId,
-                gmail_message_id: messageId,
-                direction: 'inbound',
-                from_address: parsedMessage.from,
-                to_addresses: parsedMessage.to,
-                cc_addresses: parsedMessage.cc,
-                subject: parsedMessage.subject,
-                snippet: parsedMessage.snippet,
-                body_plain: parsedMessage.bodyPlain,
-                body_html: parsedMessage.bodyHtml,
-                received_at: parsedMessage.receivedAt,
-                is_read: parsedMessage.isRead
-              })
-              .select()
-              .single();
-
-            if (insertError || !insertedMessage) {
-              logger.error('Failed to insert message', { 
-                messageId,
-                error: insertError 
-              });
-              continue;
-            }
-
-            logger.info('Message inserted successfully', { 
-              messageId,
-              dbId: insertedMessage.id 
-            });
-
-            processed++;
-
-            try {
-              const geminiService = new GeminiService();
-              const classification = await geminiService.classifyEmail(
-                parsedMessage.bodyPlain || parsedMessage.snippet || '',
-                parsedMessage.subject || ''
-              );
-
-              await supabase
-                .from('classifications')
-                .insert({
-                  message_id: insertedMessage.id,
-                  sentiment: classification.sentiment,
-                  confidence_score: classification.confidence_score,
-                  interest_level: classification.interest_level,
-                  summary: classification.summary,
-                  category: classification.category,
-                  recommended_action: classification.recommended_action,
-                  raw_ai_response: classification
-                });
-
-              classified++;
-            } catch (classifyError) {
-              logger.error('Classification failed', { error: classifyError });
-            }
-
-          } catch (msgError) {
-            logger.error('Message processing failed', { error: msgError });
-          }
-        }
-
-        await supabase
-          .from('mailboxes')
-          .update({ last_synced_at: new Date().toISOString() })
-          .eq('id', mailbox.id);
-
-        results.push({
-          email: mailbox.email_address,
-          totalMessages: messageIds.length,
-          processed,
-          classified
-        });
-
-      } catch (mailboxError) {
-        logger.error('Mailbox sync failed', { 
-          email: mailbox.email_address, 
-          error: mailboxError 
-        });
-        results.push({
-          email: mailbox.email_address,
-          error: 'Sync failed'
-        });
-      }
+      const job = await syncJobService.enqueue(req.userId!, mailbox.id, { maxResults, trigger: 'manual' });
+      jobs.push({
+        id: job.id,
+        mailboxId: mailbox.id,
+        email: mailbox.email_address,
+        status: job.status
+      });
     }
 
-    return res.json({
+    return res.status(202).json({
       success: true,
-      results
+      jobs
     });
 
   } catch (error) {
@@ -503,4 +323,159 @@ router.post('/all', authenticate, async (req: AuthRequest, res: Response, next:
   }
 });
 
+// Stream progress of one or more sync jobs as Server-Sent Events
+router.get('/events', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const jobIds = String(req.query.jobs || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (jobIds.length === 0) {
+      throw new AppError('jobs query parameter is required', 400);
+    }
+
+    let keepAlive: NodeJS.Timeout | undefined;
+    let poll: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    const pending = new Set(jobIds);
+    // Updates arrive from both the event bus and polling, so each is only
+    // sent once
+    const lastSent = new Map<string, string>();
+    const send = (event: SyncJobEvent) => {
+      if (closed) return;
+      const data = JSON.stringify(event);
+      if (lastSent.get(event.jobId) === data) return;
+      lastSent.set(event.jobId, data);
+
+      res.write(`event: job\ndata: ${data}\n\n`);
+      if (TERMINAL_JOB_STATUSES.includes(event.status)) {
+        pending.delete(event.jobId);
+      }
+    };
+
+    // Subscribe before reading the snapshot so no update falls in between
+    const buffered: SyncJobEvent[] = [];
+    let streaming = false;
+    const unsubscribes = jobIds.map(jobId => syncEvents.subscribe(jobId, event => {
+      if (!streaming) {
+        buffered.push(event);
+        return;
+      }
+      send(event);
+      if (pending.size === 0) finish();
+    }));
+
+    const cleanup = () => {
+      closed = true;
+      clearInterval(keepAlive);
+      clearInterval(poll);
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+    // Registered before anything is awaited, so a client gone by then is
+    // still noticed
+    req.on('close', cleanup);
+    const finish = () => {
+      if (closed) return;
+      cleanup();
+      res.write('event: done\ndata: {}\n\n');
+      res.end();
+    };
+
+    const jobs = await syncJobService.getJobs(jobIds, req.userId!);
+    if (jobs.length !== jobIds.length) {
+      cleanup();
+      throw new AppError('Sync job not found', 404);
+    }
+    if (closed) return;
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    jobs.forEach(job => send(syncJobService.toEvent(job)));
+    buffered.forEach(send);
+    streaming = true;
+
+    if (pending.size === 0) {
+      return finish();
+    }
+
+    keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15 * 1000);
+
+    // Events are only published within this process, and the job may be
+    // running on another instance (or a cron-invoked drain), so the stored
+    // progress is read as well
+    let polling = false;
+    poll = setInterval(async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const updated = await syncJobService.getJobs([...pending], req.userId!);
+        if (closed) return;
+        updated.forEach(job => send(syncJobService.toEvent(job)));
+        if (pending.size === 0) finish();
+      } catch (error: any) {
+        // The next tick tries again
+        logger.warn('Failed to poll sync job progress', { jobIds: [...pending], error: error.message });
+      } finally {
+        polling = false;
+      }
+    }, EVENTS_POLL_INTERVAL_MS);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the status of a sync job
+router.get('/jobs/:id', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await syncJobService.getJob(req.params.id, req.userId!);
+
+    if (!job) {
+      throw new AppError('Sync job not found', 404);
+    }
+
+    res.json({
+      id: job.id,
+      mailboxId: job.mailbox_id,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      progress: job.progress,
+      result: job.result,
+      error: job.error_message,
+      createdAt: job.created_at,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Cancel a queued or running sync job
+router.post('/jobs/:id/cancel', authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const job = await syncJobService.cancel(req.params.id, req.userId!);
+
+    if (!job) {
+      const existing = await syncJobService.getJob(req.params.id, req.userId!);
+      if (!existing) {
+        throw new AppError('Sync job not found', 404);
+      }
+      throw new AppError(`Sync job is already ${existing.status}`, 409);
+    }
+
+    res.json({ success: true, id: job.id, status: job.status });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,206 @@
+// Runs the classifier over a labeled JSONL dataset and reports how it
+// did, optionally against an earlier run.
+//
+//   npm run eval -- --dataset data/labeled.jsonl [--provider gemini] [--model gemini-2.5-flash]
+//                   [--taxonomy taxonomy.json] [--out runs/new.json] [--baseline runs/previous.json]
+//                   [--limit 200]
+//
+// --taxonomy takes a file in the GET /settings/taxonomy format; without it
+// the built-in labels are used.
+//
+// Each dataset line needs id, subject, body and the expected sentiment
+// (see src/scripts/exportDataset.ts). The run written with --out can be
+// passed as --baseline to a later run to see what a prompt or model
+// change fixed and what it broke. Set LOG_LEVEL=warn to keep the
+// per-email service logs out of the report.
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { geminiService, InvalidClassificationError } from '../services/gemini.service';
+import { getProvider, isProviderName, ProviderName } from '../services/providers';
+import { DEFAULT_TAXONOMY, Taxonomy, validateTaxonomy } from '../services/classificationSchema';
+import { CURRENT_PROMPT_VERSION } from '../prompts';
+import {
+  computeMetrics,
+  diffRuns,
+  DatasetRow,
+  EvaluationDiff,
+  EvaluationItem,
+  EvaluationMetrics,
+  NO_PREDICTION
+} from '../utils/evaluationMetrics';
+
+interface EvaluationRun {
+  createdAt: string;
+  dataset: string;
+  provider: ProviderName;
+  model: string;
+  promptVersion: string;
+  items: EvaluationItem[];
+  metrics: EvaluationMetrics;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
+const readDataset = (file: string): DatasetRow[] =>
+  fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const row = JSON.parse(line);
+      if (!row.id || typeof row.body !== 'string' || !row.sentiment) {
+        throw new Error(`Line ${index + 1} needs id, body and sentiment`);
+      }
+      return row;
+    });
+
+const readTaxonomy = (file: string): Taxonomy => {
+  const { value, errors } = validateTaxonomy(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!value) {
+    throw new Error(`Invalid taxonomy: ${errors.join('; ')}`);
+  }
+  return value;
+};
+
+const classifyRow = async (
+  row: DatasetRow,
+  provider: ProviderName,
+  model: string,
+  taxonomy: Taxonomy
+): Promise<EvaluationItem> => {
+  try {
+    const { classification: result } = await geminiService.classifyEmail(row.body, row.subject || '', [], {
+      provider,
+      model,
+      taxonomy
+    });
+    return {
+      id: row.id,
+      expected: row.sentiment,
+      predicted: result.sentiment,
+      confidence: typeof result.confidence_score === 'number' ? result.confidence_score : null
+    };
+  } catch (error: any) {
+    const reason = error instanceof InvalidClassificationError ? error.errors.join('; ') : error.message;
+    console.error(`  ${row.id}: ${reason}`);
+    return { id: row.id, expected: row.sentiment, predicted: NO_PREDICTION, confidence: null };
+  }
+};
+
+const printReport = (run: EvaluationRun) => {
+  const { metrics } = run;
+
+  console.log(`\n${run.provider} / ${run.model} (prompt ${run.promptVersion}) on ${run.dataset}`);
+  console.log(`Accuracy: ${percent(metrics.accuracy)} (${metrics.correct}/${metrics.total}), errors: ${metrics.errors}`);
+
+  console.log('\nPer sentiment:');
+  console.table(Object.fromEntries(Object.entries(metrics.perLabel).map(([label, m]) => [label, {
+    precision: percent(m.precision),
+    recall: percent(m.recall),
+    f1: percent(m.f1),
+    support: m.support
+  }])));
+
+  console.log('Confusion matrix (rows: expected, columns: predicted):');
+  console.table(metrics.confusion);
+
+  console.log(`Calibration of confidence_score (ECE ${percent(metrics.ece)}):`);
+  console.table(metrics.calibration.map(bin => ({
+    confidence: `${bin.from.toFixed(1)}-${bin.to.toFixed(1)}`,
+    count: bin.count,
+    avgConfidence: percent(bin.avgConfidence),
+    accuracy: percent(bin.accuracy)
+  })));
+};
+
+const printDiff = (diff: EvaluationDiff, baselineFile: string) => {
+  console.log(`\nCompared with ${baselineFile}:`);
+  console.log(`Accuracy: ${signed(diff.accuracy)} pts, ECE: ${signed(diff.ece)} pts`);
+  console.log(`Fixed: ${diff.fixed.length}, regressed: ${diff.regressed.length}, changed: ${diff.changed.length}`);
+
+  console.table(Object.fromEntries(Object.entries(diff.perLabel).map(([label, d]) => [label, {
+    precision: signed(d.precision),
+    recall: signed(d.recall),
+    f1: signed(d.f1)
+  }])));
+
+  if (diff.regressed.length > 0) {
+    const regressed = new Set(diff.regressed);
+    console.log('Regressions:');
+    console.table(diff.changed.filter(change => regressed.has(change.id)));
+  }
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      taxonomy: { type: 'string' },
+      limit: { type: 'string' }
+    }
+  });
+
+  if (!values.dataset) {
+    throw new Error('--dataset <file.jsonl> is required');
+  }
+  if (values.provider && !isProviderName(values.provider)) {
+    throw new Error(`Unknown provider: ${values.provider}`);
+  }
+
+  const provider = getProvider(values.provider as ProviderName | undefined);
+  if (!provider.isConfigured()) {
+    throw new Error(`AI provider ${provider.name} is not configured`);
+  }
+  const model = values.model || provider.defaultModel;
+  const taxonomy = values.taxonomy ? readTaxonomy(values.taxonomy) : DEFAULT_TAXONOMY;
+
+  let rows = readDataset(values.dataset);
+  if (values.limit) {
+    rows = rows.slice(0, parseInt(values.limit));
+  }
+
+  console.log(`Classifying ${rows.length} emails with ${provider.name} / ${model}...`);
+
+  const items: EvaluationItem[] = [];
+  for (const row of rows) {
+    items.push(await classifyRow(row, provider.name, model, taxonomy));
+    if (items.length % 25 === 0) {
+      console.log(`  ${items.length}/${rows.length}`);
+    }
+  }
+
+  const run: EvaluationRun = {
+    createdAt: new Date().toISOString(),
+    dataset: values.dataset,
+    provider: provider.name,
+    model,
+    promptVersion: CURRENT_PROMPT_VERSION,
+    items,
+    metrics: computeMetrics(items, taxonomy.sentiments.map(sentiment => sentiment.key))
+  };
+
+  printReport(run);
+
+  if (values.baseline) {
+    const baseline: EvaluationRun = JSON.parse(fs.readFileSync(values.baseline, 'utf8'));
+    printDiff(diffRuns(baseline, run), values.baseline);
+  }
+
+  if (values.out) {
+    fs.mkdirSync(path.dirname(path.resolve(values.out)), { recursive: true });
+    fs.writeFileSync(values.out, JSON.stringify(run, null, 2));
+    console.log(`\nRun saved to ${values.out}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+// Exports human-reviewed classifications as a labeled JSONL dataset for
+// the evaluation harness (src/scripts/evaluate.ts).
+//
+//   npm run eval:export -- --out data/labeled.jsonl [--user <userId>] [--limit 1000]
+//
+// A row counts as reviewed once someone set its labels by hand.
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { supabase } from '../config/supabase';
+import { parseReply } from '../utils/replyParser';
+import { DatasetRow } from '../utils/evaluationMetrics';
+
+const PAGE_SIZE = 500;
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string' },
+      user: { type: 'string' },
+      limit: { type: 'string' }
+    }
+  });
+
+  if (!values.out) {
+    throw new Error('--out <file.jsonl> is required');
+  }
+
+  const limit = values.limit ? parseInt(values.limit) : Infinity;
+  if (Number.isNaN(limit) || limit <= 0) {
+    throw new Error('--limit must be a positive number');
+  }
+
+  const rows: DatasetRow[] = [];
+  let lastId: string | null = null;
+
+  while (rows.length < limit) {
+    let query = supabase
+      .from('classifications')
+      .select(`
+        id,
+        sentiment,
+        interest_level,
+        category,
+        message:messages!inner(
+          subject,
+          snippet,
+          body_plain,
+          body_new_content,
+          thread:threads!inner(mailbox:mailboxes!inner(user_id))
+        )
+      `)
+      .not('overridden_at', 'is', null)
+      .order('id', { ascending: true })
+      .limit(Math.min(PAGE_SIZE, limit - rows.length));
+
+    if (values.user) query = query.eq('message.thread.mailbox.user_id', values.user);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load classifications: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      const message: any = row.message;
+      const body = message.body_new_content || parseReply(message.body_plain || '').newContent || message.snippet || '';
+      if (!body.trim()) continue;
+
+      rows.push({
+        id: row.id,
+        subject: message.subject || '',
+        body,
+        sentiment: row.sentiment,
+        interest_level: row.interest_level,
+        category: row.category
+      });
+    }
+
+    lastId = data[data.length - 1].id;
+  }
+
+  fs.mkdirSync(path.dirname(path.resolve(values.out)), { recursive: true });
+  fs.writeFileSync(values.out, rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : ''));
+
+  console.log(`Exported ${rows.length} reviewed classifications to ${values.out}`);
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,257 @@
+import { EmailMessage, GmailNotFoundError, gmailService } from '../gmail.service';
+import { classificationService } from '../classification.service';
+import { ingestionService } from '../ingestion.service';
+
+type Row = Record<string, any>;
+
+// Just enough of the supabase query builder for IngestionService, over
+// in-memory tables. Selects return whole rows.
+const mockTables: Record<string, Row[]> = {};
+let mockNextId = 1;
+
+class MockQuery {
+  private action: 'select' | 'insert' | 'upsert' | 'update' = 'select';
+  private values: Row = {};
+  private conflictColumns: string[] = [];
+  private filters: Array<(row: Row) => boolean> = [];
+  private sort: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private expect: 'single' | 'maybeSingle' | null = null;
+
+  constructor(private table: string) {}
+
+  select() { return this; }
+  insert(values: Row) { this.action = 'insert'; this.values = values; return this; }
+  upsert(values: Row, { onConflict }: { onConflict: string }) {
+    this.action = 'upsert';
+    this.values = values;
+    this.conflictColumns = onConflict.split(',');
+    return this;
+  }
+  update(values: Row) { this.action = 'update'; this.values = values; return this; }
+  eq(column: string, value: unknown) { return this.where(row => row[column] === value); }
+  neq(column: string, value: unknown) { return this.where(row => row[column] !== value); }
+  in(column: string, values: unknown[]) { return this.where(row => values.includes(row[column])); }
+  is(column: string, value: null) { return this.where(row => (row[column] ?? null) === value); }
+  lt(column: string, value: string) { return this.where(row => new Date(row[column]) < new Date(value)); }
+  order(column: string, { ascending }: { ascending: boolean }) { this.sort = { column, ascending }; return this; }
+  limit(count: number) { this.max = count; return this; }
+  single() { this.expect = 'single'; return this; }
+  maybeSingle() { this.expect = 'maybeSingle'; return this; }
+
+  then<T>(resolve: (result: { data: any; error: any }) => T, reject?: (error: unknown) => T) {
+    return Promise.resolve(this.run()).then(resolve, reject);
+  }
+
+  private where(filter: (row: Row) => boolean) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): { data: any; error: any } {
+    const rows = (mockTables[this.table] ||= []);
+
+    if (this.action === 'insert' || this.action === 'upsert') {
+      const columns = this.action === 'upsert' ? this.conflictColumns : this.table === 'messages' ? ['gmail_message_id'] : [];
+      const existing = columns.length > 0
+        ? rows.find(row => columns.every(column => row[column] === this.values[column]))
+        : undefined;
+
+      if (existing && this.action === 'insert') {
+        return { data: null, error: { code: '23505', message: 'duplicate key value' } };
+      }
+      if (existing) {
+        Object.assign(existing, this.values);
+        return this.result([existing]);
+      }
+
+      const row = { id: `${this.table}-${mockNextId++}`, ...this.values };
+      rows.push(row);
+      return this.result([row]);
+    }
+
+    let matches = rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.action === 'update') {
+      matches.forEach(row => Object.assign(row, this.values));
+    }
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      matches = [...matches].sort((a, b) => (new Date(a[column]).getTime() - new Date(b[column]).getTime()) * (ascending ? 1 : -1));
+    }
+    if (this.max !== null) {
+      matches = matches.slice(0, this.max);
+    }
+    return this.result(matches);
+  }
+
+  private result(rows: Row[]): { data: any; error: any } {
+    if (!this.expect) return { data: rows.map(row => ({ ...row })), error: null };
+    if (rows.length === 0 && this.expect === 'single') return { data: null, error: { code: 'PGRST116' } };
+    return { data: rows[0] ? { ...rows[0] } : null, error: null };
+  }
+}
+
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: (table: string) => new MockQuery(table) }
+}));
+jest.mock('../gmail.service', () => ({
+  GmailNotFoundError: class GmailNotFoundError extends Error {},
+  gmailService: { fetchMessage: jest.fn(), fetchThread: jest.fn() }
+}));
+jest.mock('../classification.service', () => ({
+  classificationService: { classifyMessage: jest.fn(), classifyBatch: jest.fn(), classifyBounce: jest.fn() }
+}));
+jest.mock('../syncJob.service', () => ({
+  syncJobService: { enqueue: jest.fn() }
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const fetchMessage = gmailService.fetchMessage as jest.Mock;
+const fetchThread = gmailService.fetchThread as jest.Mock;
+const classifyMessage = classificationService.classifyMessage as jest.Mock;
+
+const mailbox = {
+  id: 'mailbox-1',
+  user_id: 'user-1',
+  access_token_encrypted: 'access',
+  refresh_token_encrypted: 'refresh'
+};
+
+const CLASSIFICATION = { sentiment: 'interested', confidence_score: 0.9 };
+
+const sentEmail: EmailMessage = {
+  id: 'gmail-sent',
+  threadId: 'gmail-thread',
+  from: 'me@ourco.com',
+  to: ['jane@acme.com'],
+  cc: [],
+  subject: 'Quick question',
+  snippet: 'Would you be open to a call?',
+  bodyPlain: 'Would you be open to a call?',
+  bodyHtml: '',
+  receivedAt: new Date('2025-10-20T09:00:00Z'),
+  isRead: true,
+  labelIds: ['SENT'],
+  rfcMessageId: '<sent@ourco.com>',
+  inReplyTo: null,
+  references: [],
+  mimeType: 'text/plain',
+  deliveryStatus: null,
+  headers: {}
+};
+
+const replyEmail: EmailMessage = {
+  ...sentEmail,
+  id: 'gmail-reply',
+  from: 'Jane Doe <jane@acme.com>',
+  to: ['me@ourco.com'],
+  subject: 'Re: Quick question',
+  snippet: 'Sure, Tuesday works.',
+  bodyPlain: 'Sure, Tuesday works.\n\nOn Mon, Oct 20, 2025 at 9:00 AM <me@ourco.com> wrote:\n> Would you be open to a call?',
+  receivedAt: new Date('2025-10-20T10:00:00Z'),
+  isRead: false,
+  labelIds: ['INBOX'],
+  rfcMessageId: '<reply@acme.com>',
+  inReplyTo: '<sent@ourco.com>',
+  references: ['<sent@ourco.com>']
+};
+
+const messages = () => mockTables.messages || [];
+
+beforeEach(() => {
+  for (const table of Object.keys(mockTables)) delete mockTables[table];
+  jest.clearAllMocks();
+
+  fetchMessage.mockResolvedValue(replyEmail);
+  fetchThread.mockResolvedValue([sentEmail, replyEmail]);
+  // Saving the classification is what makes a message count as classified
+  classifyMessage.mockImplementation(async (_userId: string, target: { messageId: string }) => {
+    messages().find(message => message.id === target.messageId)!.classifications = [{ id: 'classification-1' }];
+    return { status: 'classified', classification: CLASSIFICATION, cache: 'miss' };
+  });
+});
+
+describe('IngestionService', () => {
+  it('stores a reply with its quoted history split off and classifies it', async () => {
+    const outcome = await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+
+    expect(outcome).toMatchObject({ status: 'stored', gmailMessageId: 'gmail-reply', classification: CLASSIFICATION, cache: 'miss' });
+
+    const reply = messages().find(message => message.gmail_message_id === 'gmail-reply');
+    expect(reply).toMatchObject({
+      direction: 'inbound',
+      body_plain: replyEmail.bodyPlain,
+      body_new_content: 'Sure, Tuesday works.'
+    });
+    expect(classifyMessage).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      messageId: reply!.id,
+      body: 'Sure, Tuesday works.',
+      subject: 'Re: Quick question'
+    }));
+  });
+
+  it('skips a message it has already stored and classified, without fetching it again', async () => {
+    await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+    const again = await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+
+    expect(again).toEqual({ status: 'skipped', gmailMessageId: 'gmail-reply', messageId: expect.any(String) });
+    expect(fetchMessage).toHaveBeenCalledTimes(1);
+    expect(classifyMessage).toHaveBeenCalledTimes(1);
+    expect(messages().filter(message => message.gmail_message_id === 'gmail-reply')).toHaveLength(1);
+  });
+
+  it('stores the email the reply answers when the thread has no outbound message yet', async () => {
+    await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+
+    const sent = messages().find(message => message.gmail_message_id === 'gmail-sent');
+    const reply = messages().find(message => message.gmail_message_id === 'gmail-reply');
+    expect(sent).toMatchObject({ direction: 'outbound', thread_id: reply!.thread_id });
+    expect(reply!.replied_to_message_id).toBe(sent!.id);
+    expect(mockTables.threads).toEqual([expect.objectContaining({ gmail_thread_id: 'gmail-thread', current_stage: 'contacted' })]);
+  });
+
+  it('links the reply to an outbound message stored earlier without fetching the thread', async () => {
+    mockTables.threads = [{ id: 'thread-1', mailbox_id: 'mailbox-1', gmail_thread_id: 'gmail-thread', last_message_at: sentEmail.receivedAt }];
+    mockTables.messages = [{
+      id: 'message-sent',
+      thread_id: 'thread-1',
+      gmail_message_id: 'gmail-sent',
+      rfc_message_id: '<sent@ourco.com>',
+      direction: 'outbound',
+      received_at: sentEmail.receivedAt
+    }];
+
+    await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+
+    expect(fetchThread).not.toHaveBeenCalled();
+    expect(messages().filter(message => message.direction === 'outbound')).toHaveLength(1);
+    expect(messages().find(message => message.gmail_message_id === 'gmail-reply')).toMatchObject({
+      thread_id: 'thread-1',
+      replied_to_message_id: 'message-sent'
+    });
+  });
+
+  it('stores a reply with no link when nothing was sent in the thread', async () => {
+    fetchThread.mockResolvedValue([replyEmail]);
+
+    const outcome = await ingestionService.ingestMessage(mailbox, 'gmail-reply');
+
+    expect(outcome.status).toBe('stored');
+    expect(messages()).toEqual([expect.objectContaining({ gmail_message_id: 'gmail-reply', replied_to_message_id: null })]);
+  });
+
+  it('fails at the fetch stage when Gmail returns nothing', async () => {
+    fetchMessage.mockResolvedValue(null);
+
+    expect(await ingestionService.ingestMessage(mailbox, 'gmail-reply')).toMatchObject({ status: 'failed', stage: 'fetch' });
+    expect(messages()).toEqual([]);
+  });
+
+  it('reports a message deleted from Gmail as missing rather than failed', async () => {
+    fetchMessage.mockRejectedValue(new GmailNotFoundError('gmail-reply'));
+
+    expect(await ingestionService.ingestMessage(mailbox, 'gmail-reply')).toEqual({ status: 'missing', gmailMessageId: 'gmail-reply' });
+  });
+});
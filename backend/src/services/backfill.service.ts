@@ -0,0 +1,146 @@
+import { gmailService } from './gmail.service';
+import { ingestionService } from './ingestion.service';
+import { classificationBatchSize } from './classification.service';
+import { SyncProgress, SYNCED_MAIL_QUERY, emptyProgress, applyOutcome } from './sync.service';
+import { logger } from '../utils/logger';
+
+export interface BackfillRange {
+  after: string;
+  before?: string | null;
+}
+
+/**
+ * Where a backfill has got to. `pageToken` is the next page to read; null
+ * with `done` false means the first page. `progress` holds the counts as of
+ * the end of the last finished page.
+ */
+export interface BackfillCheckpoint {
+  pageToken: string | null;
+  pages: number;
+  done: boolean;
+  progress: SyncProgress;
+}
+
+export interface BackfillOptions {
+  checkpoint?: BackfillCheckpoint | null;
+  onProgress?: (progress: SyncProgress) => void;
+  onCheckpoint?: (checkpoint: BackfillCheckpoint) => Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface BackfillResult {
+  pages: number;
+  progress: SyncProgress;
+  cancelled: boolean;
+}
+
+const PAGE_SIZE = 100;
+
+export class BackfillService {
+  /**
+   * Builds the Gmail search query for a date range, covering the inbox and
+   * sent mail. Dates are YYYY-MM-DD; `before` is exclusive, as in Gmail
+   * search.
+   */
+  buildQuery({ after, before }: BackfillRange): string {
+    const parts = [SYNCED_MAIL_QUERY, `after:${after.replace(/-/g, '/')}`];
+    if (before) {
+      parts.push(`before:${before.replace(/-/g, '/')}`);
+    }
+    return parts.join(' ');
+  }
+
+  /**
+   * Gmail's own estimate of how many messages the range holds. It is rough,
+   * but good enough to tell the user what they are about to import.
+   */
+  async estimate(mailbox: any, range: BackfillRange): Promise<number> {
+    const page = await gmailService.listMessagePage(
+      mailbox.access_token_encrypted,
+      mailbox.refresh_token_encrypted,
+      this.buildQuery(range),
+      undefined,
+      PAGE_SIZE
+    );
+
+    // When the whole range fits on one page the exact count is known
+    return page.nextPageToken ? page.resultSizeEstimate : page.messageIds.length;
+  }
+
+  /**
+   * Walks every page of the range and ingests each message. Messages are
+   * taken a batch at a time (classificationBatchSize), so their replies are
+   * classified in batch requests. A checkpoint is saved after each page,
+   * so an interrupted backfill resumes from the page it was on. Messages
+   * that are already stored are skipped cheaply, which makes re-reading a
+   * partly processed page safe.
+   *
+   * Unlike a regular sync this does not take the mailbox sync lock or move
+   * the mailbox history ID, so both can run side by side. A message they
+   * both get to is stored and classified once; the other skips it.
+   */
+  async run(mailbox: any, range: BackfillRange, options: BackfillOptions = {}): Promise<BackfillResult> {
+    const { onProgress, onCheckpoint, signal } = options;
+    const query = this.buildQuery(range);
+    const checkpoint: BackfillCheckpoint = options.checkpoint
+      ? { ...options.checkpoint }
+      : { pageToken: null, pages: 0, done: false, progress: emptyProgress() };
+    // Counts restart from the checkpoint, so a page that is read twice is
+    // only counted once. Checkpoints saved before a count existed start it
+    // at zero.
+    const progress: SyncProgress = { ...emptyProgress(), ...checkpoint.progress };
+
+    if (checkpoint.pages > 0) {
+      logger.info('Resuming backfill from checkpoint', {
+        mailbox: mailbox.email_address,
+        pages: checkpoint.pages
+      });
+    }
+
+    while (!checkpoint.done) {
+      if (signal?.aborted) {
+        return { pages: checkpoint.pages, progress, cancelled: true };
+      }
+
+      const page = await gmailService.listMessagePage(
+        mailbox.access_token_encrypted,
+        mailbox.refresh_token_encrypted,
+        query,
+        checkpoint.pageToken || undefined,
+        PAGE_SIZE
+      );
+
+      progress.listed += page.messageIds.length;
+      onProgress?.({ ...progress });
+
+      const batchSize = classificationBatchSize();
+      for (let start = 0; start < page.messageIds.length; start += batchSize) {
+        if (signal?.aborted) {
+          // The checkpoint still points at this page, so a resumed run
+          // reads it again and skips what was already stored
+          return { pages: checkpoint.pages, progress, cancelled: true };
+        }
+
+        const outcomes = await ingestionService.ingestMany(mailbox, page.messageIds.slice(start, start + batchSize));
+        outcomes.forEach(outcome => applyOutcome(progress, outcome));
+        onProgress?.({ ...progress });
+      }
+
+      checkpoint.pages++;
+      checkpoint.pageToken = page.nextPageToken;
+      checkpoint.done = !page.nextPageToken;
+      checkpoint.progress = { ...progress };
+      await onCheckpoint?.({ ...checkpoint });
+
+      logger.info('Backfill page processed', {
+        mailbox: mailbox.email_address,
+        page: checkpoint.pages,
+        messages: page.messageIds.length
+      });
+    }
+
+    return { pages: checkpoint.pages, progress, cancelled: false };
+  }
+}
+
+export const backfillService = new BackfillService();
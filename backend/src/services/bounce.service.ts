@@ -0,0 +1,127 @@
+import { supabase } from '../config/supabase';
+import { Bounce, BounceType } from '../utils/bounceParser';
+import { logger } from '../utils/logger';
+
+export interface BounceFilters {
+  type?: BounceType;
+  mailboxId?: string;
+}
+
+/**
+ * One line of the bounce list: an address with its latest bounce.
+ */
+export interface BouncedAddress {
+  recipient: string;
+  type: BounceType;
+  status: string | null;
+  diagnostic: string | null;
+  bounce_count: number;
+  last_bounced_at: string;
+}
+
+const EXPORT_LIMIT = 10000;
+
+export class BounceService {
+  /**
+   * Saves the failed recipients of a delivery report. Seeing the same
+   * report again updates its rows instead of adding new ones.
+   */
+  async record(mailbox: any, messageId: string, bounces: Bounce[], bouncedAt: Date | string): Promise<void> {
+    if (bounces.length === 0) return;
+
+    const { error } = await supabase
+      .from('bounces')
+      .upsert(bounces.map(bounce => ({
+        user_id: mailbox.user_id,
+        mailbox_id: mailbox.id,
+        message_id: messageId,
+        recipient: bounce.recipient,
+        type: bounce.type,
+        status: bounce.status,
+        smtp_code: bounce.smtpCode,
+        diagnostic: bounce.diagnostic,
+        action: bounce.action,
+        bounced_at: new Date(bouncedAt).toISOString()
+      })), {
+        onConflict: 'message_id,recipient'
+      });
+
+    if (error) {
+      logger.error('Failed to record bounces', { messageId, error });
+      return;
+    }
+
+    logger.info('Bounces recorded', {
+      messageId,
+      hard: bounces.filter(bounce => bounce.type === 'hard').length,
+      soft: bounces.filter(bounce => bounce.type === 'soft').length
+    });
+  }
+
+  async list(userId: string, filters: BounceFilters, page: number, pageSize: number): Promise<{ data: any[]; total: number }> {
+    let query = supabase
+      .from('bounces')
+      .select('*, mailbox:mailboxes(email_address)', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.mailboxId) query = query.eq('mailbox_id', filters.mailboxId);
+
+    const offset = (page - 1) * pageSize;
+    const { data, error, count } = await query
+      .order('bounced_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      logger.error('Failed to load bounces', { userId, error });
+      throw new Error('Failed to load bounces');
+    }
+
+    return { data: data || [], total: count || 0 };
+  }
+
+  /**
+   * Every bounced address once, with its most recent bounce, for loading
+   * into a suppression list. Addresses that only ever bounced soft are
+   * left out unless asked for.
+   */
+  async addresses(userId: string, filters: BounceFilters): Promise<BouncedAddress[]> {
+    let query = supabase
+      .from('bounces')
+      .select('recipient, type, status, diagnostic, bounced_at')
+      .eq('user_id', userId);
+
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.mailboxId) query = query.eq('mailbox_id', filters.mailboxId);
+
+    const { data, error } = await query
+      .order('bounced_at', { ascending: false })
+      .limit(EXPORT_LIMIT);
+
+    if (error) {
+      logger.error('Failed to load bounced addresses', { userId, error });
+      throw new Error('Failed to load bounced addresses');
+    }
+
+    const byRecipient = new Map<string, BouncedAddress>();
+    for (const row of data || []) {
+      const existing = byRecipient.get(row.recipient);
+      if (existing) {
+        existing.bounce_count++;
+        continue;
+      }
+      byRecipient.set(row.recipient, {
+        recipient: row.recipient,
+        type: row.type,
+        status: row.status,
+        diagnostic: row.diagnostic,
+        bounce_count: 1,
+        last_bounced_at: row.bounced_at
+      });
+    }
+
+    return Array.from(byRecipient.values());
+  }
+}
+
+export const bounceService = new BounceService();
@@ -0,0 +1,1007 @@
+import { supabase } from '../config/supabase';
+import {
+  geminiService,
+  ClassificationProvenance,
+  ClassificationResult,
+  ClassifyResponse,
+  InvalidClassificationError,
+  ThreadContextMessage
+} from './gemini.service';
+import { ModelUnavailableError } from './classificationExecutor.service';
+import { getProvider, ProviderName } from './providers';
+import { fewShotService } from './fewShot.service';
+import { taxonomyService } from './taxonomy.service';
+import { entityService } from './entity.service';
+import { followUpService } from './followUp.service';
+import { bounceService } from './bounce.service';
+import { spamRuleService } from './spamRule.service';
+import { CacheKey, CacheLookup, CachedClassification, classificationCacheService } from './classificationCache.service';
+import { FALLBACK_CATEGORY, ReplyStage, Taxonomy } from './classificationSchema';
+import { CURRENT_BATCH_PROMPT_VERSION, CURRENT_PROMPT_VERSION } from '../prompts';
+import type { SyncProgress } from './sync.service';
+import { logger } from '../utils/logger';
+import { parseReply } from '../utils/replyParser';
+import { parseReturnDate } from '../utils/oooParser';
+import { Bounce, BOUNCE_PARSER_VERSION } from '../utils/bounceParser';
+import { evaluateSpamRules, SpamRule, SpamVerdict, SPAM_RULES_VERSION } from '../utils/spamRules';
+import { AutomatedReply, AUTO_REPLY_RULES_VERSION, detectAutomatedReply } from '../utils/autoReplyDetector';
+import { ExtractedEntity, extractPatternEntities, mergeEntities, timeZoneOffset } from '../utils/entityExtractor';
+
+/**
+ * Where a conversation stands, rolled up from its latest human reply.
+ * Each taxonomy sentiment names the stage it moves the thread to;
+ * automated replies (auto responders, out of office, spam) never move it.
+ */
+export type ThreadStage = 'contacted' | ReplyStage;
+
+// Earlier thread messages sent along with a reply are cut to roughly this
+// many tokens, newest first
+const DEFAULT_THREAD_CONTEXT_MAX_TOKENS = 1500;
+const CHARS_PER_TOKEN = 4;
+const THREAD_CONTEXT_MAX_MESSAGES = 20;
+
+const RECLASSIFY_PAGE_SIZE = 50;
+
+const DEFAULT_BATCH_SIZE = 10;
+// Longer replies are classified on their own, so one long email doesn't
+// crowd out the rest of its batch
+const MAX_BATCHED_BODY_CHARS = 2000;
+// Batched replies carry a shorter view of their thread: the last few
+// messages, each cut to a line or two
+const BATCH_CONTEXT_MAX_MESSAGES = 3;
+const BATCH_CONTEXT_MAX_CHARS = 300;
+
+/**
+ * How many replies go into one batch request (CLASSIFICATION_BATCH_SIZE;
+ * 1 turns batching off).
+ */
+export const classificationBatchSize = (): number =>
+  Math.max(1, parseInt(process.env.CLASSIFICATION_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE);
+
+/**
+ * What's known about a reply before the model is asked: whether the spam
+ * or auto-reply rules label it, and whether an identical reply's answer
+ * is cached.
+ */
+interface Screening {
+  spam: SpamVerdict;
+  automated: AutomatedReply | null;
+  cacheKey: CacheKey | null;
+  cached: CachedClassification | null;
+  cache?: CacheLookup;
+}
+
+/**
+ * The model step of a reply classified as part of a batch: the batch's
+ * answer, or none when the batch left it out (it's then asked on its
+ * own), or retryAfterMs when the provider was unavailable.
+ */
+interface BatchStep {
+  settings: ClassificationSettings;
+  screening: Screening | null;
+  answer: ClassifyResponse | null;
+  retryAfterMs: number | null;
+}
+
+interface ClassificationSettings {
+  threadContextEnabled: boolean;
+  provider: ProviderName | null;
+  model: string | null;
+  timeZone: string;
+  taxonomy: Taxonomy;
+  spamRules: SpamRule[];
+  spamThreshold: number;
+}
+
+export interface ClassifyTarget {
+  messageId: string;
+  threadId: string;
+  receivedAt: Date | string;
+  body: string;
+  subject: string;
+  // Searched for contact details, not classified
+  signature?: string | null;
+  fromAddress?: string | null;
+  // Lower-cased header names, for spam rules; null for older messages
+  headers?: Record<string, string> | null;
+}
+
+/**
+ * Result of classifying one message:
+ * - classified: saved with a valid AI answer
+ * - needs_review: the AI answer failed validation, saved for manual review
+ * - overridden: a person set the labels by hand, left untouched
+ * - bounce: a delivery report, labelled without the model and left untouched
+ * - deferred: the AI provider is rate limiting or down, nothing was
+ *   written; worth trying again after retryAfterMs
+ * - failed: the AI call or the save failed, nothing was written
+ *
+ * `cache` says whether the answer of an earlier identical reply was
+ * reused; it's left out when the cache wasn't looked at.
+ */
+export type ClassifyOutcome = (
+  | { status: 'classified'; classification: ClassificationResult }
+  | { status: 'needs_review' }
+  | { status: 'overridden' }
+  | { status: 'bounce' }
+  | { status: 'deferred'; retryAfterMs: number }
+  | { status: 'failed'; error: string }
+) & { cache?: CacheLookup };
+
+export interface ReclassifyFilters {
+  sentiment?: string;
+  status?: 'classified' | 'needs_review';
+  from?: string;
+  to?: string;
+  // Only rows not produced by the current prompt (or its batch version):
+  // older prompt versions, the spam and auto-reply rules and rows from
+  // before provenance was recorded. Cached answers carry the prompt version
+  // they came from.
+  outdatedPrompt?: boolean;
+}
+
+export interface ReclassifyOptions {
+  onProgress?: (progress: SyncProgress) => void;
+  signal?: AbortSignal;
+  // Where a run that was deferred stopped
+  resume?: ClassificationCheckpoint | null;
+}
+
+export interface ClassificationCheckpoint {
+  lastId: string | null;
+  progress: SyncProgress;
+}
+
+/**
+ * How a run over many messages ended. `deferred` is set when it stopped
+ * because the AI provider was unavailable; it should be resumed from the
+ * checkpoint after retryAfterMs. A run stopped through its signal is
+ * `cancelled`, with the checkpoint it would resume from.
+ */
+export interface ClassificationRun {
+  progress: SyncProgress;
+  cancelled: boolean;
+  deferred: { retryAfterMs: number; checkpoint: ClassificationCheckpoint } | null;
+  stoppedAt?: ClassificationCheckpoint;
+}
+
+export interface ClassificationOverride {
+  sentiment: ClassificationResult['sentiment'];
+  interest_level: ClassificationResult['interest_level'];
+  category: string;
+}
+
+const MESSAGE_FIELDS = 'id, thread_id, from_address, received_at, subject, snippet, body_plain, body_new_content, body_signature, headers';
+
+export class ClassificationService {
+  /**
+   * Classifies a stored message and saves the result. With `replace` an
+   * existing classification is overwritten, unless a person overrode it.
+   * Replies the user's spam rules catch, and auto-replies recognizable
+   * from their headers, never reach the model. Neither do exact
+   * duplicates of a reply the model already answered, unless `replace`
+   * asks for a fresh answer. An answer the model could not get right is
+   * saved as needs_review, so it isn't retried on every sync.
+   */
+  async classifyMessage(
+    userId: string,
+    target: ClassifyTarget,
+    { replace = false }: { replace?: boolean } = {}
+  ): Promise<ClassifyOutcome> {
+    const { messageId } = target;
+
+    if (replace) {
+      const existing = await this.loadExisting(messageId);
+      if (existing?.overridden_at) return { status: 'overridden' };
+      if (existing?.source === 'bounce') return { status: 'bounce' };
+    }
+
+    return this.classifyScreened(userId, target, replace, null);
+  }
+
+  /**
+   * Classifies new replies together: each goes through the spam,
+   * auto-reply and cache checks as in classifyMessage, and the ones left
+   * for the model are sent in batches of classificationBatchSize(). A
+   * reply the batch answer leaves out or gets wrong is classified on its
+   * own. Outcomes are in the order of `targets`.
+   */
+  async classifyBatch(userId: string, targets: ClassifyTarget[]): Promise<ClassifyOutcome[]> {
+    let settings: ClassificationSettings;
+    try {
+      settings = await this.loadClassificationSettings(userId);
+    } catch (error: any) {
+      logger.error('Failed to load classification settings', { userId, error: error.message });
+      return targets.map(() => ({ status: 'failed', error: 'Failed to load classification settings' }));
+    }
+
+    const screenings: Array<Screening | null> = [];
+    for (const target of targets) {
+      try {
+        screenings.push(await this.screen(userId, target, settings, false));
+      } catch {
+        // Screened again, and the error recorded, when it's classified
+        screenings.push(null);
+      }
+    }
+
+    // The offline provider reads one email at a time
+    let batchable: ClassifyTarget[] = [];
+    if (getProvider(settings.provider).name !== 'offline') {
+      for (const [index, target] of targets.entries()) {
+        const screening = screenings[index];
+        if (!screening || screening.spam.isSpam || screening.automated || screening.cached) continue;
+        if (target.body.length > MAX_BATCHED_BODY_CHARS) continue;
+        batchable.push(target);
+      }
+    }
+
+    // Without their thread, batched replies would be read differently from
+    // ones classified on their own, so they all go on their own instead
+    const contexts = settings.threadContextEnabled && batchable.length > 1
+      ? await this.loadBatchThreadContext(batchable)
+      : new Map<string, ThreadContextMessage[]>();
+    if (!contexts) batchable = [];
+
+    const answers = new Map<string, ClassifyResponse>();
+    let retryAfterMs: number | null = null;
+    const size = classificationBatchSize();
+
+    for (let start = 0; start < batchable.length && size > 1; start += size) {
+      const chunk = batchable.slice(start, start + size);
+      if (chunk.length < 2) break;
+
+      const examples = await fewShotService.selectFor(
+        userId,
+        chunk.map(target => target.subject).join(' '),
+        chunk.map(target => target.body).join(' ')
+      );
+
+      try {
+        const { results } = await geminiService.classifyBatch(
+          chunk.map((target, index) => ({
+            id: String(index + 1),
+            subject: target.subject,
+            body: target.body,
+            receivedAt: target.receivedAt,
+            context: contexts?.get(target.messageId) || []
+          })),
+          {
+            provider: settings.provider,
+            model: settings.model,
+            examples,
+            taxonomy: settings.taxonomy,
+            timeZone: settings.timeZone
+          }
+        );
+        chunk.forEach((target, index) => {
+          const answer = results.get(String(index + 1));
+          if (answer) answers.set(target.messageId, answer);
+        });
+      } catch (error: any) {
+        if (!(error instanceof ModelUnavailableError)) throw error;
+        retryAfterMs = error.retryAfterMs;
+        break;
+      }
+    }
+
+    const outcomes: ClassifyOutcome[] = [];
+    for (const [index, target] of targets.entries()) {
+      const answer = answers.get(target.messageId) || null;
+      outcomes.push(await this.classifyScreened(userId, target, false, {
+        settings,
+        screening: screenings[index],
+        answer,
+        retryAfterMs: answer ? null : retryAfterMs
+      }));
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * The rest of classifyMessage, after the override checks. With `batch`
+   * the settings, screening and model answer come from classifyBatch.
+   */
+  private async classifyScreened(
+    userId: string,
+    target: ClassifyTarget,
+    replace: boolean,
+    batch: BatchStep | null
+  ): Promise<ClassifyOutcome> {
+    const { messageId, threadId } = target;
+    let cache: CacheLookup | undefined;
+
+    try {
+      const settings = batch?.settings || await this.loadClassificationSettings(userId);
+      const { spam, automated, cacheKey, cached, cache: lookup } = batch?.screening
+        || await this.screen(userId, target, settings, replace);
+      cache = lookup;
+      const useModel = !spam.isSpam && !automated && !cached;
+
+      if (useModel && batch?.retryAfterMs != null) {
+        throw new ModelUnavailableError(getProvider(settings.provider).name, 'AI provider unavailable', batch.retryAfterMs);
+      }
+
+      const answer = useModel ? batch?.answer || null : null;
+      const context = useModel && !answer && settings.threadContextEnabled ? await this.loadThreadContext(target) : [];
+      const examples = useModel && !answer ? await fewShotService.selectFor(userId, target.subject, target.body) : [];
+      const { classification, provenance } = spam.isSpam
+        ? this.spamResult(spam)
+        : automated
+        ? this.automatedResult(automated)
+        : cached
+        ? this.cachedResult(cached)
+        : answer
+        ? answer
+        : await geminiService.classifyEmail(target.body, target.subject, context, {
+          provider: settings.provider,
+          model: settings.model,
+          examples,
+          taxonomy: settings.taxonomy,
+          signature: target.signature,
+          receivedAt: target.receivedAt,
+          timeZone: settings.timeZone
+        });
+
+      const saved = await this.save(messageId, {
+        status: 'classified',
+        sentiment: classification.sentiment,
+        confidence_score: classification.confidence_score,
+        interest_level: classification.interest_level,
+        summary: classification.summary,
+        category: classification.category,
+        recommended_action: classification.recommended_action,
+        // Rule-based labels keep what the rules matched
+        raw_ai_response: spam.isSpam ? { ...classification, spam }
+          : automated ? { ...classification, automated }
+          : classification,
+        ...this.provenanceColumns(provenance)
+      }, replace);
+
+      if (!saved) {
+        return { status: 'failed', error: 'Failed to save classification', cache };
+      }
+
+      // Batch answers came from a different prompt than the key names
+      if (cacheKey && provenance.source === 'model' && provenance.promptVersion === cacheKey.promptVersion) {
+        await classificationCacheService.put(userId, cacheKey, classification);
+      }
+
+      // Contact details in spam are not worth acting on
+      const outOfOffice = classification.sentiment === 'out_of_office';
+      const entities = classification.sentiment === 'spam'
+        ? []
+        : mergeEntities(classification.entities || [], this.patternEntities(target, { outOfOffice, timeZone: settings.timeZone }));
+      await entityService.replaceForMessage(messageId, entities);
+
+      if (outOfOffice) {
+        await followUpService.scheduleOutOfOffice(userId, {
+          threadId,
+          messageId,
+          receivedAt: target.receivedAt,
+          returnDate: entities.find(entity => entity.type === 'return_date')?.value ?? null,
+          timeZone: settings.timeZone
+        });
+      }
+
+      logger.info('Message classified', {
+        messageId,
+        sentiment: classification.sentiment,
+        contextMessages: context.length,
+        examples: examples.length,
+        entities: entities.length,
+        cache
+      });
+
+      await this.refreshThreadStage(threadId, settings.taxonomy);
+      return { status: 'classified', classification, cache };
+    } catch (error: any) {
+      if (error instanceof InvalidClassificationError) {
+        const saved = await this.save(messageId, {
+          status: 'needs_review',
+          sentiment: null,
+          confidence_score: null,
+          interest_level: null,
+          summary: null,
+          category: null,
+          recommended_action: null,
+          raw_ai_response: { text: error.rawText, errors: error.errors },
+          ...(error.provenance ? this.provenanceColumns(error.provenance) : {})
+        }, replace);
+
+        if (!saved) {
+          return { status: 'failed', error: 'Failed to save classification', cache };
+        }
+
+        await entityService.replaceForMessage(messageId, this.patternEntities(target));
+
+        logger.warn('Message needs manual review', { messageId, errors: error.errors });
+        return { status: 'needs_review', cache };
+      }
+
+      if (error instanceof ModelUnavailableError) {
+        logger.warn('Classification deferred, AI provider unavailable', { messageId, retryAfterMs: error.retryAfterMs });
+        return { status: 'deferred', retryAfterMs: error.retryAfterMs, cache };
+      }
+
+      logger.error('Failed to classify message', { messageId, error: error.message });
+      return { status: 'failed', error: error.message, cache };
+    }
+  }
+
+  /**
+   * Labels a delivery report as an automated reply and records its failed
+   * recipients, without calling the model.
+   */
+  async classifyBounce(
+    mailbox: any,
+    target: ClassifyTarget,
+    bounces: Bounce[],
+    { replace = false }: { replace?: boolean } = {}
+  ): Promise<ClassifyOutcome> {
+    const { messageId } = target;
+    await bounceService.record(mailbox, messageId, bounces, target.receivedAt);
+
+    const hard = bounces.filter(bounce => bounce.type === 'hard');
+    const described = bounces
+      .map(bounce => `${bounce.recipient}${bounce.status ? ` (${bounce.status})` : ''}`)
+      .join(', ');
+
+    const classification: ClassificationResult = {
+      sentiment: 'auto_reply',
+      interest_level: 'none',
+      summary: bounces.length === 0
+        ? 'Delivery status notification'
+        : `${hard.length > 0 ? 'Hard' : 'Soft'} bounce: ${described}`,
+      recommended_action: hard.length > 0
+        ? 'Remove the address from your sequences'
+        : 'No action needed; delivery may succeed on a later attempt',
+      category: FALLBACK_CATEGORY,
+      confidence_score: 1
+    };
+
+    const saved = await this.save(messageId, {
+      status: 'classified',
+      sentiment: classification.sentiment,
+      confidence_score: classification.confidence_score,
+      interest_level: classification.interest_level,
+      summary: classification.summary,
+      category: classification.category,
+      recommended_action: classification.recommended_action,
+      raw_ai_response: { bounces },
+      ...this.provenanceColumns({
+        source: 'bounce',
+        provider: null,
+        model: BOUNCE_PARSER_VERSION,
+        promptVersion: null,
+        latencyMs: 0,
+        usage: null,
+        rawText: null,
+        attempts: 0
+      })
+    }, replace);
+
+    if (!saved) {
+      return { status: 'failed', error: 'Failed to save classification' };
+    }
+
+    logger.info('Delivery report recorded', { messageId, bounces: bounces.length, hard: hard.length });
+    return { status: 'classified', classification };
+  }
+
+  /**
+   * Runs a stored message through the current model again.
+   */
+  async reclassifyMessage(userId: string, messageId: string): Promise<ClassifyOutcome> {
+    const { data: message, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_FIELDS)
+      .eq('id', messageId)
+      .single();
+
+    if (error || !message) {
+      return { status: 'failed', error: 'Message not found' };
+    }
+
+    return this.classifyMessage(userId, this.toTarget(message), { replace: true });
+  }
+
+  /**
+   * Reclassifies every reply in a mailbox that matches the filters. Manual
+   * overrides are excluded up front and never touched. Stops at the first
+   * reply the AI provider can't take, so the rest keep their labels until
+   * the run is resumed.
+   */
+  async reclassifyMailbox(
+    mailbox: any,
+    filters: ReclassifyFilters,
+    { onProgress, signal, resume }: ReclassifyOptions = {}
+  ): Promise<ClassificationRun> {
+    const progress: SyncProgress = {
+      listed: 0, fetched: 0, stored: 0, classified: 0, skipped: 0, failed: 0, deferred: 0, cacheHits: 0, cacheMisses: 0,
+      ...resume?.progress
+    };
+    let lastId: string | null = resume?.lastId ?? null;
+
+    for (;;) {
+      let query = supabase
+        .from('classifications')
+        .select(`id, message:messages!inner(${MESSAGE_FIELDS}, thread:threads!inner(mailbox_id))`)
+        .eq('message.thread.mailbox_id', mailbox.id)
+        .is('overridden_at', null)
+        .order('id', { ascending: true })
+        .limit(RECLASSIFY_PAGE_SIZE);
+
+      if (filters.sentiment) query = query.eq('sentiment', filters.sentiment);
+      if (filters.status) query = query.eq('status', filters.status);
+      if (filters.from) query = query.gte('message.received_at', filters.from);
+      if (filters.to) query = query.lte('message.received_at', filters.to);
+      if (filters.outdatedPrompt) {
+        query = query.or(`prompt_version.is.null,prompt_version.not.in.(${CURRENT_PROMPT_VERSION},${CURRENT_BATCH_PROMPT_VERSION})`);
+      }
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data: rows, error } = await query;
+      if (error) {
+        logger.error('Failed to load classifications to reclassify', { mailboxId: mailbox.id, error });
+        throw new Error('Failed to load classifications to reclassify');
+      }
+
+      if (!rows || rows.length === 0) break;
+
+      progress.listed += rows.length;
+      onProgress?.({ ...progress });
+
+      for (const [index, row] of rows.entries()) {
+        if (signal?.aborted) {
+          // The rest of the page is listed again on resume
+          const stoppedAt = { lastId, progress: { ...progress, listed: progress.listed - (rows.length - index) } };
+          return { progress, cancelled: true, deferred: null, stoppedAt };
+        }
+
+        const outcome = await this.classifyMessage(mailbox.user_id, this.toTarget(row.message), { replace: true });
+        if (outcome.status === 'deferred') {
+          // The rest of the page is listed again on resume
+          progress.listed -= rows.length - index;
+          onProgress?.({ ...progress });
+          return {
+            progress,
+            cancelled: false,
+            deferred: { retryAfterMs: outcome.retryAfterMs, checkpoint: { lastId, progress: { ...progress } } }
+          };
+        }
+
+        if (outcome.status === 'classified') progress.classified++;
+        else if (outcome.status === 'failed') progress.failed++;
+        else progress.skipped++;
+        lastId = row.id;
+        onProgress?.({ ...progress });
+      }
+    }
+
+    return { progress, cancelled: false, deferred: null };
+  }
+
+  /**
+   * Sets the labels by hand. Overridden classifications are skipped by
+   * every later reclassification, and a correction that changes the
+   * model's labels becomes a few-shot example for the user. Cached answers
+   * for the same text are dropped so duplicates don't repeat the mistake.
+   */
+  async override(classificationId: string, userId: string, values: ClassificationOverride): Promise<any> {
+    const { data: previous } = await supabase
+      .from('classifications')
+      .select('sentiment, interest_level, message:messages(subject, snippet, body_plain, body_new_content)')
+      .eq('id', classificationId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('classifications')
+      .update({
+        ...values,
+        status: 'classified',
+        overridden_by: userId,
+        overridden_at: new Date().toISOString()
+      })
+      .eq('id', classificationId)
+      .select('*, message:messages(thread_id)')
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to override classification', { classificationId, error });
+      throw new Error('Failed to override classification');
+    }
+
+    logger.info('Classification overridden', { classificationId, userId, sentiment: values.sentiment });
+
+    const message: any = previous?.message;
+    const taxonomy = await taxonomyService.get(userId);
+
+    const contentHash = message
+      ? classificationCacheService.contentHash(message.subject || '', this.toTarget(message).body, taxonomy)
+      : null;
+    if (contentHash) {
+      await classificationCacheService.invalidate(userId, contentHash);
+    }
+
+    const corrected = previous?.sentiment !== values.sentiment || previous?.interest_level !== values.interest_level;
+    if (message && corrected) {
+      await fewShotService.recordCorrection(userId, {
+        classificationId,
+        subject: message.subject || '',
+        body: this.toTarget(message).body,
+        sentiment: values.sentiment,
+        interestLevel: values.interest_level,
+        category: values.category,
+        originalSentiment: previous?.sentiment ?? null
+      });
+    }
+
+    const threadId = (data.message as any)?.thread_id;
+    if (threadId) {
+      await this.refreshThreadStage(threadId, taxonomy);
+    }
+
+    return data;
+  }
+
+  /**
+   * Recomputes a thread's stage from its most recent classified human reply.
+   * Threads with only automated replies keep whatever stage they had.
+   */
+  async refreshThreadStage(threadId: string, taxonomy: Taxonomy): Promise<ThreadStage | null> {
+    const stageBySentiment = new Map(taxonomy.sentiments.map(sentiment => [sentiment.key, sentiment.stage]));
+
+    const { data: replies, error } = await supabase
+      .from('messages')
+      .select('id, received_at, classifications(sentiment)')
+      .eq('thread_id', threadId)
+      .eq('direction', 'inbound')
+      .order('received_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to load thread replies for stage', { threadId, error });
+      return null;
+    }
+
+    for (const reply of replies || []) {
+      const embedded: any = reply.classifications;
+      const sentiment = (Array.isArray(embedded) ? embedded[0] : embedded)?.sentiment;
+      const stage = sentiment ? stageBySentiment.get(sentiment) : undefined;
+      if (!stage) continue;
+
+      // Only touch the row when the stage actually changes, so
+      // stage_updated_at says when the conversation last moved
+      await supabase
+        .from('threads')
+        .update({ current_stage: stage, stage_updated_at: new Date().toISOString() })
+        .eq('id', threadId)
+        .or(`current_stage.is.null,current_stage.neq.${stage}`);
+
+      return stage;
+    }
+
+    return null;
+  }
+
+  /**
+   * A spam label for a reply the spam rules caught, naming the rules.
+   */
+  private spamResult(spam: SpamVerdict): { classification: ClassificationResult; provenance: ClassificationProvenance } {
+    logger.info('Email matched spam rules', { score: spam.score, rules: spam.matches.map(match => match.name) });
+
+    return {
+      classification: {
+        sentiment: 'spam',
+        interest_level: 'none',
+        summary: `Spam rules matched (score ${spam.score} of ${spam.threshold}): ${spam.matches
+          .map(match => `${match.name} (${match.matched})`)
+          .join(', ')}`,
+        recommended_action: 'Mark as spam and ignore',
+        category: FALLBACK_CATEGORY,
+        confidence_score: 0.95
+      },
+      provenance: {
+        source: 'spam_heuristic',
+        provider: null,
+        model: SPAM_RULES_VERSION,
+        promptVersion: null,
+        latencyMs: 0,
+        usage: null,
+        rawText: null,
+        attempts: 0
+      }
+    };
+  }
+
+  /**
+   * An auto_reply or out_of_office label for a reply recognized from its
+   * headers or subject.
+   */
+  private automatedResult(automated: AutomatedReply): { classification: ClassificationResult; provenance: ClassificationProvenance } {
+    logger.info('Automated reply recognized without the model', { sentiment: automated.sentiment, signals: automated.signals });
+
+    const outOfOffice = automated.sentiment === 'out_of_office';
+    return {
+      classification: {
+        sentiment: automated.sentiment,
+        interest_level: 'none',
+        summary: `${outOfOffice ? 'Out-of-office reply' : 'Automated reply'} (${automated.signals.join('; ')})`,
+        recommended_action: outOfOffice
+          ? 'Follow up when the sender is back'
+          : 'No action needed; wait for a reply from a person',
+        category: FALLBACK_CATEGORY,
+        confidence_score: automated.confidence
+      },
+      provenance: {
+        source: 'header_rules',
+        provider: null,
+        model: AUTO_REPLY_RULES_VERSION,
+        promptVersion: null,
+        latencyMs: 0,
+        usage: null,
+        rawText: null,
+        attempts: 0
+      }
+    };
+  }
+
+  /**
+   * Runs the checks that can label a reply without the model: the spam
+   * rules, the auto-reply header rules and, unless `replace` asks for a
+   * fresh answer, the cache.
+   */
+  private async screen(
+    userId: string,
+    target: ClassifyTarget,
+    settings: ClassificationSettings,
+    replace: boolean
+  ): Promise<Screening> {
+    const spam = evaluateSpamRules(settings.spamRules, {
+      from: target.fromAddress || '',
+      subject: target.subject,
+      body: target.body,
+      headers: target.headers
+    }, settings.spamThreshold);
+    const automated = spam.isSpam ? null : detectAutomatedReply(target);
+    const cacheKey = !spam.isSpam && !automated ? this.cacheKey(target, settings) : null;
+    if (!cacheKey || replace) {
+      return { spam, automated, cacheKey, cached: null };
+    }
+
+    const cached = await classificationCacheService.get(userId, cacheKey);
+    return { spam, automated, cacheKey, cached, cache: cached ? 'hit' : 'miss' };
+  }
+
+  /**
+   * The labels of an earlier identical reply, credited to the model and
+   * prompt that produced them.
+   */
+  private cachedResult(cached: CachedClassification): { classification: ClassificationResult; provenance: ClassificationProvenance } {
+    return {
+      classification: cached.classification,
+      provenance: {
+        source: 'cache',
+        provider: cached.provider,
+        model: cached.model,
+        promptVersion: cached.promptVersion,
+        latencyMs: 0,
+        usage: null,
+        rawText: null,
+        attempts: 0
+      }
+    };
+  }
+
+  /**
+   * Where the model's answer for this reply would be cached, or null when
+   * the cache is off or the reply is too short to reuse answers for.
+   */
+  private cacheKey(target: ClassifyTarget, settings: ClassificationSettings): CacheKey | null {
+    if (!classificationCacheService.isEnabled()) return null;
+
+    const contentHash = classificationCacheService.contentHash(target.subject, target.body, settings.taxonomy);
+    if (!contentHash) return null;
+
+    const provider = getProvider(settings.provider);
+    return {
+      contentHash,
+      promptVersion: CURRENT_PROMPT_VERSION,
+      provider: provider.name,
+      model: settings.model || provider.defaultModel
+    };
+  }
+
+  private toTarget(message: any): ClassifyTarget {
+    return {
+      messageId: message.id,
+      threadId: message.thread_id,
+      receivedAt: message.received_at,
+      body: message.body_new_content || parseReply(message.body_plain || '').newContent || message.snippet || '',
+      subject: message.subject || '',
+      signature: message.body_signature,
+      fromAddress: message.from_address,
+      headers: message.headers
+    };
+  }
+
+  /**
+   * Entities found without the model. For out-of-office replies that
+   * includes the return date, used when the model didn't give one.
+   */
+  private patternEntities(
+    target: ClassifyTarget,
+    { outOfOffice = false, timeZone = 'UTC' }: { outOfOffice?: boolean; timeZone?: string } = {}
+  ): ExtractedEntity[] {
+    const entities = extractPatternEntities({
+      body: target.body,
+      signature: target.signature,
+      exclude: [target.fromAddress]
+    });
+
+    const returnDate = outOfOffice ? parseReturnDate(`${target.subject}\n${target.body}`, target.receivedAt) : null;
+    if (returnDate) {
+      entities.push({
+        type: 'return_date',
+        value: returnDate.date,
+        startsAt: new Date(`${returnDate.date}T00:00:00${timeZoneOffset(timeZone, new Date(target.receivedAt))}`).toISOString(),
+        details: { text: returnDate.text },
+        source: 'pattern'
+      });
+    }
+
+    return entities;
+  }
+
+  private provenanceColumns(provenance: ClassificationProvenance): Record<string, any> {
+    return {
+      source: provenance.source,
+      provider: provenance.provider,
+      model: provenance.model,
+      prompt_version: provenance.promptVersion,
+      latency_ms: provenance.latencyMs,
+      prompt_tokens: provenance.usage?.promptTokens ?? null,
+      completion_tokens: provenance.usage?.completionTokens ?? null,
+      raw_response_text: provenance.rawText
+    };
+  }
+
+  private async save(messageId: string, values: Record<string, any>, replace: boolean): Promise<boolean> {
+    const row = { message_id: messageId, ...values };
+    const { error } = replace
+      ? await supabase.from('classifications').upsert(row, { onConflict: 'message_id' })
+      : await supabase.from('classifications').insert(row);
+
+    if (error) {
+      logger.error('Failed to save classification', { messageId, error });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async loadExisting(messageId: string): Promise<{ overridden_at: string | null; source: string | null } | null> {
+    const { data } = await supabase
+      .from('classifications')
+      .select('overridden_at, source')
+      .eq('message_id', messageId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * The user's classification preferences, taxonomy and spam rules. A
+   * missing settings row means server defaults.
+   */
+  private async loadClassificationSettings(userId: string): Promise<ClassificationSettings> {
+    const { data: settings } = await supabase
+      .from('settings')
+      .select('thread_context_enabled, ai_provider, ai_model, timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const spam = await spamRuleService.load(userId);
+
+    return {
+      threadContextEnabled: settings?.thread_context_enabled !== false,
+      provider: settings?.ai_provider || null,
+      model: settings?.ai_model || null,
+      timeZone: settings?.timezone || 'UTC',
+      taxonomy: await taxonomyService.get(userId),
+      spamRules: spam.rules,
+      spamThreshold: spam.threshold
+    };
+  }
+
+  /**
+   * Earlier messages of the thread, oldest first, trimmed from the oldest
+   * end to fit the token budget.
+   */
+  private async loadThreadContext(target: ClassifyTarget): Promise<ThreadContextMessage[]> {
+    const { data: earlier, error } = await supabase
+      .from('messages')
+      .select('direction, from_address, received_at, body_plain, body_new_content, snippet')
+      .eq('thread_id', target.threadId)
+      .neq('id', target.messageId)
+      .lt('received_at', new Date(target.receivedAt).toISOString())
+      .order('received_at', { ascending: false })
+      .limit(THREAD_CONTEXT_MAX_MESSAGES);
+
+    if (error) {
+      logger.warn('Failed to load thread context, classifying without it', { threadId: target.threadId, error });
+      return [];
+    }
+
+    const maxTokens = parseInt(process.env.THREAD_CONTEXT_MAX_TOKENS || '') || DEFAULT_THREAD_CONTEXT_MAX_TOKENS;
+    let remainingChars = maxTokens * CHARS_PER_TOKEN;
+    const context: ThreadContextMessage[] = [];
+
+    for (const message of earlier || []) {
+      if (remainingChars <= 0) break;
+
+      // Each earlier message is sent without its own quoted history, which
+      // would only repeat the messages before it
+      const text = (message.body_new_content || message.body_plain || message.snippet || '').trim();
+      if (!text) continue;
+
+      const body = text.length > remainingChars ? `${text.slice(0, remainingChars)}…` : text;
+      remainingChars -= body.length;
+
+      context.unshift({
+        direction: message.direction,
+        from: message.from_address,
+        receivedAt: new Date(message.received_at).toISOString(),
+        body
+      });
+    }
+
+    return context;
+  }
+
+  /**
+   * The last few earlier messages of each reply's thread, shortened for a
+   * batch, by message ID. Loaded in one query for the whole batch; null
+   * when that fails.
+   */
+  private async loadBatchThreadContext(targets: ClassifyTarget[]): Promise<Map<string, ThreadContextMessage[]> | null> {
+    const threadIds = [...new Set(targets.map(target => target.threadId))];
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select('id, thread_id, direction, from_address, received_at, body_new_content, snippet')
+      .in('thread_id', threadIds)
+      .order('received_at', { ascending: true });
+
+    if (error) {
+      logger.warn('Failed to load thread context for a batch, classifying one at a time', { error });
+      return null;
+    }
+
+    const contexts = new Map<string, ThreadContextMessage[]>();
+    for (const target of targets) {
+      const receivedAt = new Date(target.receivedAt).getTime();
+      const earlier = (messages || []).filter(message =>
+        message.thread_id === target.threadId &&
+        message.id !== target.messageId &&
+        new Date(message.received_at).getTime() < receivedAt
+      );
+
+      contexts.set(target.messageId, earlier.slice(-BATCH_CONTEXT_MAX_MESSAGES).flatMap(message => {
+        const text = (message.body_new_content || message.snippet || '').replace(/\s+/g, ' ').trim();
+        if (!text) return [];
+
+        return [{
+          direction: message.direction,
+          from: message.from_address,
+          receivedAt: new Date(message.received_at).toISOString(),
+          body: text.length > BATCH_CONTEXT_MAX_CHARS ? `${text.slice(0, BATCH_CONTEXT_MAX_CHARS)}…` : text
+        }];
+      }));
+    }
+
+    return contexts;
+  }
+}
+
+export const classificationService = new ClassificationService();
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { supabase } from '../config/supabase';
+import { ClassificationResult } from './gemini.service';
+import { ProviderName } from './providers';
+import { Taxonomy } from './classificationSchema';
+import { logger } from '../utils/logger';
+
+// Replies this short mean different things in different threads ("yes
+// please"), so they're always sent to the model with their context
+const MIN_CACHED_BODY_CHARS = 40;
+
+export type CacheLookup = 'hit' | 'miss';
+
+/**
+ * What identifies a cached answer: the reply's text, the labels it could
+ * get, and the prompt and model that answered.
+ */
+export interface CacheKey {
+  contentHash: string;
+  promptVersion: string;
+  provider: ProviderName;
+  model: string;
+}
+
+export interface CachedClassification {
+  classification: ClassificationResult;
+  provider: ProviderName;
+  model: string;
+  promptVersion: string;
+}
+
+// "Re: Fwd: Quick question" and "quick  question" are the same subject
+const REPLY_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|antw|rif|tr)\s*(\[\d+\])?\s*:\s*)+/i;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export class ClassificationCacheService {
+  /**
+   * Whether cached answers are used at all (CLASSIFICATION_CACHE_ENABLED,
+   * on unless set to false).
+   */
+  isEnabled(): boolean {
+    return process.env.CLASSIFICATION_CACHE_ENABLED !== 'false';
+  }
+
+  /**
+   * The content hash of a reply, or null when it's too short to be worth
+   * caching. The taxonomy is part of the hash, so changing the labels
+   * starts a fresh cache.
+   */
+  contentHash(subject: string, body: string, taxonomy: Taxonomy): string | null {
+    const normalizedBody = normalize(body);
+    if (normalizedBody.length < MIN_CACHED_BODY_CHARS) return null;
+
+    return crypto
+      .createHash('sha256')
+      .update(normalize(subject.replace(REPLY_PREFIX, '')))
+      .update('\n')
+      .update(normalizedBody)
+      .update('\n')
+      .update(JSON.stringify(taxonomy))
+      .digest('hex');
+  }
+
+  /**
+   * An earlier answer for the same key, unless it's older than
+   * CLASSIFICATION_CACHE_TTL_HOURS (no limit when unset or 0).
+   */
+  async get(userId: string, key: CacheKey): Promise<CachedClassification | null> {
+    let query = supabase
+      .from('classification_cache')
+      .select('id, classification, provider, model, prompt_version, hit_count')
+      .eq('user_id', userId)
+      .eq('content_hash', key.contentHash)
+      .eq('prompt_version', key.promptVersion)
+      .eq('provider', key.provider)
+      .eq('model', key.model);
+
+    const ttlHours = parseFloat(process.env.CLASSIFICATION_CACHE_TTL_HOURS || '');
+    if (ttlHours > 0) {
+      query = query.gte('created_at', new Date(Date.now() - ttlHours * 60 * 60 * 1000).toISOString());
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to read classification cache', { userId, error });
+      return null;
+    }
+    if (!data) return null;
+
+    await supabase
+      .from('classification_cache')
+      .update({ hit_count: data.hit_count + 1, last_hit_at: new Date().toISOString() })
+      .eq('id', data.id);
+
+    return {
+      classification: data.classification,
+      provider: data.provider,
+      model: data.model,
+      promptVersion: data.prompt_version
+    };
+  }
+
+  /**
+   * Stores a model answer for later duplicates. Entities are left out:
+   * dates in them were resolved against when the original reply arrived.
+   */
+  async put(userId: string, key: CacheKey, classification: ClassificationResult): Promise<void> {
+    const { entities: _entities, ...cached } = classification;
+
+    const { error } = await supabase
+      .from('classification_cache')
+      .upsert({
+        user_id: userId,
+        content_hash: key.contentHash,
+        prompt_version: key.promptVersion,
+        provider: key.provider,
+        model: key.model,
+        classification: cached,
+        hit_count: 0,
+        last_hit_at: null,
+        created_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,content_hash,prompt_version,provider,model'
+      });
+
+    if (error) {
+      logger.warn('Failed to write classification cache', { userId, error });
+    }
+  }
+
+  /**
+   * Forgets every cached answer for a reply's content, whichever prompt or
+   * model gave it. Used when a user corrects the labels, so later
+   * duplicates go back to the model (which now sees the correction).
+   */
+  async invalidate(userId: string, contentHash: string): Promise<void> {
+    const { error } = await supabase
+      .from('classification_cache')
+      .delete()
+      .eq('user_id', userId)
+      .eq('content_hash', contentHash);
+
+    if (error) {
+      logger.warn('Failed to invalidate classification cache', { userId, error });
+    }
+  }
+}
+
+export const classificationCacheService = new ClassificationCacheService();
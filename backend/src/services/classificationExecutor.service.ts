@@ -0,0 +1,258 @@
+import { ClassifierProvider, ProviderName, ProviderRequest, ProviderResponse } from './providers';
+import { logger } from '../utils/logger';
+
+// Every model call goes through here. Per provider, and per process:
+// - at most MODEL_REQUESTS_PER_MINUTE calls a minute (0 for no limit)
+// - at most MODEL_MAX_CONCURRENCY calls in flight
+// - a call that hasn't answered after MODEL_TIMEOUT_MS is abandoned, and
+//   retried like a network error
+// - rate limits, server errors and network errors are retried up to
+//   MODEL_MAX_RETRIES times, with exponential backoff and full jitter
+//   (or the Retry-After the server asked for)
+// - after MODEL_CIRCUIT_FAILURE_THRESHOLD failures in a row the provider is
+//   considered down: calls fail straight away for MODEL_CIRCUIT_COOLDOWN_MS,
+//   then a single call is let through to see if it's back
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE'];
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The provider can't be reached right now: it's rate limiting or failing
+ * and retries ran out, or the circuit is open. The message should be
+ * classified again later rather than marked as failed.
+ */
+export class ModelUnavailableError extends Error {
+  provider: ProviderName;
+  // When it's worth trying again
+  retryAfterMs: number;
+
+  constructor(provider: ProviderName, message: string, retryAfterMs: number) {
+    super(message);
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface ExecutorLimits {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface ProviderState {
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  waiting: Array<() => void>;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+export const executorLimits = (): ExecutorLimits => ({
+  requestsPerMinute: numberFromEnv('MODEL_REQUESTS_PER_MINUTE', 60),
+  maxConcurrency: Math.max(1, Math.floor(numberFromEnv('MODEL_MAX_CONCURRENCY', 4))),
+  timeoutMs: numberFromEnv('MODEL_TIMEOUT_MS', 30 * 1000),
+  maxRetries: Math.floor(numberFromEnv('MODEL_MAX_RETRIES', 3)),
+  retryBaseDelayMs: numberFromEnv('MODEL_RETRY_BASE_DELAY_MS', 1000),
+  retryMaxDelayMs: numberFromEnv('MODEL_RETRY_MAX_DELAY_MS', 30 * 1000),
+  circuitFailureThreshold: Math.max(1, Math.floor(numberFromEnv('MODEL_CIRCUIT_FAILURE_THRESHOLD', 5))),
+  circuitCooldownMs: numberFromEnv('MODEL_CIRCUIT_COOLDOWN_MS', 60 * 1000)
+});
+
+/**
+ * Whether an error is worth retrying: rate limits, timeouts, server errors
+ * and failed connections. Anything else (a bad request, a bad answer) would
+ * fail the same way again.
+ */
+const isRetryable = (error: any): boolean => {
+  const status = error?.response?.status;
+  if (status) return status === 408 || status === 429 || status >= 500;
+  return NETWORK_ERROR_CODES.includes(error?.code) || Boolean(error?.isAxiosError && !error.response);
+};
+
+/**
+ * The wait a Retry-After header asks for, in seconds or as a date.
+ */
+const retryAfterHeader = (error: any): number | null => {
+  const value = error?.response?.headers?.['retry-after'];
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export class ClassificationExecutor {
+  private states = new Map<ProviderName, ProviderState>();
+
+  /**
+   * Runs one generate call within the provider's limits, retrying what can
+   * be retried. Throws ModelUnavailableError when the provider can't be
+   * reached; other errors are passed through as they are.
+   */
+  async generate(provider: ClassifierProvider, request: ProviderRequest): Promise<ProviderResponse> {
+    // Keyword rules in this process, nothing to protect
+    if (provider.name === 'offline') {
+      return provider.generate(request);
+    }
+
+    const limits = executorLimits();
+    const state = this.state(provider.name, limits);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.withSlot(state, limits, async () => {
+          await this.takeToken(state, limits);
+          // Checked last, as the circuit may have opened while waiting
+          this.checkCircuit(provider.name, state, limits);
+          // 0 means no timeout, as it does for axios
+          return provider.generate({ ...request, timeoutMs: limits.timeoutMs });
+        });
+        this.recordSuccess(provider.name, state);
+        return response;
+      } catch (error: any) {
+        if (error instanceof ModelUnavailableError) throw error;
+        if (!isRetryable(error)) {
+          // The provider answered, so it's up
+          this.recordSuccess(provider.name, state);
+          throw error;
+        }
+
+        this.recordFailure(provider.name, state, limits);
+
+        const status = error.response?.status;
+        const backoff = Math.min(limits.retryMaxDelayMs, limits.retryBaseDelayMs * 2 ** attempt);
+        const delay = retryAfterHeader(error) ?? Math.random() * backoff;
+
+        if (attempt >= limits.maxRetries || state.circuit === 'open') {
+          logger.warn('AI provider unavailable, giving up for now', {
+            provider: provider.name,
+            status,
+            error: error.message,
+            attempts: attempt + 1
+          });
+          throw new ModelUnavailableError(
+            provider.name,
+            `AI provider ${provider.name} unavailable: ${status ? `HTTP ${status}` : error.message}`,
+            state.circuit === 'open' ? state.openUntil - Date.now() : Math.max(delay, limits.retryMaxDelayMs)
+          );
+        }
+
+        logger.warn('AI call failed, retrying', { provider: provider.name, status, error: error.message, attempt: attempt + 1, delayMs: Math.round(delay) });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private state(name: ProviderName, limits: ExecutorLimits): ProviderState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = {
+        tokens: limits.requestsPerMinute,
+        refilledAt: Date.now(),
+        active: 0,
+        waiting: [],
+        circuit: 'closed',
+        consecutiveFailures: 0,
+        openUntil: 0
+      };
+      this.states.set(name, state);
+    }
+    return state;
+  }
+
+  /**
+   * Fails fast while the circuit is open. Once the cooldown is over one
+   * call is let through; the rest keep failing until it comes back.
+   */
+  private checkCircuit(name: ProviderName, state: ProviderState, limits: ExecutorLimits): void {
+    if (state.circuit === 'closed') return;
+
+    const now = Date.now();
+    if (state.circuit === 'open' && now >= state.openUntil) {
+      state.circuit = 'half_open';
+      logger.info('AI provider circuit half-open, trying one call', { provider: name });
+      return;
+    }
+
+    const retryAfterMs = state.circuit === 'open' ? state.openUntil - now : limits.retryBaseDelayMs;
+    throw new ModelUnavailableError(name, `AI provider ${name} is paused after repeated failures`, retryAfterMs);
+  }
+
+  private recordSuccess(name: ProviderName, state: ProviderState): void {
+    if (state.circuit !== 'closed') {
+      logger.info('AI provider circuit closed', { provider: name });
+    }
+    state.circuit = 'closed';
+    state.consecutiveFailures = 0;
+  }
+
+  private recordFailure(name: ProviderName, state: ProviderState, limits: ExecutorLimits): void {
+    state.consecutiveFailures++;
+
+    const reopen = state.circuit === 'half_open';
+    if (reopen || (state.circuit === 'closed' && state.consecutiveFailures >= limits.circuitFailureThreshold)) {
+      state.circuit = 'open';
+      state.openUntil = Date.now() + limits.circuitCooldownMs;
+      logger.warn('AI provider circuit opened, pausing classification', {
+        provider: name,
+        failures: state.consecutiveFailures,
+        cooldownMs: limits.circuitCooldownMs
+      });
+    }
+  }
+
+  private async withSlot<T>(state: ProviderState, limits: ExecutorLimits, run: () => Promise<T>): Promise<T> {
+    while (state.active >= limits.maxConcurrency) {
+      await new Promise<void>(resolve => state.waiting.push(resolve));
+    }
+
+    state.active++;
+    try {
+      return await run();
+    } finally {
+      state.active--;
+      state.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Token bucket holding up to a minute's worth of calls, refilled
+   * continuously.
+   */
+  private async takeToken(state: ProviderState, limits: ExecutorLimits): Promise<void> {
+    if (limits.requestsPerMinute <= 0) return;
+
+    const perMs = limits.requestsPerMinute / 60000;
+    for (;;) {
+      const now = Date.now();
+      state.tokens = Math.min(limits.requestsPerMinute, state.tokens + (now - state.refilledAt) * perMs);
+      state.refilledAt = now;
+
+      if (state.tokens >= 1) {
+        state.tokens--;
+        return;
+      }
+
+      await sleep((1 - state.tokens) / perMs);
+    }
+  }
+}
+
+export const classificationExecutor = new ClassificationExecutor();
@@ -0,0 +1,328 @@
+import Joi from 'joi';
+
+export const INTEREST_LEVELS = ['high', 'medium', 'low', 'none'] as const;
+
+// Stages a reply can move its thread to (see ClassificationService)
+export const REPLY_STAGES = ['replied', 'interested', 'nurturing', 'not_interested'] as const;
+export type ReplyStage = typeof REPLY_STAGES[number];
+
+// The pipeline itself relies on these (spam rules, hiding automated
+// replies, out-of-office handling), so every taxonomy keeps them
+export const SYSTEM_SENTIMENTS = ['auto_reply', 'out_of_office', 'spam'] as const;
+
+// Given to spam, automated replies and bounces, which are labelled without
+// the model, so every taxonomy keeps it too
+export const FALLBACK_CATEGORY = 'other';
+
+export interface TaxonomyCategory {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export interface TaxonomySentiment extends TaxonomyCategory {
+  // Phrases typical of the label, shown to the model
+  examples: string[];
+  // Where a reply with this sentiment moves its thread; null leaves it
+  stage: ReplyStage | null;
+}
+
+/**
+ * The labels a user classifies replies into. Keys are what gets stored
+ * on classifications; labels and descriptions are for people and the
+ * prompt.
+ */
+export interface Taxonomy {
+  sentiments: TaxonomySentiment[];
+  categories: TaxonomyCategory[];
+}
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  sentiments: [
+    {
+      key: 'positive',
+      label: 'Positive',
+      description: 'Clear interest, wants to move forward: asks for a demo, call, meeting or pricing',
+      examples: ["Let's schedule a call", "I'm interested", 'Send me more info'],
+      stage: 'interested'
+    },
+    {
+      key: 'warm',
+      label: 'Warm',
+      description: 'Polite response with potential future interest, door left open. A polite email that mentions "future", "later", "keep in touch" or "reach out if needed" is warm, not negative',
+      examples: ['Not right now, but maybe later', 'Keep us in mind for the future', "We'll reach out if needed", "Thank you, we'll consider it"],
+      stage: 'nurturing'
+    },
+    {
+      key: 'neutral',
+      label: 'Neutral',
+      description: 'Simple acknowledgment with no indication of interest or disinterest',
+      examples: ['Thank you for reaching out'],
+      stage: 'replied'
+    },
+    {
+      key: 'negative',
+      label: 'Negative',
+      description: 'Clear rejection with no future interest, a harsh or rude rejection, or an explicit request to stop communication',
+      examples: ['Not interested', 'Please remove us', 'Stop contacting'],
+      stage: 'not_interested'
+    },
+    {
+      key: 'auto_reply',
+      label: 'Auto-reply',
+      description: 'Automated response: auto-responders, chatbots, bounce-backs, delivery failure notifications and other system-generated messages',
+      examples: ['Undelivered Mail', 'Mail Delivery Failed', 'Thank you for contacting us'],
+      stage: null
+    },
+    {
+      key: 'out_of_office',
+      label: 'Out of office',
+      description: 'Out of office message (human-set auto-reply)',
+      examples: [],
+      stage: null
+    },
+    {
+      key: 'spam',
+      label: 'Spam',
+      description: 'Spam, unrelated or junk email: random tracking codes, generic questions with codes, unrelated marketing, phishing attempts',
+      examples: ['who should I call | CODE123'],
+      stage: null
+    }
+  ],
+  categories: [
+    { key: 'demo_request', label: 'Demo request', description: 'Wants a demo, call or meeting' },
+    { key: 'pricing', label: 'Pricing', description: 'Asks about prices or a quote' },
+    { key: 'not_interested', label: 'Not interested', description: 'Declines the offer' },
+    { key: 'follow_up_later', label: 'Follow up later', description: 'Asks to be contacted again later' },
+    { key: 'job_application', label: 'Job application', description: 'Applies for a job or sends a CV' },
+    { key: 'other', label: 'Other', description: 'Anything else' }
+  ]
+};
+
+const keySchema = Joi.string().pattern(/^[a-z][a-z0-9_]{0,39}$/).required()
+  .messages({ 'string.pattern.base': '{{#label}} must be lower-case letters, digits and underscores' });
+
+const categorySchema = Joi.object({
+  key: keySchema,
+  label: Joi.string().trim().min(1).max(60).required(),
+  description: Joi.string().trim().allow('').max(500).default('')
+});
+
+const taxonomyValidator = Joi.object({
+  sentiments: Joi.array().items(categorySchema.keys({
+    examples: Joi.array().items(Joi.string().trim().min(1).max(200)).max(10).default([]),
+    stage: Joi.string().valid(...REPLY_STAGES).allow(null).default(null)
+  })).min(1).max(20).unique('key').required(),
+  categories: Joi.array().items(categorySchema).min(1).max(40).unique('key').required()
+});
+
+/**
+ * Checks a taxonomy submitted by a user. System sentiments and the
+ * fallback category can be reworded but not removed.
+ */
+export const validateTaxonomy = (input: unknown): { value: Taxonomy | null; errors: string[] } => {
+  const { value, error } = taxonomyValidator.validate(input, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    return { value: null, errors: error.details.map(detail => detail.message) };
+  }
+
+  const keys = new Set(value.sentiments.map((sentiment: TaxonomySentiment) => sentiment.key));
+  const missing = SYSTEM_SENTIMENTS.filter(key => !keys.has(key));
+  if (missing.length > 0) {
+    return { value: null, errors: [`sentiments must include ${missing.join(', ')}`] };
+  }
+
+  if (!value.categories.some((category: TaxonomyCategory) => category.key === FALLBACK_CATEGORY)) {
+    return { value: null, errors: [`categories must include ${FALLBACK_CATEGORY}`] };
+  }
+
+  return { value, errors: [] };
+};
+
+/**
+ * JSON schema the model is asked to answer in (structured output). It
+ * mirrors the Joi schema in validateClassification, which is what is
+ * actually enforced.
+ */
+export const buildResponseSchema = (taxonomy: Taxonomy) => ({
+  type: 'object',
+  properties: {
+    sentiment: { type: 'string', enum: taxonomy.sentiments.map(sentiment => sentiment.key) },
+    interest_level: { type: 'string', enum: [...INTEREST_LEVELS] },
+    summary: { type: 'string' },
+    recommended_action: { type: 'string' },
+    category: { type: 'string', enum: taxonomy.categories.map(category => category.key) },
+    confidence_score: { type: 'number' },
+    entities: {
+      type: 'object',
+      properties: {
+        meeting_times: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { start: { type: 'string' }, text: { type: 'string' } },
+            required: ['start', 'text']
+          }
+        },
+        referrals: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, email: { type: 'string' }, title: { type: 'string' } }
+          }
+        },
+        phone_numbers: { type: 'array', items: { type: 'string' } },
+        company: { type: 'string' },
+        job_title: { type: 'string' },
+        return_date: { type: 'string' }
+      }
+    }
+  },
+  required: ['sentiment', 'interest_level', 'summary', 'recommended_action', 'category', 'confidence_score']
+});
+
+/**
+ * JSON schema for a batch answer: one classification per email, tagged
+ * with the email's ID.
+ */
+export const buildBatchResponseSchema = (taxonomy: Taxonomy) => {
+  const single = buildResponseSchema(taxonomy);
+
+  return {
+    type: 'object',
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          ...single,
+          properties: { id: { type: 'string' }, ...single.properties },
+          required: ['id', ...single.required]
+        }
+      }
+    },
+    required: ['results']
+  };
+};
+
+const buildClassificationValidator = (taxonomy: Taxonomy) => Joi.object({
+  sentiment: Joi.string().valid(...taxonomy.sentiments.map(sentiment => sentiment.key)).required(),
+  interest_level: Joi.string().valid(...INTEREST_LEVELS).required(),
+  summary: Joi.string().trim().min(1).max(1000).required(),
+  recommended_action: Joi.string().trim().min(1).max(500).required(),
+  category: Joi.string().valid(...taxonomy.categories.map(category => category.key)).required(),
+  confidence_score: Joi.number().min(0).max(1).required(),
+  // Optional and checked field by field by normalizeModelEntities, so a
+  // malformed detail doesn't cost the whole classification
+  entities: Joi.any()
+}).unknown(true);
+
+export interface ValidationOutcome {
+  value: Record<string, any> | null;
+  errors: string[];
+}
+
+/**
+ * Parses and validates a raw model answer against the user's taxonomy.
+ * Markdown code fences are tolerated; anything else that isn't a single
+ * valid JSON object is an error.
+ */
+export const validateClassification = (text: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): ValidationOutcome => {
+  const parsed = parseAnswer(text);
+  if (parsed.error) {
+    return { value: null, errors: [parsed.error] };
+  }
+
+  return checkClassification(buildClassificationValidator(taxonomy), parsed.value);
+};
+
+export interface BatchValidationOutcome {
+  // Valid classifications by email ID
+  values: Map<string, Record<string, any>>;
+  // What was wrong with the rest, including IDs with no answer
+  errors: string[];
+}
+
+/**
+ * Parses and validates a batch answer. Each entry is checked on its own,
+ * so one bad entry only costs that email; entries with an unknown or
+ * repeated ID are dropped.
+ */
+export const validateBatchClassification = (
+  text: string,
+  ids: string[],
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): BatchValidationOutcome => {
+  const values = new Map<string, Record<string, any>>();
+
+  const parsed = parseAnswer(text);
+  if (parsed.error) {
+    return { values, errors: [parsed.error] };
+  }
+
+  // Some models leave out the wrapping object
+  const results = Array.isArray(parsed.value) ? parsed.value : (parsed.value as any)?.results;
+  if (!Array.isArray(results)) {
+    return { values, errors: ['Response has no results list'] };
+  }
+
+  const validator = buildClassificationValidator(taxonomy);
+  const errors: string[] = [];
+
+  results.forEach((entry: any, index: number) => {
+    const id = entry?.id === undefined || entry?.id === null ? null : String(entry.id);
+    if (!id || !ids.includes(id)) {
+      errors.push(`results[${index}]: unknown id ${JSON.stringify(entry?.id)}`);
+      return;
+    }
+    if (values.has(id)) {
+      errors.push(`results[${index}]: repeated id ${id}`);
+      return;
+    }
+
+    const { value, errors: entryErrors } = checkClassification(validator, entry);
+    if (value) {
+      values.set(id, value);
+    } else {
+      errors.push(...entryErrors.map(error => `${id}: ${error}`));
+    }
+  });
+
+  for (const id of ids) {
+    if (!values.has(id) && !errors.some(error => error.startsWith(`${id}: `))) {
+      errors.push(`${id}: no answer`);
+    }
+  }
+
+  return { values, errors };
+};
+
+/**
+ * Strips Markdown code fences and parses the JSON inside.
+ */
+const parseAnswer = (text: string): { value: unknown; error: string | null } => {
+  const cleanText = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+
+  try {
+    return { value: JSON.parse(cleanText), error: null };
+  } catch (error: any) {
+    return { value: null, error: `Response is not valid JSON: ${error.message}` };
+  }
+};
+
+const checkClassification = (validator: Joi.ObjectSchema, parsed: unknown): ValidationOutcome => {
+  const { value, error } = validator.validate(parsed, {
+    abortEarly: false,
+    convert: true,
+    stripUnknown: true
+  });
+
+  if (error) {
+    return { value: null, errors: error.details.map(detail => detail.message) };
+  }
+
+  return { value, errors: [] };
+};
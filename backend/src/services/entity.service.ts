@@ -0,0 +1,43 @@
+import { supabase } from '../config/supabase';
+import { ExtractedEntity } from '../utils/entityExtractor';
+import { logger } from '../utils/logger';
+
+export class EntityService {
+  /**
+   * Replaces what was extracted from a message with a new set, so a
+   * reclassification doesn't leave entities from the earlier answer behind.
+   */
+  async replaceForMessage(messageId: string, entities: ExtractedEntity[]): Promise<boolean> {
+    const { error: deleteError } = await supabase
+      .from('reply_entities')
+      .delete()
+      .eq('message_id', messageId);
+
+    if (deleteError) {
+      logger.error('Failed to clear reply entities', { messageId, error: deleteError });
+      return false;
+    }
+
+    if (entities.length === 0) return true;
+
+    const { error } = await supabase
+      .from('reply_entities')
+      .insert(entities.map(entity => ({
+        message_id: messageId,
+        type: entity.type,
+        value: entity.value,
+        starts_at: entity.startsAt,
+        details: entity.details,
+        source: entity.source
+      })));
+
+    if (error) {
+      logger.error('Failed to save reply entities', { messageId, error });
+      return false;
+    }
+
+    return true;
+  }
+}
+
+export const entityService = new EntityService();
@@ -0,0 +1,171 @@
+import { supabase } from '../config/supabase';
+import { FewShotExample } from './gemini.service';
+import { logger } from '../utils/logger';
+
+// Examples are picked from the user's most recent corrections only, so a
+// handful of database rows is scored per classification
+const CANDIDATE_LIMIT = 50;
+const MAX_EXAMPLES = 3;
+
+// Long bodies add little beyond the first paragraphs and eat prompt space
+const MAX_EXAMPLE_BODY_CHARS = 600;
+
+// Below this an example has too little in common with the email to help
+const MIN_SIMILARITY = 0.05;
+
+const EXAMPLE_FIELDS = 'id, classification_id, subject, body, sentiment, interest_level, category, original_sentiment, enabled, created_at';
+
+export interface CorrectionInput {
+  classificationId: string;
+  subject: string;
+  body: string;
+  sentiment: string;
+  interestLevel: string;
+  category: string;
+  originalSentiment: string | null;
+}
+
+const tokenize = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}']{3,}/gu) || []));
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+
+  return shared / (a.size + b.size - shared);
+};
+
+export class FewShotService {
+  /**
+   * Stores a human correction as an example. Correcting the same reply
+   * again replaces its example and re-enables it.
+   */
+  async recordCorrection(userId: string, correction: CorrectionInput): Promise<void> {
+    const body = correction.body.trim().slice(0, MAX_EXAMPLE_BODY_CHARS);
+    if (!body) return;
+
+    const { error } = await supabase
+      .from('classification_examples')
+      .upsert({
+        user_id: userId,
+        classification_id: correction.classificationId,
+        subject: correction.subject,
+        body,
+        sentiment: correction.sentiment,
+        interest_level: correction.interestLevel,
+        category: correction.category,
+        original_sentiment: correction.originalSentiment,
+        enabled: true
+      }, {
+        onConflict: 'classification_id'
+      });
+
+    if (error) {
+      logger.error('Failed to record classification example', { classificationId: correction.classificationId, error });
+      return;
+    }
+
+    logger.info('Classification example recorded', {
+      classificationId: correction.classificationId,
+      from: correction.originalSentiment,
+      to: correction.sentiment
+    });
+  }
+
+  /**
+   * The user's enabled examples most similar to the email, best match
+   * first. Failing to load them never blocks classification.
+   */
+  async selectFor(userId: string, subject: string, body: string): Promise<FewShotExample[]> {
+    const { data: candidates, error } = await supabase
+      .from('classification_examples')
+      .select('subject, body, sentiment, interest_level, category')
+      .eq('user_id', userId)
+      .eq('enabled', true)
+      .order('created_at', { ascending: false })
+      .limit(CANDIDATE_LIMIT);
+
+    if (error) {
+      logger.warn('Failed to load classification examples, classifying without them', { userId, error });
+      return [];
+    }
+
+    if (!candidates || candidates.length === 0) return [];
+
+    const emailTokens = tokenize(`${subject} ${body}`);
+
+    return candidates
+      .map(example => ({
+        example,
+        score: jaccard(emailTokens, tokenize(`${example.subject || ''} ${example.body}`))
+      }))
+      .filter(({ score }) => score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_EXAMPLES)
+      .map(({ example }) => ({
+        subject: example.subject || '',
+        body: example.body,
+        sentiment: example.sentiment,
+        interest_level: example.interest_level,
+        category: example.category
+      }));
+  }
+
+  async list(userId: string): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('classification_examples')
+      .select(EXAMPLE_FIELDS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list classification examples', { userId, error });
+      throw new Error('Failed to list classification examples');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Edits an example. Returns null when it doesn't exist or belongs to
+   * another user.
+   */
+  async update(id: string, userId: string, changes: Record<string, any>): Promise<any | null> {
+    const { data, error } = await supabase
+      .from('classification_examples')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(EXAMPLE_FIELDS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to update classification example', { id, error });
+      throw new Error('Failed to update classification example');
+    }
+
+    return data;
+  }
+
+  async remove(id: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('classification_examples')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to delete classification example', { id, error });
+      throw new Error('Failed to delete classification example');
+    }
+
+    return Boolean(data && data.length > 0);
+  }
+}
+
+export const fewShotService = new FewShotService();
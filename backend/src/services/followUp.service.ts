@@ -0,0 +1,156 @@
+import { supabase } from '../config/supabase';
+import { timeZoneOffset } from '../utils/entityExtractor';
+import { logger } from '../utils/logger';
+
+export const FOLLOW_UP_STATUSES = ['open', 'done', 'dismissed'] as const;
+export type FollowUpStatus = typeof FOLLOW_UP_STATUSES[number];
+
+// Without a return date the follow-up comes due this many days after the
+// out-of-office reply
+const DEFAULT_OOO_FOLLOW_UP_DAYS = 7;
+
+// Follow-ups come due at this local hour of the return day, not midnight
+const FOLLOW_UP_HOUR = '09:00';
+
+const FOLLOW_UP_FIELDS = `
+  id,
+  reason,
+  return_date,
+  due_at,
+  status,
+  completed_at,
+  created_at,
+  thread:threads!inner(
+    id,
+    subject,
+    lead_email,
+    current_stage,
+    mailbox:mailboxes!inner(
+      email_address
+    )
+  ),
+  message:messages(
+    id,
+    from_address,
+    subject,
+    received_at
+  )
+`;
+
+export interface OutOfOfficeInput {
+  threadId: string;
+  messageId: string;
+  receivedAt: Date | string;
+  // YYYY-MM-DD, null when the reply didn't say
+  returnDate: string | null;
+  timeZone: string;
+}
+
+export class FollowUpService {
+  /**
+   * Records when an out-of-office sender is back and makes sure the thread
+   * has an open follow-up due then. A later out-of-office reply in the same
+   * thread moves the existing follow-up instead of adding another.
+   */
+  async scheduleOutOfOffice(userId: string, input: OutOfOfficeInput): Promise<void> {
+    const { threadId, returnDate } = input;
+
+    if (returnDate) {
+      const { error } = await supabase
+        .from('threads')
+        .update({ ooo_return_date: returnDate })
+        .eq('id', threadId);
+
+      if (error) {
+        logger.error('Failed to save out-of-office return date', { threadId, error });
+      }
+    }
+
+    const values = {
+      message_id: input.messageId,
+      return_date: returnDate,
+      due_at: this.dueAt(input)
+    };
+
+    const { data: existing } = await supabase
+      .from('follow_up_tasks')
+      .select('id')
+      .eq('thread_id', threadId)
+      .eq('reason', 'out_of_office')
+      .eq('status', 'open')
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase.from('follow_up_tasks').update(values).eq('id', existing.id)
+      : await supabase.from('follow_up_tasks').insert({
+        ...values,
+        user_id: userId,
+        thread_id: threadId,
+        reason: 'out_of_office'
+      });
+
+    if (error) {
+      logger.error('Failed to schedule out-of-office follow-up', { threadId, error });
+      return;
+    }
+
+    logger.info('Out-of-office follow-up scheduled', { threadId, returnDate, dueAt: values.due_at });
+  }
+
+  async list(userId: string, status: FollowUpStatus = 'open'): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('follow_up_tasks')
+      .select(FOLLOW_UP_FIELDS)
+      .eq('user_id', userId)
+      .eq('status', status)
+      .order('due_at', { ascending: status === 'open' })
+      .limit(100);
+
+    if (error) {
+      logger.error('Failed to load follow-ups', { userId, error });
+      throw new Error('Failed to load follow-ups');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Marks a follow-up done or dismissed, or reopens it. Returns null when
+   * it doesn't exist or belongs to someone else.
+   */
+  async updateStatus(id: string, userId: string, status: FollowUpStatus): Promise<any | null> {
+    const { data, error } = await supabase
+      .from('follow_up_tasks')
+      .update({
+        status,
+        completed_at: status === 'open' ? null : new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(FOLLOW_UP_FIELDS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to update follow-up', { id, error });
+      throw new Error('Failed to update follow-up');
+    }
+
+    return data;
+  }
+
+  /**
+   * The morning of the return day in the user's time zone, or a default
+   * delay after the reply when there is no return date.
+   */
+  private dueAt({ returnDate, receivedAt, timeZone }: OutOfOfficeInput): string {
+    if (returnDate) {
+      const noon = new Date(`${returnDate}T12:00:00Z`);
+      return new Date(`${returnDate}T${FOLLOW_UP_HOUR}:00${timeZoneOffset(timeZone, noon)}`).toISOString();
+    }
+
+    const days = parseInt(process.env.OOO_FOLLOW_UP_DEFAULT_DAYS || '') || DEFAULT_OOO_FOLLOW_UP_DAYS;
+    return new Date(new Date(receivedAt).getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+}
+
+export const followUpService = new FollowUpService();
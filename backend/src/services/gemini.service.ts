@@ -1,90 +1,218 @@
-import axios from 'axios';
 import { logger } from '../utils/logger';
+import { getProvider, ProviderName, ClassifierProvider, TokenUsage } from './providers';
+import { classificationExecutor, ModelUnavailableError } from './classificationExecutor.service';
+import {
+  buildBatchResponseSchema,
+  buildResponseSchema,
+  DEFAULT_TAXONOMY,
+  INTEREST_LEVELS,
+  Taxonomy,
+  validateBatchClassification,
+  validateClassification
+} from './classificationSchema';
+import {
+  CURRENT_BATCH_PROMPT,
+  CURRENT_BATCH_PROMPT_VERSION,
+  CURRENT_CLASSIFICATION_PROMPT,
+  CURRENT_PROMPT_VERSION,
+  renderTemplate
+} from '../prompts';
+import { ExtractedEntity, normalizeModelEntities, timeZoneOffset } from '../utils/entityExtractor';
 
 export interface ClassificationResult {
-  sentiment: 'positive' | 'warm' | 'neutral' | 'negative' | 'auto_reply' | 'out_of_office' | 'spam';
-  interest_level: 'high' | 'medium' | 'low' | 'none';
+  // A sentiment key of the user's taxonomy
+  sentiment: string;
+  interest_level: typeof INTEREST_LEVELS[number];
   summary: string;
   recommended_action: string;
   category: string;
   confidence_score?: number;
+  // Details read from the answer's entities field, already normalized
+  entities?: ExtractedEntity[];
 }
 
-export class GeminiService {
-  private apiKey: string;
-  private apiUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent';
+/**
+ * An earlier message in the same thread, passed along so short replies
+ * ("sure, Tuesday works") can be read in context.
+ */
+export interface ThreadContextMessage {
+  direction: 'inbound' | 'outbound';
+  from: string;
+  receivedAt: string;
+  body: string;
+}
 
-  constructor() {
-    this.apiKey = process.env.GEMINI_API_KEY || '';
-    if (!this.apiKey) {
-      logger.warn('Gemini API key not configured');
-    }
+/**
+ * A reply someone on the team labelled by hand, shown to the model as a
+ * worked example.
+ */
+export interface FewShotExample {
+  subject: string;
+  body: string;
+  sentiment: string;
+  interest_level: string;
+  category: string;
+}
+
+/**
+ * Which provider and model to classify with. Both fall back to the server
+ * defaults (AI_PROVIDER and the provider's default model).
+ */
+export interface ClassifyOptions {
+  provider?: ProviderName | null;
+  model?: string | null;
+  examples?: FewShotExample[];
+  // Labels to classify into; the built-in ones when not given
+  taxonomy?: Taxonomy;
+  // The sender's signature, read for contact details only
+  signature?: string | null;
+  // Relative dates in the email ("Thursday 3pm") are resolved against
+  // when it was received, in the user's time zone
+  receivedAt?: Date | string | null;
+  timeZone?: string | null;
+}
+
+/**
+ * What produced a classification: the model and prompt version, the spam
+ * rules, the auto-reply header rules or the bounce parser, plus what the
+ * call cost. Answers reused from the cache keep the model and prompt
+ * version of the call they came from.
+ */
+export interface ClassificationProvenance {
+  source: 'model' | 'cache' | 'spam_heuristic' | 'header_rules' | 'bounce';
+  provider: ProviderName | null;
+  model: string;
+  promptVersion: string | null;
+  latencyMs: number;
+  // Summed over the first attempt and the repair attempt, if any
+  usage: TokenUsage | null;
+  rawText: string | null;
+  attempts: number;
+}
+
+export interface ClassifyResponse {
+  classification: ClassificationResult;
+  provenance: ClassificationProvenance;
+}
+
+/**
+ * One email of a batch. The ID only has to be unique within the batch.
+ */
+export interface BatchEmail {
+  id: string;
+  subject: string;
+  body: string;
+  receivedAt?: Date | string | null;
+  // Earlier messages of its thread, already shortened
+  context?: ThreadContextMessage[];
+}
+
+export interface BatchClassifyResponse {
+  // By email ID. Emails the answer left out or got wrong are missing and
+  // should be classified one at a time.
+  results: Map<string, ClassifyResponse>;
+  errors: string[];
+}
+
+/**
+ * The model's answer did not pass validation, even after a repair attempt.
+ * The message should be stored for manual review rather than guessed at.
+ */
+export class InvalidClassificationError extends Error {
+  rawText: string;
+  errors: string[];
+  provenance: ClassificationProvenance | null = null;
+
+  constructor(rawText: string, errors: string[]) {
+    super(`Invalid classification: ${errors.join('; ')}`);
+    this.rawText = rawText;
+    this.errors = errors;
   }
+}
 
-  async classifyEmail(emailBody: string, subject: string): Promise<ClassificationResult> {
-    try {
-      // Check for spam patterns first (before calling AI)
-      const spamCheck = this.detectSpamPatterns(subject, emailBody);
-      if (spamCheck.isSpam) {
-        logger.info('Email detected as spam by pattern matching', { reason: spamCheck.reason });
-        return {
-          sentiment: 'spam',
-          interest_level: 'none',
-          summary: spamCheck.reason,
-          recommended_action: 'Mark as spam and ignore',
-          category: 'spam',
-          confidence_score: 0.95
-        };
-      }
+interface GenerationResult {
+  result: ClassificationResult;
+  rawText: string;
+  usage: TokenUsage | null;
+  attempts: number;
+}
 
-      const prompt = this.buildPrompt(emailBody, subject);
-      
-      const response = await axios.post(
-        `${this.apiUrl}?key=${this.apiKey}`,
-        {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.2,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 1024,
-          }
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+const addUsage = (total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null => {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens
+  };
+};
 
-      if (!response.data.candidates || response.data.candidates.length === 0) {
-        logger.error('Gemini returned no candidates', { response: response.data });
-        throw new Error('No classification candidates returned');
-      }
+export class GeminiService {
+  async classifyEmail(
+    emailBody: string,
+    subject: string,
+    context: ThreadContextMessage[] = [],
+    options: ClassifyOptions = {}
+  ): Promise<ClassifyResponse> {
+    const provider = getProvider(options.provider);
+    const model = options.model || provider.defaultModel;
+    const taxonomy = options.taxonomy || DEFAULT_TAXONOMY;
+    const startedAt = Date.now();
 
-      const candidate = response.data.candidates[0];
-      if (!candidate.content || !candidate.content.parts || candidate.content.parts.length === 0) {
-        logger.error('Gemini response missing content', { candidate });
-        throw new Error('Invalid Gemini response structure');
+    try {
+      if (!provider.isConfigured()) {
+        throw new Error(`AI provider ${provider.name} is not configured`);
       }
 
-      const text = candidate.content.parts[0].text;
-      logger.info('Gemini raw response', { text: text.substring(0, 200) });
-      
-      const result = this.parseGeminiResponse(text);
+      const receivedAt = options.receivedAt ? new Date(options.receivedAt) : new Date();
+      const timeZone = options.timeZone || 'UTC';
+      const prompt = this.buildPrompt(emailBody, subject, context, options.examples || [], taxonomy, {
+        signature: options.signature || '',
+        receivedAt,
+        timeZone
+      });
+      const generated = await this.generateValidated(provider, model, prompt, { subject, body: emailBody }, taxonomy);
+      const result = {
+        ...generated.result,
+        entities: normalizeModelEntities(generated.result.entities, { timeZone, receivedAt })
+      };
       
       logger.info('Email classified successfully', { 
+        provider: provider.name,
+        model,
         sentiment: result.sentiment,
         interest: result.interest_level,
         confidence: result.confidence_score 
       });
-      return result;
+      return {
+        classification: result,
+        provenance: {
+          source: 'model',
+          provider: provider.name,
+          model,
+          promptVersion: CURRENT_PROMPT_VERSION,
+          latencyMs: Date.now() - startedAt,
+          usage: generated.usage,
+          rawText: generated.rawText,
+          attempts: generated.attempts
+        }
+      };
     } catch (error: any) {
-      logger.error('Gemini classification error', { 
+      if (error instanceof InvalidClassificationError) {
+        logger.warn('AI classification failed validation', { provider: provider.name, model, errors: error.errors });
+        if (error.provenance) {
+          error.provenance.latencyMs = Date.now() - startedAt;
+        }
+        throw error;
+      }
+
+      // Already logged by the executor; the caller queues a retry
+      if (error instanceof ModelUnavailableError) {
+        throw error;
+      }
+
+      logger.error('AI classification error', { 
+        provider: provider.name,
+        model,
         error: error.message,
         response: error.response?.data 
       });
@@ -92,146 +220,286 @@ export class GeminiService {
     }
   }
 
-  private detectSpamPatterns(subject: string, body: string): { isSpam: boolean; reason: string } {
-    const text = `${subject} ${body}`.toLowerCase();
-    
-    // Pattern 1: Random alphanumeric codes (like 6PZGMYD, J4C5BVX)
-    // Matches 6-8 character codes with mix of letters and numbers
-    const randomCodePattern = /\b[A-Z0-9]{6,8}\b/gi;
-    const codes = text.match(randomCodePattern);
-    
-    if (codes && codes.length >= 2) {
-      // If there are 2 or more random-looking codes, likely spam
-      return {
-        isSpam: true,
-        reason: `Spam detected: Contains random tracking codes (${codes.slice(0, 2).join(', ')})`
-      };
-    }
-    
-    // Pattern 2: Subject contains random codes
-    const subjectCodes = subject.match(randomCodePattern);
-    if (subjectCodes && subjectCodes.length >= 1) {
-      return {
-        isSpam: true,
-        reason: `Spam detected: Subject contains tracking code (${subjectCodes[0]})`
-      };
-    }
-    
-    // Pattern 3: Common spam phrases with codes
-    const spamPhrases = [
-      'who should i call',
-      'who do i speak with',
-      'who handles',
-      'who is responsible for'
-    ];
-    
-    const hasSpamPhrase = spamPhrases.some(phrase => text.includes(phrase));
-    if (hasSpamPhrase && codes && codes.length >= 1) {
-      return {
-        isSpam: true,
-        reason: `Spam detected: Generic question with tracking code (${codes[0]})`
-      };
+  /**
+   * Classifies several emails in one request, which saves sending the
+   * guidelines once per email. There is no repair attempt: whatever the
+   * answer gets wrong is left out of the results, and a failed call leaves
+   * them all out. ModelUnavailableError is thrown as is, since single
+   * calls would fail the same way.
+   */
+  async classifyBatch(emails: BatchEmail[], options: ClassifyOptions = {}): Promise<BatchClassifyResponse> {
+    const provider = getProvider(options.provider);
+    const model = options.model || provider.defaultModel;
+    const taxonomy = options.taxonomy || DEFAULT_TAXONOMY;
+    const timeZone = options.timeZone || 'UTC';
+    const results = new Map<string, ClassifyResponse>();
+    const startedAt = Date.now();
+
+    try {
+      if (!provider.isConfigured()) {
+        throw new Error(`AI provider ${provider.name} is not configured`);
+      }
+
+      const prompt = this.buildBatchPrompt(emails, options.examples || [], taxonomy, timeZone);
+      const response = await classificationExecutor.generate(provider, {
+        prompt,
+        model,
+        responseSchema: buildBatchResponseSchema(taxonomy)
+      });
+      const latencyMs = Date.now() - startedAt;
+
+      const { values, errors } = validateBatchClassification(response.text, emails.map(email => email.id), taxonomy);
+      // Usage is only reported for the whole request, so each email is
+      // charged an equal share
+      const usage = response.usage ? {
+        promptTokens: Math.round(response.usage.promptTokens / emails.length),
+        completionTokens: Math.round(response.usage.completionTokens / emails.length)
+      } : null;
+
+      for (const email of emails) {
+        const value = values.get(email.id);
+        if (!value) continue;
+
+        const receivedAt = email.receivedAt ? new Date(email.receivedAt) : new Date();
+        const classification = {
+          ...value,
+          entities: normalizeModelEntities(value.entities, { timeZone, receivedAt })
+        } as ClassificationResult;
+
+        results.set(email.id, {
+          classification,
+          provenance: {
+            source: 'model',
+            provider: provider.name,
+            model,
+            promptVersion: CURRENT_BATCH_PROMPT_VERSION,
+            latencyMs,
+            usage,
+            rawText: JSON.stringify({ id: email.id, ...value }),
+            attempts: 1
+          }
+        });
+      }
+
+      logger.info('Email batch classified', {
+        provider: provider.name,
+        model,
+        emails: emails.length,
+        classified: results.size,
+        errors: errors.slice(0, 5)
+      });
+      return { results, errors };
+    } catch (error: any) {
+      if (error instanceof ModelUnavailableError) {
+        throw error;
+      }
+
+      logger.warn('AI batch classification failed', {
+        provider: provider.name,
+        model,
+        emails: emails.length,
+        error: error.message,
+        response: error.response?.data
+      });
+      return { results, errors: [error.message] };
     }
-    
-    return { isSpam: false, reason: '' };
   }
 
-  private buildPrompt(emailBody: string, subject: string): string {
-    return `You are an assistant that classifies replies to B2B outbound sales emails.
+  private buildBatchPrompt(emails: BatchEmail[], examples: FewShotExample[], taxonomy: Taxonomy, timeZone: string): string {
+    const items = emails.map(email => renderTemplate(CURRENT_BATCH_PROMPT.item, {
+      id: email.id,
+      receivedAt: this.formatReceivedAt(email.receivedAt ? new Date(email.receivedAt) : new Date(), timeZone),
+      subject: email.subject,
+      context: this.buildBatchContext(email.context || []),
+      body: email.body
+    }));
 
-Given the EMAIL below, respond in valid JSON only with these fields:
-- sentiment: one of ["positive", "warm", "neutral", "negative", "auto_reply", "out_of_office", "spam"]
-- interest_level: one of ["high", "medium", "low", "none"]
-- summary: short 1-2 sentence summary of the email
-- recommended_action: short suggestion for the sales team (max 20 words)
-- category: high-level tag like "demo_request", "pricing", "not_interested", "follow_up_later", "job_application", "other"
-- confidence_score: a number between 0 and 1 indicating your confidence in the classification
+    return renderTemplate(CURRENT_BATCH_PROMPT.main, {
+      count: String(emails.length),
+      sentimentKeys: JSON.stringify(taxonomy.sentiments.map(sentiment => sentiment.key)),
+      interestLevels: JSON.stringify(INTEREST_LEVELS),
+      categoryKeys: JSON.stringify(taxonomy.categories.map(category => category.key)),
+      sentiments: this.buildSentiments(taxonomy),
+      categories: this.buildCategories(taxonomy),
+      examples: this.buildExamples(examples),
+      timeZone,
+      emails: items.join('\n\n')
+    });
+  }
 
-Classification Guidelines:
+  private buildContext(context: ThreadContextMessage[]): string {
+    if (context.length === 0) return '';
 
-**POSITIVE** - Clear interest, wants to move forward:
-- Requesting demo, call, meeting, or pricing
-- "Let's schedule a call", "I'm interested", "Send me more info"
+    const messages = context.map(message => renderTemplate(CURRENT_CLASSIFICATION_PROMPT.contextMessage, {
+      author: message.direction === 'outbound' ? 'US' : 'THEM',
+      from: message.from,
+      receivedAt: message.receivedAt,
+      body: message.body
+    }));
 
-**WARM** - Polite response with potential future interest:
-- "Not right now, but maybe later"
-- "Keep us in mind for the future"
-- "We'll reach out if needed"
-- "Thank you, we'll consider it"
-- Polite acknowledgment with door left open
+    return renderTemplate(CURRENT_CLASSIFICATION_PROMPT.context, { messages: messages.join('\n\n') });
+  }
 
-**NEUTRAL** - Simple acknowledgment without clear sentiment:
-- Generic "Thank you for reaching out"
-- No indication of interest or disinterest
+  private buildBatchContext(context: ThreadContextMessage[]): string {
+    if (context.length === 0) return '';
 
-**NEGATIVE** - Clear rejection with no future interest:
-- "Not interested", "Please remove us", "Stop contacting"
-- Harsh or rude rejection
-- Explicit request to stop communication
+    const messages = context.map(message => renderTemplate(CURRENT_BATCH_PROMPT.contextMessage || '', {
+      author: message.direction === 'outbound' ? 'US' : 'THEM',
+      receivedAt: message.receivedAt,
+      body: message.body
+    }));
 
-**AUTO_REPLY** - Automated response:
-- Auto-responders, chatbots
-- Bounce-back emails (e.g., "Undelivered Mail", "Mail Delivery Failed", "Returned to Sender")
-- "Thank you for contacting us" automated messages
-- Email delivery failure notifications
-- System-generated messages
+    return renderTemplate(CURRENT_BATCH_PROMPT.context || '', { messages: messages.join('\n') });
+  }
 
-**OUT_OF_OFFICE** - Out of office message (human-set auto-reply)
+  private buildExamples(examples: FewShotExample[]): string {
+    if (examples.length === 0) return '';
 
-**SPAM** - Spam, unrelated, or junk email:
-- Emails with random tracking codes (e.g., "6PZGMYD", "J4C5BVX")
-- Generic questions with tracking codes like "who should I call | CODE123"
-- Unrelated marketing or promotional content
-- Suspicious or phishing attempts
+    const worked = examples.map(example => renderTemplate(CURRENT_CLASSIFICATION_PROMPT.example, {
+      subject: example.subject,
+      body: example.body,
+      labels: JSON.stringify({
+        sentiment: example.sentiment,
+        interest_level: example.interest_level,
+        category: example.category
+      })
+    }));
 
-IMPORTANT: If the email is polite and mentions "future", "later", "keep in touch", or "reach out if needed", classify as WARM, not negative!
+    return renderTemplate(CURRENT_CLASSIFICATION_PROMPT.examples, { examples: worked.join('\n\n') });
+  }
 
-SUBJECT: ${subject}
+  private buildSentiments(taxonomy: Taxonomy): string {
+    const template = CURRENT_CLASSIFICATION_PROMPT;
 
-EMAIL TEXT:
-"""
-${emailBody}
-"""
+    return taxonomy.sentiments.map(sentiment => renderTemplate(template.sentiment || '', {
+      key: sentiment.key,
+      label: sentiment.label,
+      description: sentiment.description,
+      examples: sentiment.examples
+        .map(text => renderTemplate(template.sentimentExample || '', { text }))
+        .join('')
+    })).join('\n\n');
+  }
 
-Respond with ONLY valid JSON, no other text.`;
+  private buildCategories(taxonomy: Taxonomy): string {
+    return taxonomy.categories.map(category => renderTemplate(CURRENT_CLASSIFICATION_PROMPT.category || '', {
+      key: category.key,
+      label: category.label,
+      description: category.description
+    })).join('\n');
   }
 
-  private parseGeminiResponse(text: string): ClassificationResult {
+  /**
+   * When the email arrived, in the user's time zone, e.g.
+   * "Tuesday, October 20, 2026 at 09:14 (UTC+02:00)".
+   */
+  private formatReceivedAt(receivedAt: Date, timeZone: string): string {
+    const options: Intl.DateTimeFormatOptions = {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    };
+
+    let formatted: string;
     try {
-      // Remove markdown code blocks if present
-      let cleanText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      
-      // Try to extract JSON if there's extra text
-      const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanText = jsonMatch[0];
-      }
-      
-      logger.info('Attempting to parse JSON', { cleanText: cleanText.substring(0, 300) });
-      const parsed = JSON.parse(cleanText);
-      
-      return {
-        sentiment: parsed.sentiment || 'neutral',
-        interest_level: parsed.interest_level || 'none',
-        summary: parsed.summary || 'No summary available',
-        recommended_action: parsed.recommended_action || 'Review manually',
-        category: parsed.category || 'other',
-        confidence_score: parsed.confidence_score || 0.5
-      };
-    } catch (error: any) {
-      logger.error('Failed to parse Gemini response', { 
-        text: text.substring(0, 500),
-        error: error.message 
-      });
-      return {
-        sentiment: 'neutral',
-        interest_level: 'none',
-        summary: 'Failed to analyze email - Invalid AI response format',
-        recommended_action: 'Review manually',
-        category: 'other',
-        confidence_score: 0
-      };
+      formatted = new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(receivedAt);
+    } catch {
+      formatted = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(receivedAt);
+    }
+
+    return `${formatted} (UTC${timeZoneOffset(timeZone, receivedAt)})`;
+  }
+
+  private buildSignature(signature: string): string {
+    if (!signature.trim()) return '';
+    return renderTemplate(CURRENT_CLASSIFICATION_PROMPT.signature || '', { signature: signature.trim() });
+  }
+
+  private buildPrompt(
+    emailBody: string,
+    subject: string,
+    context: ThreadContextMessage[],
+    examples: FewShotExample[],
+    taxonomy: Taxonomy,
+    { signature, receivedAt, timeZone }: { signature: string; receivedAt: Date; timeZone: string }
+  ): string {
+    return renderTemplate(CURRENT_CLASSIFICATION_PROMPT.main, {
+      sentimentKeys: JSON.stringify(taxonomy.sentiments.map(sentiment => sentiment.key)),
+      interestLevels: JSON.stringify(INTEREST_LEVELS),
+      categoryKeys: JSON.stringify(taxonomy.categories.map(category => category.key)),
+      sentiments: this.buildSentiments(taxonomy),
+      categories: this.buildCategories(taxonomy),
+      examples: this.buildExamples(examples),
+      context: this.buildContext(context),
+      receivedAt: this.formatReceivedAt(receivedAt, timeZone),
+      timeZone,
+      signature: this.buildSignature(signature),
+      subject,
+      body: emailBody
+    });
+  }
+
+  /**
+   * Asks the provider for a classification and validates it. An invalid
+   * answer gets one repair attempt, with the validation errors sent back
+   * to the model. Calls go through the executor, which rate limits and
+   * retries them.
+   */
+  private async generateValidated(
+    provider: ClassifierProvider,
+    model: string,
+    prompt: string,
+    email: { subject: string; body: string },
+    taxonomy: Taxonomy
+  ): Promise<GenerationResult> {
+    const request = { model, email, taxonomy, responseSchema: buildResponseSchema(taxonomy) };
+
+    const first = await classificationExecutor.generate(provider, { ...request, prompt });
+    logger.info('AI raw response', { provider: provider.name, model, text: first.text.substring(0, 200) });
+
+    const firstCheck = validateClassification(first.text, taxonomy);
+    if (firstCheck.value) {
+      return { result: firstCheck.value as ClassificationResult, rawText: first.text, usage: first.usage, attempts: 1 };
+    }
+
+    logger.warn('AI response failed validation, asking for a repair', { errors: firstCheck.errors });
+
+    const repaired = await classificationExecutor.generate(provider, {
+      ...request,
+      prompt: this.buildRepairPrompt(prompt, first.text, firstCheck.errors)
+    });
+    const usage = addUsage(first.usage, repaired.usage);
+
+    const repairedCheck = validateClassification(repaired.text, taxonomy);
+    if (repairedCheck.value) {
+      return { result: repairedCheck.value as ClassificationResult, rawText: repaired.text, usage, attempts: 2 };
     }
+
+    const error = new InvalidClassificationError(repaired.text, repairedCheck.errors);
+    error.provenance = {
+      source: 'model',
+      provider: provider.name,
+      model,
+      promptVersion: CURRENT_PROMPT_VERSION,
+      // Filled in by classifyEmail, which times the whole call
+      latencyMs: 0,
+      usage,
+      rawText: repaired.text,
+      attempts: 2
+    };
+    throw error;
+  }
+
+  private buildRepairPrompt(prompt: string, previousAnswer: string, errors: string[]): string {
+    return renderTemplate(CURRENT_CLASSIFICATION_PROMPT.repair, {
+      prompt,
+      previousAnswer: previousAnswer.substring(0, 2000),
+      errors: errors.map(error => `- ${error}`).join('\n')
+    });
   }
 }
 
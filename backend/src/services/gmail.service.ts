@@ -14,9 +14,67 @@ export interface EmailMessage {
   bodyHtml: string;
   receivedAt: Date;
   isRead: boolean;
+  labelIds: string[];
+  // RFC 5322 threading headers, used to link replies to what they answer
+  rfcMessageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  // Top-level content type; bounces are multipart/report
+  mimeType: string;
+  // Text of the message/delivery-status part of a bounce, if any
+  deliveryStatus: string | null;
+  // Every header by lower-cased name; repeated headers are joined by
+  // newlines
+  headers: Record<string, string>;
+}
+
+export interface HistoryChanges {
+  historyId: string;
+  addedMessageIds: string[];
+  deletedMessageIds: string[];
+}
+
+export interface MessagePage {
+  messageIds: string[];
+  nextPageToken: string | null;
+  resultSizeEstimate: number;
+}
+
+export interface WatchResult {
+  historyId: string | null;
+  expiresAt: Date | null;
+}
+
+const DELIVERY_STATUS_TYPES = ['message/delivery-status', 'message/global-delivery-status'];
+
+const findPart = (
+  part: gmail_v1.Schema$MessagePart | undefined,
+  mimeTypes: string[]
+): gmail_v1.Schema$MessagePart | null => {
+  if (!part) return null;
+  if (part.mimeType && mimeTypes.includes(part.mimeType.toLowerCase())) return part;
+  for (const child of part.parts || []) {
+    const found = findPart(child, mimeTypes);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * The message no longer exists in Gmail, e.g. it was deleted between
+ * being listed and being fetched. Asking again won't bring it back.
+ */
+export class GmailNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Gmail message ${messageId} not found`);
+  }
 }
 
 export class GmailService {
+  /**
+   * Fetches and parses one message. Throws GmailNotFoundError when Gmail
+   * no longer has it; returns null on any other failure.
+   */
   async fetchMessage(
     accessToken: string,
     refreshToken: string,
@@ -39,8 +97,28 @@ export class GmailService {
       }
 
       logger.info('Gmail message fetched, parsing...', { messageId });
-      return this.parseMessage(message);
+      const parsed = this.parseMessage(message);
+
+      // Gmail sometimes keeps the delivery-status part of a bounce as an
+      // attachment rather than inline
+      const reportPart = findPart(message.payload, DELIVERY_STATUS_TYPES);
+      if (!parsed.deliveryStatus && reportPart?.body?.attachmentId) {
+        const attachment = await gmail.users.messages.attachments.get({
+          userId: 'me',
+          messageId,
+          id: reportPart.body.attachmentId
+        });
+        if (attachment.data.data) {
+          parsed.deliveryStatus = Buffer.from(attachment.data.data, 'base64').toString('utf-8');
+        }
+      }
+
+      return parsed;
     } catch (error: any) {
+      if (error.code === 404 || error.response?.status === 404) {
+        logger.warn('Gmail message not found', { messageId });
+        throw new GmailNotFoundError(messageId);
+      }
       logger.error('Failed to fetch Gmail message', { 
         messageId, 
         error: error.message,
@@ -53,6 +131,35 @@ export class GmailService {
     }
   }
 
+  /**
+   * Fetches every message in a Gmail thread, oldest first. Returns null on
+   * failure.
+   */
+  async fetchThread(
+    accessToken: string,
+    refreshToken: string,
+    threadId: string
+  ): Promise<EmailMessage[] | null> {
+    try {
+      const gmail = getGmailClient(accessToken, refreshToken);
+
+      const response = await gmail.users.threads.get({
+        userId: 'me',
+        id: threadId,
+        format: 'full'
+      });
+
+      return (response.data.messages || []).map(message => this.parseMessage(message));
+    } catch (error: any) {
+      logger.error('Failed to fetch Gmail thread', {
+        threadId,
+        error: error.message,
+        code: error.code
+      });
+      return null;
+    }
+  }
+
   async listMessages(
     accessToken: string,
     refreshToken: string,
@@ -75,23 +182,135 @@ export class GmailService {
     }
   }
 
+  /**
+   * Reads a single page of `users.messages.list`. Unlike listMessages this
+   * throws on failure, so callers walking many pages can retry or resume.
+   */
+  async listMessagePage(
+    accessToken: string,
+    refreshToken: string,
+    query: string,
+    pageToken?: string,
+    maxResults: number = 100
+  ): Promise<MessagePage> {
+    const gmail = getGmailClient(accessToken, refreshToken);
+
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      q: query,
+      pageToken,
+      maxResults
+    });
+
+    return {
+      messageIds: response.data.messages?.map(m => m.id!).filter(Boolean) || [],
+      nextPageToken: response.data.nextPageToken || null,
+      resultSizeEstimate: response.data.resultSizeEstimate || 0
+    };
+  }
+
+  async getCurrentHistoryId(
+    accessToken: string,
+    refreshToken: string
+  ): Promise<string | null> {
+    try {
+      const gmail = getGmailClient(accessToken, refreshToken);
+
+      const response = await gmail.users.getProfile({ userId: 'me' });
+
+      return response.data.historyId || null;
+    } catch (error) {
+      logger.error('Failed to fetch Gmail profile', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Lists messages added to or deleted from a label since `startHistoryId`.
+   * Returns null when Gmail no longer has history for that ID (HTTP 404),
+   * in which case the caller has to fall back to a full resync.
+   */
+  async listHistory(
+    accessToken: string,
+    refreshToken: string,
+    startHistoryId: string,
+    labelId: string = 'INBOX'
+  ): Promise<HistoryChanges | null> {
+    const gmail = getGmailClient(accessToken, refreshToken);
+
+    const added = new Set<string>();
+    const deleted = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          labelId,
+          historyTypes: ['messageAdded', 'messageDeleted'],
+          pageToken
+        });
+
+        for (const record of response.data.history || []) {
+          for (const { message } of record.messagesAdded || []) {
+            if (message?.id) added.add(message.id);
+          }
+          for (const { message } of record.messagesDeleted || []) {
+            if (message?.id) {
+              added.delete(message.id);
+              deleted.add(message.id);
+            }
+          }
+        }
+
+        historyId = response.data.historyId || historyId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error: any) {
+      if (error.code === 404 || error.response?.status === 404) {
+        logger.warn('Gmail history ID expired', { startHistoryId });
+        return null;
+      }
+      logger.error('Failed to list Gmail history', {
+        startHistoryId,
+        error: error.message,
+        status: error.response?.status
+      });
+      throw error;
+    }
+
+    return {
+      historyId,
+      addedMessageIds: [...added],
+      deletedMessageIds: [...deleted]
+    };
+  }
+
   async setupWatch(
     accessToken: string,
     refreshToken: string,
     topicName: string
-  ): Promise<void> {
+  ): Promise<WatchResult> {
     try {
       const gmail = getGmailClient(accessToken, refreshToken);
       
-      await gmail.users.watch({
+      const response = await gmail.users.watch({
         userId: 'me',
         requestBody: {
           topicName,
-          labelIds: ['INBOX']
+          // Sent mail too, so reply rates count every email sent
+          labelIds: ['INBOX', 'SENT']
         }
       });
 
       logger.info('Gmail watch setup successfully');
+
+      return {
+        historyId: response.data.historyId || null,
+        expiresAt: response.data.expiration ? new Date(Number(response.data.expiration)) : null
+      };
     } catch (error) {
       logger.error('Failed to setup Gmail watch', { error });
       throw error;
@@ -109,8 +328,20 @@ export class GmailService {
     const cc = getHeader('cc').split(',').map(e => e.trim()).filter(Boolean);
     const subject = getHeader('subject');
     const dateStr = getHeader('date');
+    const rfcMessageId = getHeader('message-id').trim();
+    const inReplyTo = getHeader('in-reply-to').trim();
+    const references = getHeader('references').match(/<[^>]+>/g) || [];
+
+    const allHeaders: Record<string, string> = {};
+    for (const header of headers) {
+      if (!header.name) continue;
+      const name = header.name.toLowerCase();
+      const value = header.value || '';
+      allHeaders[name] = name in allHeaders ? `${allHeaders[name]}\n${value}` : value;
+    }
 
     const { bodyPlain, bodyHtml } = this.extractBody(message.payload);
+    const reportData = findPart(message.payload, DELIVERY_STATUS_TYPES)?.body?.data;
     
     // Check if message is read (doesn't have UNREAD label)
     const isRead = !message.labelIds?.includes('UNREAD');
@@ -126,7 +357,14 @@ export class GmailService {
       bodyPlain,
       bodyHtml,
       receivedAt: dateStr ? new Date(dateStr) : new Date(),
-      isRead
+      isRead,
+      labelIds: message.labelIds || [],
+      rfcMessageId: rfcMessageId || null,
+      inReplyTo: inReplyTo || null,
+      references,
+      mimeType: message.payload?.mimeType || '',
+      deliveryStatus: reportData ? Buffer.from(reportData, 'base64').toString('utf-8') : null,
+      headers: allHeaders
     };
   }
 
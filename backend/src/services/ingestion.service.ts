@@ -0,0 +1,574 @@
+import { supabase } from '../config/supabase';
+import { gmailService, EmailMessage, GmailNotFoundError } from './gmail.service';
+import { ClassificationResult } from './gemini.service';
+import { classificationService, ClassificationRun, ClassifyOutcome, ClassifyTarget, ReclassifyOptions } from './classification.service';
+import { CacheLookup } from './classificationCache.service';
+import { syncJobService } from './syncJob.service';
+import type { SyncProgress } from './sync.service';
+import { logger } from '../utils/logger';
+import { parseReply } from '../utils/replyParser';
+import { BounceSource, isDeliveryReport, parseBounces } from '../utils/bounceParser';
+
+export type IngestionStage = 'lookup' | 'fetch' | 'thread' | 'store';
+
+/**
+ * What happened to one Gmail message:
+ * - stored: new message saved (classification is null if the AI call failed)
+ * - outbound: new message sent from the mailbox itself, saved unclassified
+ * - classified_existing: message was already saved but had no classification
+ * - skipped: message and classification already exist, nothing to do
+ * - missing: message no longer exists in Gmail, nothing to retry
+ * - failed: processing stopped at `stage`
+ *
+ * `cache` is whether the classification reused an earlier identical
+ * reply's answer, null when the cache wasn't looked at. `deferred` means
+ * the AI provider was unavailable and a classify job was queued to try
+ * again.
+ */
+export type IngestionOutcome =
+  | { status: 'stored'; gmailMessageId: string; messageId: string; classification: ClassificationResult | null; cache: CacheLookup | null; deferred: boolean }
+  | { status: 'outbound'; gmailMessageId: string; messageId: string }
+  | { status: 'classified_existing'; gmailMessageId: string; messageId: string; classification: ClassificationResult | null; cache: CacheLookup | null; deferred: boolean }
+  | { status: 'skipped'; gmailMessageId: string; messageId: string }
+  | { status: 'missing'; gmailMessageId: string }
+  | { status: 'failed'; gmailMessageId: string; stage: IngestionStage; error: string };
+
+const EXISTING_FIELDS = 'id, thread_id, direction, from_address, received_at, body_plain, body_new_content, body_signature, snippet, subject, headers';
+
+const PENDING_PAGE_SIZE = 50;
+
+type ClassifiedOutcome = Extract<IngestionOutcome, { status: 'stored' | 'classified_existing' }>;
+
+/**
+ * A reply ingestMany stored and will classify with the rest of its batch.
+ * `outcome` is filled in once it has been.
+ */
+interface QueuedClassification {
+  target: ClassifyTarget;
+  source: BounceSource;
+  outcome: ClassifiedOutcome;
+}
+
+export class IngestionService {
+  /**
+   * Ingests a message by Gmail ID. Messages already in the database are
+   * not fetched from Gmail again.
+   */
+  async ingestMessage(mailbox: any, gmailMessageId: string): Promise<IngestionOutcome> {
+    return this.ingest(mailbox, gmailMessageId, null);
+  }
+
+  /**
+   * Ingests several messages by Gmail ID, classifying the replies among
+   * them together (see ClassificationService.classifyBatch) once they're
+   * all stored. Outcomes are in the order of `gmailMessageIds`.
+   */
+  async ingestMany(mailbox: any, gmailMessageIds: string[]): Promise<IngestionOutcome[]> {
+    const queue: QueuedClassification[] = [];
+    const outcomes: IngestionOutcome[] = [];
+    for (const gmailMessageId of gmailMessageIds) {
+      outcomes.push(await this.ingest(mailbox, gmailMessageId, queue));
+    }
+
+    // Delivery reports go to the bounce parser, one at a time as usual
+    const replies: QueuedClassification[] = [];
+    for (const item of queue) {
+      if (isDeliveryReport(item.source)) {
+        Object.assign(item.outcome, this.summarize(await this.classify(mailbox, item.target, item.source)));
+      } else {
+        replies.push(item);
+      }
+    }
+
+    if (replies.length > 0) {
+      const results = await classificationService.classifyBatch(mailbox.user_id, replies.map(item => item.target));
+      replies.forEach((item, index) => Object.assign(item.outcome, this.summarize(results[index])));
+
+      const retryAfterMs = Math.max(...results.map(result => result.status === 'deferred' ? result.retryAfterMs : -1));
+      if (retryAfterMs >= 0) {
+        await this.queueRetry(mailbox, retryAfterMs);
+      }
+    }
+
+    return outcomes;
+  }
+
+  private async ingest(mailbox: any, gmailMessageId: string, queue: QueuedClassification[] | null): Promise<IngestionOutcome> {
+    const existing = await this.findExisting(gmailMessageId);
+    if (existing === undefined) {
+      return this.failed(gmailMessageId, 'lookup', 'Failed to look up message');
+    }
+    if (existing) {
+      return this.handleExisting(mailbox, existing, gmailMessageId, queue);
+    }
+
+    let parsedMessage: EmailMessage | null;
+    try {
+      parsedMessage = await gmailService.fetchMessage(
+        mailbox.access_token_encrypted,
+        mailbox.refresh_token_encrypted,
+        gmailMessageId
+      );
+    } catch (error) {
+      if (error instanceof GmailNotFoundError) {
+        return { status: 'missing', gmailMessageId };
+      }
+      throw error;
+    }
+
+    if (!parsedMessage) {
+      return this.failed(gmailMessageId, 'fetch', 'Failed to fetch message from Gmail');
+    }
+
+    return this.store(mailbox, parsedMessage, queue);
+  }
+
+  /**
+   * Ingests a message that has already been fetched and parsed, e.g. by an
+   * importer that reads Gmail itself.
+   */
+  async ingestParsed(mailbox: any, parsedMessage: EmailMessage): Promise<IngestionOutcome> {
+    const existing = await this.findExisting(parsedMessage.id);
+    if (existing === undefined) {
+      return this.failed(parsedMessage.id, 'lookup', 'Failed to look up message');
+    }
+    if (existing) {
+      return this.handleExisting(mailbox, existing, parsedMessage.id, null);
+    }
+
+    return this.store(mailbox, parsedMessage, null);
+  }
+
+  /**
+   * Saves a new message and classifies it, or with a `queue` leaves the
+   * classification to the caller.
+   */
+  private async store(mailbox: any, parsedMessage: EmailMessage, queue: QueuedClassification[] | null): Promise<IngestionOutcome> {
+    const gmailMessageId = parsedMessage.id;
+
+    const threadId = await this.upsertThread(mailbox.id, parsedMessage);
+    if (!threadId) {
+      return this.failed(gmailMessageId, 'thread', 'Failed to create thread');
+    }
+
+    if (parsedMessage.labelIds.includes('SENT')) {
+      const messageId = await this.storeOutbound(threadId, parsedMessage);
+      if (!messageId) {
+        return this.failed(gmailMessageId, 'store', 'Failed to insert message');
+      }
+      return { status: 'outbound', gmailMessageId, messageId };
+    }
+
+    // When the email it answers isn't stored yet, bring in what the mailbox
+    // sent in this thread first so the reply can be linked to it
+    let repliedToMessageId = await this.findRepliedTo(threadId, parsedMessage, false);
+    if (!repliedToMessageId) {
+      await this.storeThreadOutbound(mailbox, threadId, parsedMessage.threadId);
+      repliedToMessageId = await this.findRepliedTo(threadId, parsedMessage, true);
+    }
+
+    const row = this.toRow(threadId, parsedMessage);
+    const { data: insertedMessage, error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        ...row,
+        direction: 'inbound',
+        replied_to_message_id: repliedToMessageId
+      })
+      .select('id')
+      .single();
+
+    // A sync and a backfill can both reach a new message before either has
+    // stored it; whoever inserted it first classifies it too
+    if (messageError?.code === '23505') {
+      const stored = await this.findExisting(gmailMessageId);
+      if (stored) {
+        logger.info('Message stored concurrently, skipping', { gmailMessageId, dbId: stored.id });
+        return { status: 'skipped', gmailMessageId, messageId: stored.id };
+      }
+    }
+
+    if (messageError || !insertedMessage) {
+      logger.error('Failed to insert message into database', {
+        error: messageError,
+        gmailMessageId,
+        subject: parsedMessage.subject
+      });
+      return this.failed(gmailMessageId, 'store', 'Failed to insert message');
+    }
+
+    logger.info('Message inserted into database', { gmailMessageId, dbId: insertedMessage.id });
+
+    const target: ClassifyTarget = {
+      messageId: insertedMessage.id,
+      threadId,
+      receivedAt: parsedMessage.receivedAt,
+      body: row.body_new_content || parsedMessage.snippet || '',
+      subject: parsedMessage.subject || '',
+      signature: row.body_signature,
+      fromAddress: parsedMessage.from,
+      headers: parsedMessage.headers
+    };
+
+    if (queue) {
+      const outcome: ClassifiedOutcome = { status: 'stored', gmailMessageId, messageId: insertedMessage.id, ...this.summarize(null) };
+      queue.push({ target, source: parsedMessage, outcome });
+      return outcome;
+    }
+
+    const outcome = await this.classify(mailbox, target, parsedMessage);
+    return { status: 'stored', gmailMessageId, messageId: insertedMessage.id, ...this.summarize(outcome) };
+  }
+
+  /**
+   * Saves messages the mailbox sent in a thread that are not stored yet.
+   * Failures are logged and otherwise ignored; the reply is still stored,
+   * just without a link.
+   */
+  private async storeThreadOutbound(mailbox: any, threadId: string, gmailThreadId: string): Promise<void> {
+    const threadMessages = await gmailService.fetchThread(
+      mailbox.access_token_encrypted,
+      mailbox.refresh_token_encrypted,
+      gmailThreadId
+    );
+    if (!threadMessages) return;
+
+    const sent = threadMessages.filter(m => m.labelIds.includes('SENT'));
+    if (sent.length === 0) return;
+
+    const { data: known, error } = await supabase
+      .from('messages')
+      .select('gmail_message_id')
+      .in('gmail_message_id', sent.map(m => m.id));
+
+    if (error) {
+      logger.error('Failed to look up sent messages', { gmailThreadId, error });
+      return;
+    }
+
+    const knownIds = new Set((known || []).map(m => m.gmail_message_id));
+    for (const message of sent) {
+      if (!knownIds.has(message.id)) {
+        await this.storeOutbound(threadId, message);
+      }
+    }
+  }
+
+  private async storeOutbound(threadId: string, parsedMessage: EmailMessage): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('messages')
+      .upsert({
+        ...this.toRow(threadId, parsedMessage),
+        direction: 'outbound'
+      }, {
+        onConflict: 'gmail_message_id'
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to insert sent message', { error, gmailMessageId: parsedMessage.id });
+      return null;
+    }
+
+    logger.info('Sent message stored', { gmailMessageId: parsedMessage.id, dbId: data.id });
+
+    await supabase
+      .from('threads')
+      .update({ current_stage: 'contacted', stage_updated_at: new Date().toISOString() })
+      .eq('id', threadId)
+      .is('current_stage', null);
+
+    return data.id;
+  }
+
+  /**
+   * Finds the stored outbound message a reply answers: the one named in
+   * In-Reply-To, else the most recent one listed in References. Some
+   * clients drop both headers, so with `fallback` the last email sent in
+   * the thread before the reply arrived is used instead.
+   */
+  private async findRepliedTo(threadId: string, parsedMessage: EmailMessage, fallback: boolean): Promise<string | null> {
+    const { data: outbound, error } = await supabase
+      .from('messages')
+      .select('id, rfc_message_id, received_at')
+      .eq('thread_id', threadId)
+      .eq('direction', 'outbound')
+      .order('received_at', { ascending: false });
+
+    if (error || !outbound || outbound.length === 0) return null;
+
+    const candidates = [
+      parsedMessage.inReplyTo,
+      ...[...parsedMessage.references].reverse()
+    ].filter(Boolean);
+
+    for (const rfcMessageId of candidates) {
+      const match = outbound.find(m => m.rfc_message_id === rfcMessageId);
+      if (match) return match.id;
+    }
+
+    if (!fallback) return null;
+
+    const earlier = outbound.find(m => new Date(m.received_at) <= parsedMessage.receivedAt);
+    return earlier?.id || null;
+  }
+
+  private toRow(threadId: string, parsedMessage: EmailMessage) {
+    // Quoted history and signatures are kept out of the classifier's input;
+    // body_plain still has the full text
+    const reply = parseReply(parsedMessage.bodyPlain);
+
+    return {
+      thread_id: threadId,
+      gmail_message_id: parsedMessage.id,
+      rfc_message_id: parsedMessage.rfcMessageId,
+      in_reply_to: parsedMessage.inReplyTo,
+      reference_ids: parsedMessage.references,
+      from_address: parsedMessage.from,
+      to_addresses: parsedMessage.to,
+      cc_addresses: parsedMessage.cc,
+      subject: parsedMessage.subject,
+      snippet: parsedMessage.snippet,
+      body_plain: parsedMessage.bodyPlain,
+      body_html: parsedMessage.bodyHtml,
+      body_new_content: reply.newContent || null,
+      body_signature: reply.signature || null,
+      headers: parsedMessage.headers,
+      received_at: parsedMessage.receivedAt,
+      is_read: parsedMessage.isRead
+    };
+  }
+
+  private async handleExisting(
+    mailbox: any,
+    existing: any,
+    gmailMessageId: string,
+    queue: QueuedClassification[] | null
+  ): Promise<IngestionOutcome> {
+    // classifications.message_id is unique, so PostgREST may embed a single
+    // object instead of an array
+    const classifications = existing.classifications;
+    const isClassified = Array.isArray(classifications) ? classifications.length > 0 : Boolean(classifications);
+    // Sent mail is listed by syncs too, and is never classified
+    if (isClassified || existing.direction === 'outbound') {
+      return { status: 'skipped', gmailMessageId, messageId: existing.id };
+    }
+
+    logger.info('Message exists but not classified, classifying now', { gmailMessageId });
+
+    if (queue) {
+      const outcome: ClassifiedOutcome = { status: 'classified_existing', gmailMessageId, messageId: existing.id, ...this.summarize(null) };
+      queue.push({ ...this.existingTarget(existing), outcome });
+      return outcome;
+    }
+
+    const outcome = await this.classifyExisting(mailbox, existing);
+
+    return { status: 'classified_existing', gmailMessageId, messageId: existing.id, ...this.summarize(outcome) };
+  }
+
+  /**
+   * Classifies the mailbox's stored replies that have no classification,
+   * e.g. because the AI provider was unavailable when they arrived. Stops
+   * at the first one the provider still can't take.
+   */
+  async classifyPending(
+    mailbox: any,
+    { onProgress, signal, resume }: ReclassifyOptions = {}
+  ): Promise<ClassificationRun> {
+    const progress: SyncProgress = {
+      listed: 0, fetched: 0, stored: 0, classified: 0, skipped: 0, failed: 0, deferred: 0, cacheHits: 0, cacheMisses: 0,
+      ...resume?.progress
+    };
+    // Replies that fail for other reasons stay unclassified, so the scan
+    // moves past them instead of starting over on every page
+    let lastId: string | null = resume?.lastId ?? null;
+
+    for (;;) {
+      let query = supabase
+        .from('messages')
+        .select(`${EXISTING_FIELDS}, classifications!left(id), thread:threads!inner(mailbox_id)`)
+        .eq('thread.mailbox_id', mailbox.id)
+        .eq('direction', 'inbound')
+        .is('classifications', null)
+        .order('id', { ascending: true })
+        .limit(PENDING_PAGE_SIZE);
+
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data: messages, error } = await query;
+      if (error) {
+        logger.error('Failed to load unclassified messages', { mailboxId: mailbox.id, error });
+        throw new Error('Failed to load unclassified messages');
+      }
+
+      if (!messages || messages.length === 0) break;
+
+      progress.listed += messages.length;
+      onProgress?.({ ...progress });
+
+      for (const [index, message] of messages.entries()) {
+        if (signal?.aborted) {
+          const stoppedAt = { lastId, progress: { ...progress, listed: progress.listed - (messages.length - index) } };
+          return { progress, cancelled: true, deferred: null, stoppedAt };
+        }
+
+        const outcome = await this.classifyExisting(mailbox, message, { queueRetry: false });
+        if (outcome.status === 'deferred') {
+          onProgress?.({ ...progress });
+          return {
+            progress,
+            cancelled: false,
+            // Already classified replies drop out of the query, so the run
+            // starts from the top again
+            deferred: { retryAfterMs: outcome.retryAfterMs, checkpoint: { lastId: null, progress: { ...progress } } }
+          };
+        }
+
+        if (outcome.status === 'classified') progress.classified++;
+        else if (outcome.status === 'failed') progress.failed++;
+        else progress.skipped++;
+        if (outcome.cache === 'hit') progress.cacheHits++;
+        else if (outcome.cache === 'miss') progress.cacheMisses++;
+        lastId = message.id;
+        onProgress?.({ ...progress });
+      }
+    }
+
+    return { progress, cancelled: false, deferred: null };
+  }
+
+  private async classifyExisting(mailbox: any, existing: any, options: { queueRetry?: boolean } = {}): Promise<ClassifyOutcome> {
+    const { target, source } = this.existingTarget(existing);
+    return this.classify(mailbox, target, source, options);
+  }
+
+  private existingTarget(existing: any): { target: ClassifyTarget; source: BounceSource } {
+    return {
+      target: {
+        messageId: existing.id,
+        threadId: existing.thread_id,
+        receivedAt: existing.received_at,
+        body: existing.body_new_content || parseReply(existing.body_plain || '').newContent || existing.snippet || '',
+        subject: existing.subject || '',
+        signature: existing.body_signature,
+        fromAddress: existing.from_address,
+        headers: existing.headers
+      },
+      source: {
+        // The MIME parts aren't stored, so only the body fallback applies
+        from: existing.from_address || '',
+        subject: existing.subject || '',
+        bodyPlain: existing.body_plain || ''
+      }
+    };
+  }
+
+  /**
+   * Classifies a stored reply. Delivery reports (bounces) are recognized
+   * here and never sent to the model. When the AI provider is unavailable
+   * a classify job is queued for the mailbox, unless `queueRetry` is false
+   * because one is already running.
+   */
+  private async classify(
+    mailbox: any,
+    target: ClassifyTarget,
+    source: BounceSource,
+    { queueRetry = true }: { queueRetry?: boolean } = {}
+  ): Promise<ClassifyOutcome> {
+    const outcome = isDeliveryReport(source)
+      ? await classificationService.classifyBounce(mailbox, target, parseBounces(source))
+      : await classificationService.classifyMessage(mailbox.user_id, target);
+
+    if (outcome.status === 'deferred' && queueRetry) {
+      await this.queueRetry(mailbox, outcome.retryAfterMs);
+    }
+
+    return outcome;
+  }
+
+  private async queueRetry(mailbox: any, retryAfterMs: number): Promise<void> {
+    try {
+      await syncJobService.enqueue(mailbox.user_id, mailbox.id, {}, 'classify', new Date(Date.now() + retryAfterMs));
+    } catch {
+      // Logged by enqueue; the next sync finds the reply unclassified
+    }
+  }
+
+  // Null while a queued classification hasn't run yet
+  private summarize(outcome: ClassifyOutcome | null): { classification: ClassificationResult | null; cache: CacheLookup | null; deferred: boolean } {
+    return {
+      classification: outcome?.status === 'classified' ? outcome.classification : null,
+      cache: outcome?.cache || null,
+      deferred: outcome?.status === 'deferred'
+    };
+  }
+
+  private async upsertThread(mailboxId: string, parsedMessage: EmailMessage): Promise<string | null> {
+    const { data: existingThread } = await supabase
+      .from('threads')
+      .select('id, last_message_at')
+      .eq('mailbox_id', mailboxId)
+      .eq('gmail_thread_id', parsedMessage.threadId)
+      .maybeSingle();
+
+    if (existingThread) {
+      if (!existingThread.last_message_at || new Date(existingThread.last_message_at) < parsedMessage.receivedAt) {
+        await supabase
+          .from('threads')
+          .update({ last_message_at: parsedMessage.receivedAt })
+          .eq('id', existingThread.id);
+      }
+      return existingThread.id;
+    }
+
+    const { data: newThread, error } = await supabase
+      .from('threads')
+      .upsert({
+        mailbox_id: mailboxId,
+        gmail_thread_id: parsedMessage.threadId,
+        subject: parsedMessage.subject,
+        // The lead is whoever the mailbox is talking to
+        lead_email: parsedMessage.labelIds.includes('SENT') ? parsedMessage.to[0] || parsedMessage.from : parsedMessage.from,
+        last_message_at: parsedMessage.receivedAt
+      }, {
+        onConflict: 'mailbox_id,gmail_thread_id'
+      })
+      .select('id')
+      .single();
+
+    if (error || !newThread) {
+      logger.error('Failed to create thread', { error });
+      return null;
+    }
+
+    return newThread.id;
+  }
+
+  /**
+   * Returns the stored message with its classification ids, null when the
+   * message is new, or undefined when the lookup itself failed.
+   */
+  private async findExisting(gmailMessageId: string): Promise<any | null | undefined> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(`${EXISTING_FIELDS}, classifications(id)`)
+      .eq('gmail_message_id', gmailMessageId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up message', { gmailMessageId, error });
+      return undefined;
+    }
+
+    return data;
+  }
+
+  private failed(gmailMessageId: string, stage: IngestionStage, error: string): IngestionOutcome {
+    logger.error('Message ingestion failed', { gmailMessageId, stage, error });
+    return { status: 'failed', gmailMessageId, stage, error };
+  }
+}
+
+export const ingestionService = new IngestionService();
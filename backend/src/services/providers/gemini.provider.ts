@@ -0,0 +1,89 @@
+import axios from 'axios';
+import { ClassifierProvider, ProviderRequest, ProviderResponse } from './types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Gemini takes an OpenAPI-style schema with upper-case type names.
+ */
+const toGeminiSchema = (schema: Record<string, any>): Record<string, any> => {
+  const converted: Record<string, any> = { ...schema };
+  if (typeof schema.type === 'string') {
+    converted.type = schema.type.toUpperCase();
+  }
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value as Record<string, any>)])
+    );
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+  return converted;
+};
+
+export class GeminiProvider implements ClassifierProvider {
+  readonly name = 'gemini' as const;
+  readonly label = 'Google Gemini';
+
+  get defaultModel(): string {
+    return process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  async generate({ prompt, model, responseSchema, timeoutMs }: ProviderRequest): Promise<ProviderResponse> {
+    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+
+    const response = await axios.post(
+      `${apiUrl}?key=${process.env.GEMINI_API_KEY}`,
+      {
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature: 0.2,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 1024,
+          ...(responseSchema ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema)
+          } : {})
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        timeout: timeoutMs
+      }
+    );
+
+    if (!response.data.candidates || response.data.candidates.length === 0) {
+      logger.error('Gemini returned no candidates', { response: response.data });
+      throw new Error('No classification candidates returned');
+    }
+
+    const candidate = response.data.candidates[0];
+    if (!candidate.content || !candidate.content.parts || candidate.content.parts.length === 0) {
+      logger.error('Gemini response missing content', { candidate });
+      throw new Error('Invalid Gemini response structure');
+    }
+
+    const usage = response.data.usageMetadata;
+
+    return {
+      text: candidate.content.parts[0].text,
+      usage: usage ? {
+        promptTokens: usage.promptTokenCount || 0,
+        completionTokens: usage.candidatesTokenCount || 0
+      } : null
+    };
+  }
+}
+
+export const geminiProvider = new GeminiProvider();
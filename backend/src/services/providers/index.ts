@@ -0,0 +1,36 @@
+import { geminiProvider } from './gemini.provider';
+import { openAICompatibleProvider } from './openaiCompatible.provider';
+import { offlineProvider } from './offline.provider';
+import { ClassifierProvider, ProviderInfo, ProviderName } from './types';
+
+export * from './types';
+
+const providers: Record<ProviderName, ClassifierProvider> = {
+  gemini: geminiProvider,
+  openai_compatible: openAICompatibleProvider,
+  offline: offlineProvider
+};
+
+export const PROVIDER_NAMES = Object.keys(providers) as ProviderName[];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && value in providers;
+
+/**
+ * The provider used when a user hasn't picked one, from AI_PROVIDER.
+ */
+export const getDefaultProviderName = (): ProviderName => {
+  const configured = process.env.AI_PROVIDER;
+  return isProviderName(configured) ? configured : 'gemini';
+};
+
+export const getProvider = (name?: ProviderName | null): ClassifierProvider =>
+  providers[name || getDefaultProviderName()];
+
+export const listProviders = (): ProviderInfo[] =>
+  PROVIDER_NAMES.map(name => ({
+    name,
+    label: providers[name].label,
+    defaultModel: providers[name].defaultModel,
+    configured: providers[name].isConfigured()
+  }));
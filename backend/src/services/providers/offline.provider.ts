@@ -0,0 +1,101 @@
+import { ClassifierProvider, ProviderRequest, ProviderResponse } from './types';
+import { DEFAULT_TAXONOMY, FALLBACK_CATEGORY, SYSTEM_SENTIMENTS, Taxonomy } from '../classificationSchema';
+
+interface KeywordRule {
+  pattern: RegExp;
+  sentiment: string;
+  interest_level: string;
+  category: string;
+  recommended_action: string;
+}
+
+// First match wins, so more specific rules come first
+const RULES: KeywordRule[] = [
+  {
+    pattern: /out of (the )?office|on (annual )?leave|on vacation|limited access to (my )?email/i,
+    sentiment: 'out_of_office',
+    interest_level: 'none',
+    category: 'other',
+    recommended_action: 'Follow up after they are back'
+  },
+  {
+    pattern: /auto(matic|mated)?[- ]?(reply|response)|do not reply|undeliverable|delivery (status notification|has failed)/i,
+    sentiment: 'auto_reply',
+    interest_level: 'none',
+    category: 'other',
+    recommended_action: 'No action needed'
+  },
+  {
+    pattern: /unsubscribe|remove (me|us)|not interested|stop (emailing|contacting)|no thanks/i,
+    sentiment: 'negative',
+    interest_level: 'none',
+    category: 'not_interested',
+    recommended_action: 'Remove from the sequence'
+  },
+  {
+    pattern: /pric(e|ing)|quote|demo|schedule|book a (call|meeting)|let'?s (talk|chat|meet)|interested|works for me/i,
+    sentiment: 'positive',
+    interest_level: 'high',
+    category: 'demo_request',
+    recommended_action: 'Reply quickly and book a meeting'
+  },
+  {
+    pattern: /later|next (quarter|year|month)|keep in touch|reach out|in the future|not right now/i,
+    sentiment: 'warm',
+    interest_level: 'medium',
+    category: 'follow_up_later',
+    recommended_action: 'Schedule a follow-up for later'
+  }
+];
+
+/**
+ * The first of `preferred` the user's labels have, else their first label
+ * that isn't in `avoid`. The rules use the default keys, which a custom
+ * taxonomy may have renamed or removed.
+ */
+const pick = (keys: string[], preferred: string[], avoid: readonly string[] = []): string =>
+  preferred.find(key => keys.includes(key)) || keys.find(key => !avoid.includes(key)) || keys[0];
+
+/**
+ * Keyword rules that need no network access. The same email always gets
+ * the same answer, which makes it useful for tests, demos and local
+ * development, not for real classification.
+ */
+export class OfflineProvider implements ClassifierProvider {
+  readonly name = 'offline' as const;
+  readonly label = 'Offline (keyword rules)';
+  readonly defaultModel = 'keyword-rules-v1';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate({ email, taxonomy = DEFAULT_TAXONOMY }: ProviderRequest): Promise<ProviderResponse> {
+    if (!email) {
+      throw new Error('The offline provider classifies one email at a time');
+    }
+
+    const rule = RULES.find(r => r.pattern.test(`${email.subject}\n${email.body}`));
+    const firstLine = email.body.trim().split('\n')[0] || email.subject;
+
+    const answer = JSON.stringify({
+      sentiment: this.sentiment(taxonomy, rule?.sentiment),
+      interest_level: rule?.interest_level || 'low',
+      summary: firstLine.slice(0, 200),
+      recommended_action: rule?.recommended_action || 'Review manually',
+      category: pick(taxonomy.categories.map(category => category.key), [rule?.category, FALLBACK_CATEGORY].filter(Boolean) as string[]),
+      confidence_score: rule ? 0.6 : 0.3
+    });
+
+    return { text: answer, usage: null };
+  }
+
+  // System sentiments are only used when a rule names one, never as a
+  // stand-in for a human reply's sentiment
+  private sentiment(taxonomy: Taxonomy, ruled: string | undefined): string {
+    const keys = taxonomy.sentiments.map(sentiment => sentiment.key);
+    return pick(keys, [ruled, 'neutral'].filter(Boolean) as string[], SYSTEM_SENTIMENTS);
+  }
+}
+
+export const offlineProvider = new OfflineProvider();
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import { ClassifierProvider, ProviderRequest, ProviderResponse } from './types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama (http://localhost:11434/v1) or llama.cpp server.
+ */
+export class OpenAICompatibleProvider implements ClassifierProvider {
+  readonly name = 'openai_compatible' as const;
+  readonly label = 'OpenAI-compatible endpoint';
+
+  get defaultModel(): string {
+    return process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL);
+  }
+
+  async generate({ prompt, model, responseSchema, timeoutMs }: ProviderRequest): Promise<ProviderResponse> {
+    const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+
+    const response = await axios.post(
+      `${baseUrl}/chat/completions`,
+      {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.2,
+        max_tokens: 1024,
+        ...(responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'classification', schema: responseSchema }
+          }
+        } : {})
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        timeout: timeoutMs
+      }
+    );
+
+    const content = response.data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      logger.error('OpenAI-compatible response missing content', { response: response.data });
+      throw new Error('Invalid completion response structure');
+    }
+
+    const usage = response.data.usage;
+
+    return {
+      text: content,
+      usage: usage ? {
+        promptTokens: usage.prompt_tokens || 0,
+        completionTokens: usage.completion_tokens || 0
+      } : null
+    };
+  }
+}
+
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
@@ -0,0 +1,51 @@
+import { Taxonomy } from '../classificationSchema';
+
+export type ProviderName = 'gemini' | 'openai_compatible' | 'offline';
+
+export interface ProviderRequest {
+  prompt: string;
+  model: string;
+  // The email being classified, for providers that work on it directly
+  // instead of reading the prompt; not set for batches
+  email?: {
+    subject: string;
+    body: string;
+  };
+  // JSON schema the answer must follow, for providers with structured output
+  responseSchema?: Record<string, any>;
+  // The labels the answer must use, for providers that pick them directly
+  taxonomy?: Taxonomy;
+  // How long to wait for the answer before giving up (no limit when unset)
+  timeoutMs?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  // Not every backend reports usage
+  usage: TokenUsage | null;
+}
+
+/**
+ * A backend that turns a classification prompt into the model's raw text
+ * answer. Prompt building and parsing the answer are shared and live in
+ * GeminiService.
+ */
+export interface ClassifierProvider {
+  readonly name: ProviderName;
+  readonly label: string;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export interface ProviderInfo {
+  name: ProviderName;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+}
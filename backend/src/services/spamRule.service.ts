@@ -0,0 +1,281 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { parseReply } from '../utils/replyParser';
+import {
+  DEFAULT_SPAM_RULES,
+  DEFAULT_SPAM_THRESHOLD,
+  evaluateSpamRules,
+  SpamRule,
+  SpamRuleMatch
+} from '../utils/spamRules';
+
+const RULE_FIELDS = 'id, name, type, field, pattern, terms, case_sensitive, weight, enabled, builtin, created_at';
+
+const DEFAULT_TEST_LIMIT = 200;
+export const MAX_TEST_LIMIT = 1000;
+
+/**
+ * A stored reply the rules matched, as reported by a test run.
+ */
+export interface SpamTestResult {
+  message_id: string;
+  subject: string | null;
+  from_address: string;
+  received_at: string;
+  // What the reply is labelled as now, null if unclassified
+  sentiment: string | null;
+  score: number;
+  is_spam: boolean;
+  matches: SpamRuleMatch[];
+}
+
+export interface SpamTestReport {
+  checked: number;
+  spam: number;
+  // Would be spam but are labelled something else now
+  newly_spam: number;
+  results: SpamTestResult[];
+}
+
+const toRule = (row: any): SpamRule => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  field: row.field,
+  pattern: row.pattern,
+  terms: row.terms || [],
+  case_sensitive: row.case_sensitive,
+  weight: Number(row.weight),
+  enabled: row.enabled
+});
+
+export class SpamRuleService {
+  /**
+   * The user's rules, oldest first. Users start with the built-in rules,
+   * which are saved the first time they're needed so they can be turned
+   * off or reweighted like any other.
+   */
+  async list(userId: string): Promise<any[]> {
+    const rows = await this.select(userId);
+    if (rows.length > 0) return rows;
+
+    const { error } = await supabase
+      .from('spam_rules')
+      .upsert(DEFAULT_SPAM_RULES.map(({ id: _id, ...rule }) => ({ ...rule, user_id: userId, builtin: true })), {
+        onConflict: 'user_id,name',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      logger.error('Failed to add built-in spam rules', { userId, error });
+      throw new Error('Failed to add built-in spam rules');
+    }
+
+    return this.select(userId);
+  }
+
+  /**
+   * The rules and threshold replies are checked against. Falls back to the
+   * built-in rules when they can't be loaded, so classification keeps
+   * working.
+   */
+  async load(userId: string): Promise<{ rules: SpamRule[]; threshold: number }> {
+    const threshold = await this.threshold(userId);
+
+    try {
+      const rows = await this.list(userId);
+      return { rules: rows.map(toRule), threshold };
+    } catch {
+      logger.warn('Using the built-in spam rules', { userId });
+      return { rules: DEFAULT_SPAM_RULES, threshold };
+    }
+  }
+
+  async get(id: string, userId: string): Promise<any | null> {
+    const { data } = await supabase
+      .from('spam_rules')
+      .select(RULE_FIELDS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Adds an already validated rule (see validateSpamRule). Returns null
+   * when the user already has a rule with that name.
+   */
+  async create(userId: string, rule: Omit<SpamRule, 'id'>): Promise<any | null> {
+    // Make sure the built-in rules exist before the first custom one does
+    await this.list(userId);
+
+    const { data, error } = await supabase
+      .from('spam_rules')
+      .insert({ ...rule, user_id: userId, builtin: false })
+      .select(RULE_FIELDS)
+      .single();
+
+    if (error?.code === '23505') return null;
+    if (error || !data) {
+      logger.error('Failed to add spam rule', { userId, error });
+      throw new Error('Failed to add spam rule');
+    }
+
+    logger.info('Spam rule added', { userId, ruleId: data.id, type: rule.type });
+    return data;
+  }
+
+  /**
+   * Turns a rule on or off or changes its weight. Returns null when it
+   * doesn't exist or belongs to another user.
+   */
+  async update(id: string, userId: string, changes: { enabled?: boolean; weight?: number }): Promise<any | null> {
+    const { data, error } = await supabase
+      .from('spam_rules')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(RULE_FIELDS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to update spam rule', { id, error });
+      throw new Error('Failed to update spam rule');
+    }
+
+    return data;
+  }
+
+  /**
+   * Deletes a rule the user added. Built-in rules can only be turned off.
+   */
+  async remove(id: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('spam_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('builtin', false)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to delete spam rule', { id, error });
+      throw new Error('Failed to delete spam rule');
+    }
+
+    return Boolean(data && data.length > 0);
+  }
+
+  async threshold(userId: string): Promise<number> {
+    const { data: settings } = await supabase
+      .from('settings')
+      .select('spam_threshold')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return settings?.spam_threshold != null ? Number(settings.spam_threshold) : DEFAULT_SPAM_THRESHOLD;
+  }
+
+  async setThreshold(userId: string, threshold: number): Promise<number> {
+    const { error } = await supabase
+      .from('settings')
+      .upsert({ user_id: userId, spam_threshold: threshold }, { onConflict: 'user_id' });
+
+    if (error) {
+      logger.error('Failed to update spam threshold', { userId, error });
+      throw new Error('Failed to update spam threshold');
+    }
+
+    return threshold;
+  }
+
+  /**
+   * Runs the user's rules, plus a draft rule if given, over their most
+   * recent stored replies without changing anything. Only replies at
+   * least one rule matched are listed.
+   */
+  async test(
+    userId: string,
+    { draft = null, threshold, limit = DEFAULT_TEST_LIMIT }: { draft?: Omit<SpamRule, 'id'> | null; threshold?: number; limit?: number } = {}
+  ): Promise<SpamTestReport> {
+    const loaded = await this.load(userId);
+    const rules = draft ? [...loaded.rules, { ...draft, id: null, enabled: true }] : loaded.rules;
+
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select(`
+        id,
+        from_address,
+        subject,
+        snippet,
+        body_plain,
+        body_new_content,
+        headers,
+        received_at,
+        classifications(sentiment),
+        thread:threads!inner(mailbox:mailboxes!inner(user_id))
+      `)
+      .eq('thread.mailbox.user_id', userId)
+      .eq('direction', 'inbound')
+      .order('received_at', { ascending: false })
+      .limit(Math.min(limit, MAX_TEST_LIMIT));
+
+    if (error) {
+      logger.error('Failed to load messages to test spam rules', { userId, error });
+      throw new Error('Failed to load messages to test spam rules');
+    }
+
+    const report: SpamTestReport = { checked: 0, spam: 0, newly_spam: 0, results: [] };
+
+    for (const message of messages || []) {
+      report.checked++;
+
+      const verdict = evaluateSpamRules(rules, {
+        from: message.from_address || '',
+        subject: message.subject || '',
+        body: message.body_new_content || parseReply(message.body_plain || '').newContent || message.snippet || '',
+        headers: message.headers
+      }, threshold ?? loaded.threshold);
+      if (verdict.matches.length === 0) continue;
+
+      const embedded: any = message.classifications;
+      const sentiment = (Array.isArray(embedded) ? embedded[0] : embedded)?.sentiment ?? null;
+
+      if (verdict.isSpam) {
+        report.spam++;
+        if (sentiment !== 'spam') report.newly_spam++;
+      }
+
+      report.results.push({
+        message_id: message.id,
+        subject: message.subject,
+        from_address: message.from_address,
+        received_at: message.received_at,
+        sentiment,
+        score: verdict.score,
+        is_spam: verdict.isSpam,
+        matches: verdict.matches
+      });
+    }
+
+    return report;
+  }
+
+  private async select(userId: string): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('spam_rules')
+      .select(RULE_FIELDS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Failed to load spam rules', { userId, error });
+      throw new Error('Failed to load spam rules');
+    }
+
+    return data || [];
+  }
+}
+
+export const spamRuleService = new SpamRuleService();
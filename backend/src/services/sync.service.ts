@@ -0,0 +1,425 @@
+import { supabase } from '../config/supabase';
+import { gmailService, HistoryChanges } from './gmail.service';
+import { ingestionService, IngestionOutcome } from './ingestion.service';
+import { logger } from '../utils/logger';
+
+export interface SyncPlan {
+  mode: 'incremental' | 'full';
+  messageIds: string[];
+  deletedCount: number;
+  historyId: string | null;
+}
+
+/**
+ * Running per-message counts for one mailbox sync. Every listed message
+ * ends up as exactly one of stored, skipped or failed; messages deleted
+ * from Gmail before they were fetched count as skipped. Deferred counts
+ * the replies stored without labels because the AI provider was
+ * unavailable; a classify job picks them up later. Cache hits and misses
+ * count the replies that were looked up in the classification cache; a
+ * hit saved a model call.
+ */
+export interface SyncProgress {
+  listed: number;
+  fetched: number;
+  stored: number;
+  classified: number;
+  skipped: number;
+  failed: number;
+  deferred: number;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+export type SyncTrigger = 'manual' | 'scheduled' | 'push';
+
+export interface SyncOptions {
+  // Caps a full listing only. An incremental sync takes every change since
+  // the history checkpoint, since the checkpoint moves past whatever it
+  // leaves out.
+  maxResults: number;
+  trigger?: SyncTrigger;
+  jobId?: string;
+  onProgress?: (progress: SyncProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface SyncResult {
+  mode: SyncPlan['mode'];
+  totalMessages: number;
+  deletedCount: number;
+  processedCount: number;
+  classifiedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  deferredCount: number;
+  cacheHits: number;
+  cacheMisses: number;
+  cancelled: boolean;
+  messageIds: string[];
+}
+
+export const emptyProgress = (): SyncProgress => ({
+  listed: 0,
+  fetched: 0,
+  stored: 0,
+  classified: 0,
+  skipped: 0,
+  failed: 0,
+  deferred: 0,
+  cacheHits: 0,
+  cacheMisses: 0
+});
+
+const countCache = (progress: SyncProgress, cache: 'hit' | 'miss' | null | undefined): void => {
+  if (cache === 'hit') progress.cacheHits++;
+  else if (cache === 'miss') progress.cacheMisses++;
+};
+
+/**
+ * Adds the outcome of one ingested message to the running counts.
+ */
+export const applyOutcome = (progress: SyncProgress, outcome: IngestionOutcome): void => {
+  switch (outcome.status) {
+    case 'stored':
+      progress.fetched++;
+      progress.stored++;
+      if (outcome.classification) progress.classified++;
+      if (outcome.deferred) progress.deferred++;
+      countCache(progress, outcome.cache);
+      break;
+    case 'outbound':
+      progress.fetched++;
+      progress.stored++;
+      break;
+    case 'classified_existing':
+      progress.skipped++;
+      if (outcome.classification) progress.classified++;
+      if (outcome.deferred) progress.deferred++;
+      countCache(progress, outcome.cache);
+      break;
+    case 'skipped':
+    case 'missing':
+      progress.skipped++;
+      break;
+    case 'failed':
+      if (outcome.stage !== 'lookup' && outcome.stage !== 'fetch') progress.fetched++;
+      progress.failed++;
+      break;
+  }
+};
+
+// Messages that failed are retried by the next sync, up to this many per
+// mailbox (incremental syncs would otherwise never list them again)
+const MAX_RETRY_MESSAGE_IDS = 500;
+// A message that has failed this many syncs in a row is given up on
+const MAX_MESSAGE_ATTEMPTS = 5;
+
+const unique = (ids: string[]) => Array.from(new Set(ids));
+
+// Syncs cover received and sent mail. Sent emails are stored whether or
+// not anyone replied, as they are what reply rates are measured against.
+export const SYNCED_MAIL_QUERY = '{in:inbox in:sent}';
+const SYNCED_LABELS = ['INBOX', 'SENT'];
+
+// Gmail history IDs are increasing integers, too large for a number
+const earliestHistoryId = (ids: string[]) =>
+  ids.reduce((earliest, id) => BigInt(id) < BigInt(earliest) ? id : earliest);
+
+export class SyncService {
+  // Mailboxes with a sync in progress in this process. Push notifications
+  // arrive in bursts, so the same mailbox must not be synced twice at once.
+  private activeMailboxes = new Set<string>();
+
+  /**
+   * Runs a sync for one mailbox. Returns null without doing anything when
+   * another sync of the same mailbox is still running.
+   */
+  async syncMailbox(mailbox: any, options: SyncOptions): Promise<SyncResult | null> {
+    if (this.activeMailboxes.has(mailbox.id)) {
+      logger.info('Sync already running for mailbox, skipping', { mailbox: mailbox.email_address });
+      return null;
+    }
+
+    this.activeMailboxes.add(mailbox.id);
+    const startedAt = new Date();
+    try {
+      const result = await this.runSync(mailbox, options);
+      await this.recordRun(mailbox, options, startedAt, result);
+      return result;
+    } catch (error: any) {
+      await this.recordRun(mailbox, options, startedAt, null, error.message || 'Sync failed');
+      throw error;
+    } finally {
+      this.activeMailboxes.delete(mailbox.id);
+    }
+  }
+
+  /**
+   * Works out which Gmail messages a sync has to look at. Mailboxes with a
+   * stored history ID only get the messages added to the inbox or sent
+   * mail since then; everything else (first sync, expired history) gets a
+   * full listing of both, up to `maxResults`. Messages that failed in the
+   * previous sync are always looked at again.
+   */
+  async planSync(mailbox: any, maxResults: number): Promise<SyncPlan> {
+    const retryIds = Object.keys(mailbox.retry_messages || {});
+
+    if (mailbox.last_history_id) {
+      const changes = await this.listChanges(mailbox);
+
+      if (changes) {
+        const deletedCount = await this.removeDeletedMessages(mailbox.id, changes.deletedMessageIds);
+
+        logger.info('Incremental sync planned', {
+          mailbox: mailbox.email_address,
+          startHistoryId: mailbox.last_history_id,
+          added: changes.addedMessageIds.length,
+          deleted: deletedCount
+        });
+
+        return {
+          mode: 'incremental',
+          messageIds: unique([
+            ...retryIds.filter(id => !changes.deletedMessageIds.includes(id)),
+            ...changes.addedMessageIds
+          ]),
+          deletedCount,
+          historyId: changes.historyId
+        };
+      }
+
+      logger.warn('History ID expired, falling back to full resync', {
+        mailbox: mailbox.email_address,
+        startHistoryId: mailbox.last_history_id
+      });
+    }
+
+    // Read the history ID before listing so nothing that arrives during
+    // the listing falls between this sync and the next incremental one
+    const historyId = await gmailService.getCurrentHistoryId(
+      mailbox.access_token_encrypted,
+      mailbox.refresh_token_encrypted
+    );
+
+    const messageIds = await gmailService.listMessages(
+      mailbox.access_token_encrypted,
+      mailbox.refresh_token_encrypted,
+      SYNCED_MAIL_QUERY,
+      maxResults
+    );
+
+    return {
+      mode: 'full',
+      messageIds: unique([...retryIds, ...messageIds]),
+      deletedCount: 0,
+      historyId
+    };
+  }
+
+  /**
+   * The history of the synced labels since the mailbox's checkpoint, or
+   * null when it has expired. Gmail only filters history by one label at
+   * a time, so each is listed separately; the checkpoint to save is the
+   * earliest one they got to.
+   */
+  private async listChanges(mailbox: any): Promise<HistoryChanges | null> {
+    const added: string[] = [];
+    const deleted: string[] = [];
+    const historyIds: string[] = [];
+
+    for (const labelId of SYNCED_LABELS) {
+      const changes = await gmailService.listHistory(
+        mailbox.access_token_encrypted,
+        mailbox.refresh_token_encrypted,
+        mailbox.last_history_id,
+        labelId
+      );
+      if (!changes) return null;
+
+      added.push(...changes.addedMessageIds);
+      deleted.push(...changes.deletedMessageIds);
+      historyIds.push(changes.historyId);
+    }
+
+    const deletedIds = unique(deleted);
+    return {
+      historyId: earliestHistoryId(historyIds),
+      addedMessageIds: unique(added).filter(id => !deletedIds.includes(id)),
+      deletedMessageIds: deletedIds
+    };
+  }
+
+  /**
+   * Moves the mailbox's history checkpoint forward. The checkpoint skips
+   * everything before it, so messages that failed are kept to be retried
+   * by the next sync, with a count of how many syncs they have failed.
+   * Ones that keep failing are dropped after MAX_MESSAGE_ATTEMPTS.
+   */
+  async completeSync(mailbox: any, historyId: string | null, failedMessageIds: string[] = []): Promise<void> {
+    const previousAttempts: Record<string, number> = mailbox.retry_messages || {};
+    const retryMessages: Record<string, number> = {};
+    const givenUp: string[] = [];
+
+    for (const id of unique(failedMessageIds)) {
+      const attempts = (previousAttempts[id] || 0) + 1;
+      if (attempts >= MAX_MESSAGE_ATTEMPTS) {
+        givenUp.push(id);
+      } else if (Object.keys(retryMessages).length < MAX_RETRY_MESSAGE_IDS) {
+        retryMessages[id] = attempts;
+      }
+    }
+
+    if (givenUp.length > 0) {
+      logger.warn('Giving up on messages that keep failing to sync', {
+        mailbox: mailbox.email_address,
+        attempts: MAX_MESSAGE_ATTEMPTS,
+        messageIds: givenUp
+      });
+    }
+
+    const update: Record<string, any> = {
+      last_synced_at: new Date().toISOString(),
+      retry_messages: retryMessages
+    };
+    if (historyId) {
+      update.last_history_id = historyId;
+    }
+
+    const { error } = await supabase
+      .from('mailboxes')
+      .update(update)
+      .eq('id', mailbox.id);
+
+    if (error) {
+      logger.error('Failed to update mailbox sync state', { mailboxId: mailbox.id, error });
+    }
+  }
+
+  private async runSync(mailbox: any, { maxResults, onProgress, signal }: SyncOptions): Promise<SyncResult> {
+    logger.info('Starting email sync', { mailboxId: mailbox.id, email: mailbox.email_address });
+
+    // Only new messages since the last sync when Gmail still has the history
+    const plan = await this.planSync(mailbox, maxResults);
+    const { messageIds } = plan;
+
+    logger.info(`Found ${messageIds.length} messages to process`, { 
+      mode: plan.mode,
+      messageIds: messageIds.slice(0, 3) 
+    });
+
+    const progress: SyncProgress = { ...emptyProgress(), listed: messageIds.length };
+    const report = () => onProgress?.({ ...progress });
+    const failedMessageIds: string[] = [];
+    report();
+
+    for (const messageId of messageIds) {
+      if (signal?.aborted) {
+        logger.info('Sync cancelled', { mailbox: mailbox.email_address });
+        break;
+      }
+
+      const outcome = await ingestionService.ingestMessage(mailbox, messageId);
+      applyOutcome(progress, outcome);
+      if (outcome.status === 'failed') failedMessageIds.push(messageId);
+      report();
+    }
+
+    const cancelled = signal?.aborted || false;
+
+    // Update last synced timestamp and history checkpoint. A cancelled sync
+    // keeps the old checkpoint so the next run picks up what was skipped;
+    // messages that failed are remembered and retried next time.
+    if (!cancelled) {
+      await this.completeSync(mailbox, plan.historyId, failedMessageIds);
+    }
+
+    logger.info('Sync completed', { 
+      mailbox: mailbox.email_address,
+      mode: plan.mode,
+      cancelled,
+      totalMessages: messageIds.length,
+      ...progress
+    });
+
+    return {
+      mode: plan.mode,
+      totalMessages: messageIds.length,
+      deletedCount: plan.deletedCount,
+      processedCount: progress.stored,
+      classifiedCount: progress.classified,
+      skippedCount: progress.skipped,
+      failedCount: progress.failed,
+      deferredCount: progress.deferred,
+      cacheHits: progress.cacheHits,
+      cacheMisses: progress.cacheMisses,
+      cancelled,
+      messageIds
+    };
+  }
+
+  private async recordRun(
+    mailbox: any,
+    options: SyncOptions,
+    startedAt: Date,
+    result: SyncResult | null,
+    errorMessage?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('sync_runs')
+      .insert({
+        user_id: mailbox.user_id,
+        mailbox_id: mailbox.id,
+        job_id: options.jobId || null,
+        trigger: options.trigger || 'manual',
+        status: result ? (result.cancelled ? 'cancelled' : 'completed') : 'failed',
+        mode: result?.mode || null,
+        total_messages: result?.totalMessages || 0,
+        processed_count: result?.processedCount || 0,
+        classified_count: result?.classifiedCount || 0,
+        skipped_count: result?.skippedCount || 0,
+        failed_count: result?.failedCount || 0,
+        deferred_count: result?.deferredCount || 0,
+        cache_hits: result?.cacheHits || 0,
+        cache_misses: result?.cacheMisses || 0,
+        error_message: errorMessage || null,
+        started_at: startedAt.toISOString(),
+        finished_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error('Failed to record sync run', { mailboxId: mailbox.id, error });
+    }
+  }
+
+  private async removeDeletedMessages(mailboxId: string, gmailMessageIds: string[]): Promise<number> {
+    if (gmailMessageIds.length === 0) return 0;
+
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select('id, thread:threads!inner(mailbox_id)')
+      .in('gmail_message_id', gmailMessageIds)
+      .eq('thread.mailbox_id', mailboxId);
+
+    if (error) {
+      logger.error('Failed to look up deleted messages', { mailboxId, error });
+      return 0;
+    }
+
+    if (!messages || messages.length === 0) return 0;
+
+    const { error: deleteError } = await supabase
+      .from('messages')
+      .delete()
+      .in('id', messages.map(m => m.id));
+
+    if (deleteError) {
+      logger.error('Failed to remove deleted messages', { mailboxId, error: deleteError });
+      return 0;
+    }
+
+    return messages.length;
+  }
+}
+
+export const syncService = new SyncService();
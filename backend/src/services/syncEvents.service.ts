@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+import type { SyncProgress } from './sync.service';
+import type { SyncJobStatus } from './syncJob.service';
+
+export interface SyncJobEvent {
+  jobId: string;
+  mailboxId: string;
+  status: SyncJobStatus;
+  progress: SyncProgress | null;
+  error: string | null;
+}
+
+/**
+ * In-process pub/sub for sync job updates. The worker publishes progress
+ * and status changes here, SSE clients subscribe per job, and cancel
+ * requests are forwarded to whichever worker is running the job. Nothing
+ * crosses process boundaries: progress streams also poll sync_jobs, and
+ * workers notice cancels from their heartbeat.
+ */
+export class SyncEventsService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open progress stream, so no fixed limit
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: SyncJobEvent): void {
+    this.emitter.emit(`job:${event.jobId}`, event);
+  }
+
+  subscribe(jobId: string, listener: (event: SyncJobEvent) => void): () => void {
+    this.emitter.on(`job:${jobId}`, listener);
+    return () => this.emitter.off(`job:${jobId}`, listener);
+  }
+
+  requestCancel(jobId: string): void {
+    this.emitter.emit(`cancel:${jobId}`);
+  }
+
+  onCancel(jobId: string, listener: () => void): () => void {
+    this.emitter.on(`cancel:${jobId}`, listener);
+    return () => this.emitter.off(`cancel:${jobId}`, listener);
+  }
+}
+
+export const syncEvents = new SyncEventsService();
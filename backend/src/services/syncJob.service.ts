@@ -0,0 +1,494 @@
+import { supabase } from '../config/supabase';
+import { syncEvents, SyncJobEvent } from './syncEvents.service';
+import type { SyncProgress } from './sync.service';
+import { logger } from '../utils/logger';
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// classify: labels the mailbox's stored replies that have none yet, queued
+// when the AI provider was unavailable during a sync
+export type SyncJobKind = 'sync' | 'backfill' | 'reclassify' | 'classify';
+
+export const TERMINAL_JOB_STATUSES: SyncJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface SyncJob {
+  id: string;
+  user_id: string;
+  mailbox_id: string;
+  kind: SyncJobKind;
+  status: SyncJobStatus;
+  params: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  progress: SyncProgress | null;
+  checkpoint: Record<string, any> | null;
+  result: Record<string, any> | null;
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// Jobs whose worker stopped sending heartbeats this long ago are treated
+// as interrupted (crash, deploy, restart) and put back on the queue
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// Progress is streamed live but only written to the database this often
+const PROGRESS_WRITE_INTERVAL_MS = 2 * 1000;
+
+// Params that say what a job covers rather than how it runs. Asking for a
+// job of one of these kinds with different values while one is pending is
+// a conflict, not a duplicate.
+const SCOPE_PARAMS: Partial<Record<SyncJobKind, string[]>> = {
+  backfill: ['after', 'before'],
+  reclassify: ['filters']
+};
+
+// Objects (reclassify filters) are compared by value, ignoring unset keys,
+// which don't survive being stored as JSON anyway
+const scopeValue = (value: unknown): string =>
+  JSON.stringify(value && typeof value === 'object'
+    ? Object.fromEntries(Object.entries(value).filter(([, v]) => v != null).sort(([a], [b]) => a.localeCompare(b)))
+    : value ?? null);
+
+const sameScope = (kind: SyncJobKind, a: Record<string, any>, b: Record<string, any>): boolean =>
+  (SCOPE_PARAMS[kind] || []).every(key => scopeValue(a[key]) === scopeValue(b[key]));
+
+/**
+ * A job of the same kind but for different work (e.g. another date range
+ * or other reclassify filters) is already queued or running for the
+ * mailbox.
+ */
+export class JobConflictError extends Error {
+  job: SyncJob;
+
+  constructor(job: SyncJob) {
+    super(`A ${job.kind} job with different parameters is already ${job.status} for this mailbox`);
+    this.job = job;
+  }
+}
+
+export class SyncJobService {
+  private lastProgressWrite = new Map<string, number>();
+
+  /**
+   * Queues a sync for a mailbox, to run as soon as a worker is free or not
+   * before `runAfter`. A mailbox only ever has one queued or running job of
+   * each kind, so asking again returns the job that is already pending, or
+   * throws JobConflictError when that job covers something else.
+   */
+  async enqueue(
+    userId: string,
+    mailboxId: string,
+    params: Record<string, any> = {},
+    kind: SyncJobKind = 'sync',
+    runAfter?: Date
+  ): Promise<SyncJob> {
+    const existing = await this.findActiveJob(mailboxId, kind);
+    if (existing) return this.pending(existing, kind, params);
+
+    const { data: job, error } = await supabase
+      .from('sync_jobs')
+      .insert({
+        user_id: userId,
+        mailbox_id: mailboxId,
+        kind,
+        params,
+        ...(runAfter ? { run_after: runAfter.toISOString() } : {})
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Lost a race against another request for the same mailbox
+      if (error.code === '23505') {
+        const active = await this.findActiveJob(mailboxId, kind);
+        if (active) return this.pending(active, kind, params);
+      }
+      logger.error('Failed to enqueue sync job', { mailboxId, error });
+      throw new Error('Failed to enqueue sync job');
+    }
+
+    logger.info('Sync job queued', { jobId: job.id, mailboxId, kind });
+    return job;
+  }
+
+  async getJob(id: string, userId: string): Promise<SyncJob | null> {
+    const { data: job } = await supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    return job || null;
+  }
+
+  async getJobs(ids: string[], userId: string): Promise<SyncJob[]> {
+    const { data: jobs, error } = await supabase
+      .from('sync_jobs')
+      .select('*')
+      .in('id', ids)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to fetch sync jobs', { error });
+      return [];
+    }
+
+    return jobs || [];
+  }
+
+  /**
+   * Takes the oldest due job off the queue. The status check in the update
+   * makes the claim atomic when several workers poll at the same time.
+   */
+  async claimNext(workerId: string): Promise<SyncJob | null> {
+    const { data: candidates, error } = await supabase
+      .from('sync_jobs')
+      .select('id, attempts')
+      .eq('status', 'queued')
+      .lte('run_after', new Date().toISOString())
+      .order('created_at', { ascending: true })
+      .limit(5);
+
+    if (error) {
+      logger.error('Failed to poll sync jobs', { error });
+      return null;
+    }
+
+    for (const candidate of candidates || []) {
+      const now = new Date().toISOString();
+      const { data: claimed } = await supabase
+        .from('sync_jobs')
+        .update({
+          status: 'running',
+          attempts: candidate.attempts + 1,
+          locked_at: now,
+          locked_by: workerId,
+          started_at: now
+        })
+        .eq('id', candidate.id)
+        .eq('status', 'queued')
+        .select()
+        .maybeSingle();
+
+      if (claimed) {
+        this.publish(claimed);
+        return claimed;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Refreshes the job lock. Returns false when the job is no longer running,
+   * which is how a worker notices a cancel issued on another instance.
+   */
+  /**
+   * Keeps a running job's lock fresh. Returns the job's status, read again
+   * when it is no longer running, or null when the database couldn't be
+   * reached, so a passing error isn't taken for a cancel.
+   */
+  async heartbeat(id: string): Promise<SyncJobStatus | null> {
+    const { data: job, error } = await supabase
+      .from('sync_jobs')
+      .update({ locked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'running')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to record sync job heartbeat', { jobId: id, error });
+      return null;
+    }
+    if (job) return 'running';
+
+    const { data: current, error: readError } = await supabase
+      .from('sync_jobs')
+      .select('status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (readError) {
+      logger.warn('Failed to read sync job status', { jobId: id, error: readError });
+      return null;
+    }
+
+    return current?.status ?? null;
+  }
+
+  async reportProgress(job: SyncJob, progress: SyncProgress): Promise<void> {
+    this.publish({ ...job, status: 'running', progress });
+
+    const lastWrite = this.lastProgressWrite.get(job.id) || 0;
+    if (Date.now() - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+    this.lastProgressWrite.set(job.id, Date.now());
+
+    await supabase
+      .from('sync_jobs')
+      .update({ progress })
+      .eq('id', job.id)
+      .eq('status', 'running');
+  }
+
+  /**
+   * Saves where a long-running job has got to, so a retry or a requeue
+   * after a restart continues from there instead of starting over.
+   */
+  async saveCheckpoint(job: SyncJob, checkpoint: Record<string, any>): Promise<void> {
+    job.checkpoint = checkpoint;
+
+    const { error } = await supabase
+      .from('sync_jobs')
+      .update({ checkpoint })
+      .eq('id', job.id)
+      .eq('status', 'running');
+
+    if (error) {
+      logger.error('Failed to save sync job checkpoint', { jobId: job.id, error });
+    }
+  }
+
+  async complete(job: SyncJob, progress: SyncProgress, result: Record<string, any>): Promise<void> {
+    this.lastProgressWrite.delete(job.id);
+
+    const { error } = await supabase
+      .from('sync_jobs')
+      .update({
+        status: 'completed',
+        progress,
+        result,
+        error_message: null,
+        locked_at: null,
+        locked_by: null,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running');
+
+    if (error) {
+      logger.error('Failed to mark sync job completed', { jobId: job.id, error });
+    }
+
+    this.publish({ ...job, status: 'completed', progress, result });
+  }
+
+  /**
+   * Cancels a queued or running job. Running jobs stop after the message
+   * they are currently processing.
+   */
+  async cancel(id: string, userId: string): Promise<SyncJob | null> {
+    const { data: job, error } = await supabase
+      .from('sync_jobs')
+      .update({
+        status: 'cancelled',
+        locked_at: null,
+        locked_by: null,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .in('status', ['queued', 'running'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to cancel sync job', { jobId: id, error });
+      throw new Error('Failed to cancel sync job');
+    }
+
+    if (!job) return null;
+
+    logger.info('Sync job cancelled', { jobId: id });
+    syncEvents.requestCancel(id);
+    this.publish(job);
+    return job;
+  }
+
+  /**
+   * Stores the final counts of a job that stopped because it was cancelled.
+   */
+  async finishCancelled(job: SyncJob, progress: SyncProgress, result: Record<string, any>): Promise<void> {
+    this.lastProgressWrite.delete(job.id);
+
+    await supabase
+      .from('sync_jobs')
+      .update({ progress, result })
+      .eq('id', job.id)
+      .eq('status', 'cancelled');
+
+    this.publish({ ...job, status: 'cancelled', progress, result });
+  }
+
+  /**
+   * Records a failed attempt. The job goes back on the queue with
+   * exponential backoff until it runs out of attempts.
+   */
+  async fail(job: SyncJob, message: string, retryable: boolean = true): Promise<void> {
+    this.lastProgressWrite.delete(job.id);
+    const retry = retryable && job.attempts < job.max_attempts;
+    const update = retry
+      ? {
+          status: 'queued',
+          error_message: message,
+          locked_at: null,
+          locked_by: null,
+          run_after: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)).toISOString()
+        }
+      : {
+          status: 'failed',
+          error_message: message,
+          locked_at: null,
+          locked_by: null,
+          finished_at: new Date().toISOString()
+        };
+
+    const { error } = await supabase
+      .from('sync_jobs')
+      .update(update)
+      .eq('id', job.id)
+      .eq('status', 'running');
+
+    if (error) {
+      logger.error('Failed to record sync job failure', { jobId: job.id, error });
+    }
+
+    this.publish({ ...job, status: retry ? 'queued' : 'failed', error_message: message });
+
+    logger.warn(retry ? 'Sync job failed, will retry' : 'Sync job failed permanently', {
+      jobId: job.id,
+      attempts: job.attempts,
+      error: message
+    });
+  }
+
+  /**
+   * Puts a claimed job back on the queue without counting the attempt,
+   * e.g. when the mailbox is already being synced by something else.
+   */
+  async release(job: SyncJob, delayMs: number): Promise<void> {
+    await supabase
+      .from('sync_jobs')
+      .update({
+        status: 'queued',
+        attempts: job.attempts - 1,
+        locked_at: null,
+        locked_by: null,
+        run_after: new Date(Date.now() + delayMs).toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running');
+
+    this.publish({ ...job, status: 'queued' });
+  }
+
+  /**
+   * Puts jobs whose worker stopped sending heartbeats back on the queue.
+   * Each interruption used up an attempt when the job was claimed, so a
+   * job that keeps taking its worker down with it fails once it runs out
+   * of attempts instead of being requeued forever.
+   */
+  async requeueStaleJobs(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+
+    const { data: stale, error } = await supabase
+      .from('sync_jobs')
+      .select('id, attempts, max_attempts')
+      .eq('status', 'running')
+      .lt('locked_at', staleBefore);
+
+    if (error) {
+      logger.error('Failed to requeue interrupted sync jobs', { error });
+      return 0;
+    }
+
+    let requeued = 0;
+    for (const job of stale || []) {
+      const exhausted = job.attempts >= job.max_attempts;
+      const now = new Date().toISOString();
+
+      // Same conditions as the select, in case the worker came back
+      const { data: updated, error: updateError } = await supabase
+        .from('sync_jobs')
+        .update(exhausted
+          ? {
+              status: 'failed',
+              error_message: `Interrupted ${job.attempts} times, giving up`,
+              locked_at: null,
+              locked_by: null,
+              finished_at: now
+            }
+          : {
+              status: 'queued',
+              locked_at: null,
+              locked_by: null,
+              run_after: now
+            })
+        .eq('id', job.id)
+        .eq('status', 'running')
+        .lt('locked_at', staleBefore)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        logger.error('Failed to requeue interrupted sync job', { jobId: job.id, error: updateError });
+        continue;
+      }
+      if (!updated) continue;
+
+      this.publish(updated);
+      if (exhausted) {
+        logger.warn('Interrupted sync job failed permanently', { jobId: job.id, attempts: job.attempts });
+      } else {
+        requeued++;
+      }
+    }
+
+    if (requeued > 0) {
+      logger.info('Requeued interrupted sync jobs', { count: requeued });
+    }
+
+    return requeued;
+  }
+
+  toEvent(job: SyncJob): SyncJobEvent {
+    return {
+      jobId: job.id,
+      mailboxId: job.mailbox_id,
+      status: job.status,
+      progress: job.progress,
+      error: job.error_message
+    };
+  }
+
+  private publish(job: SyncJob): void {
+    syncEvents.publish(this.toEvent(job));
+  }
+
+  private pending(job: SyncJob, kind: SyncJobKind, params: Record<string, any>): SyncJob {
+    if (!sameScope(kind, job.params, params)) {
+      throw new JobConflictError(job);
+    }
+    return job;
+  }
+
+  private async findActiveJob(mailboxId: string, kind: SyncJobKind): Promise<SyncJob | null> {
+    const { data: job } = await supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('mailbox_id', mailboxId)
+      .eq('kind', kind)
+      .in('status', ['queued', 'running'])
+      .maybeSingle();
+
+    return job || null;
+  }
+}
+
+export const syncJobService = new SyncJobService();
@@ -0,0 +1,81 @@
+import { supabase } from '../config/supabase';
+import { DEFAULT_TAXONOMY, FALLBACK_CATEGORY, Taxonomy } from './classificationSchema';
+import { logger } from '../utils/logger';
+
+export class TaxonomyService {
+  /**
+   * The user's taxonomy, or the default one when they haven't customized
+   * it (or it can't be loaded, so classification keeps working).
+   */
+  async get(userId: string): Promise<Taxonomy> {
+    const { taxonomy } = await this.load(userId);
+    return taxonomy;
+  }
+
+  async load(userId: string): Promise<{ taxonomy: Taxonomy; isDefault: boolean }> {
+    const { data, error } = await supabase
+      .from('taxonomies')
+      .select('sentiments, categories')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to load taxonomy, using the default', { userId, error });
+    }
+
+    if (!data) {
+      return { taxonomy: DEFAULT_TAXONOMY, isDefault: true };
+    }
+
+    // Taxonomies saved before the fallback category was required get it back
+    const categories = data.categories.some((category: any) => category.key === FALLBACK_CATEGORY)
+      ? data.categories
+      : [...data.categories, DEFAULT_TAXONOMY.categories.find(category => category.key === FALLBACK_CATEGORY)!];
+
+    return { taxonomy: { sentiments: data.sentiments, categories }, isDefault: false };
+  }
+
+  /**
+   * Saves an already validated taxonomy (see validateTaxonomy).
+   */
+  async save(userId: string, taxonomy: Taxonomy): Promise<Taxonomy> {
+    const { error } = await supabase
+      .from('taxonomies')
+      .upsert({
+        user_id: userId,
+        sentiments: taxonomy.sentiments,
+        categories: taxonomy.categories
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) {
+      logger.error('Failed to save taxonomy', { userId, error });
+      throw new Error('Failed to save taxonomy');
+    }
+
+    logger.info('Taxonomy saved', {
+      userId,
+      sentiments: taxonomy.sentiments.length,
+      categories: taxonomy.categories.length
+    });
+
+    return taxonomy;
+  }
+
+  async reset(userId: string): Promise<Taxonomy> {
+    const { error } = await supabase
+      .from('taxonomies')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to reset taxonomy', { userId, error });
+      throw new Error('Failed to reset taxonomy');
+    }
+
+    return DEFAULT_TAXONOMY;
+  }
+}
+
+export const taxonomyService = new TaxonomyService();
@@ -0,0 +1,83 @@
+import { AutomatedReplyInput, detectAutomatedReply } from '../autoReplyDetector';
+
+// A Monday
+const RECEIVED = '2025-10-20T09:30:00Z';
+
+const reply = (overrides: Partial<AutomatedReplyInput>): AutomatedReplyInput => ({
+  subject: 'Re: Quick question',
+  body: 'Thanks for reaching out.',
+  receivedAt: RECEIVED,
+  headers: {},
+  ...overrides
+});
+
+describe('detectAutomatedReply', () => {
+  describe('headers', () => {
+    it('trusts Auto-Submitted, reading the subject for out of office', () => {
+      expect(detectAutomatedReply(reply({ headers: { 'auto-submitted': 'auto-generated' } })))
+        .toMatchObject({ sentiment: 'auto_reply', confidence: 0.95 });
+      expect(detectAutomatedReply(reply({ subject: 'Out of Office: Quick question', headers: { 'auto-submitted': 'auto-replied' } })))
+        .toMatchObject({ sentiment: 'out_of_office', confidence: 0.98 });
+    });
+
+    it('takes X-Autoreply with a return date as out of office', () => {
+      expect(detectAutomatedReply(reply({ body: 'I will be back on 27 October.', headers: { 'x-autoreply': 'yes' } })))
+        .toMatchObject({ sentiment: 'out_of_office', confidence: 0.95 });
+    });
+
+    it('is less sure of Precedence: bulk than Precedence: auto_reply', () => {
+      expect(detectAutomatedReply(reply({ headers: { precedence: 'auto_reply' } })))
+        .toMatchObject({ sentiment: 'auto_reply', confidence: 0.95 });
+      expect(detectAutomatedReply(reply({ headers: { precedence: 'bulk' } })))
+        .toMatchObject({ sentiment: 'auto_reply', confidence: 0.8 });
+    });
+
+    it('ignores headers that say the reply is not automated', () => {
+      expect(detectAutomatedReply(reply({ headers: { 'auto-submitted': 'no' } }))).toBeNull();
+      expect(detectAutomatedReply(reply({ headers: { 'x-autoreply': 'no' } }))).toBeNull();
+      expect(detectAutomatedReply(reply({ headers: { precedence: 'list' } }))).toBeNull();
+    });
+  });
+
+  describe('subjects', () => {
+    it('tells an Outlook ticket acknowledgement from an absence by the body', () => {
+      const subject = 'Automatic reply: Quick question';
+
+      expect(detectAutomatedReply(reply({ subject, body: 'We received your request and will answer within 24 hours.' })))
+        .toMatchObject({ sentiment: 'auto_reply', confidence: 0.9 });
+      expect(detectAutomatedReply(reply({ subject, body: 'I am on annual leave with limited access to email.' })))
+        .toMatchObject({ sentiment: 'out_of_office', confidence: 0.9 });
+    });
+
+    it('reads localized out-of-office subjects, with or without stored headers', () => {
+      expect(detectAutomatedReply(reply({ subject: 'Abwesenheitsnotiz: Quick question', headers: null })))
+        .toMatchObject({ sentiment: 'out_of_office' });
+      expect(detectAutomatedReply(reply({ subject: 'Réponse automatique : Quick question', body: 'Je suis en congés.' })))
+        .toMatchObject({ sentiment: 'out_of_office' });
+    });
+
+    it('only reads a prefix, not the words anywhere in the subject', () => {
+      expect(detectAutomatedReply(reply({ subject: 'Re: Are you out of office next week?' }))).toBeNull();
+    });
+  });
+
+  it('leaves a person\'s reply to the model, even one mentioning a return date', () => {
+    expect(detectAutomatedReply(reply({}))).toBeNull();
+    expect(detectAutomatedReply(reply({ body: 'I will be back on 27 October, let us talk then.' }))).toBeNull();
+  });
+
+  it('lists what gave the reply away', () => {
+    const detected = detectAutomatedReply(reply({
+      subject: 'Out of office: Quick question',
+      body: 'Back on Monday 27 October, thanks for waiting.',
+      headers: { 'auto-submitted': 'auto-replied', 'x-autorespond': '' }
+    }));
+
+    expect(detected?.signals).toEqual([
+      'Auto-Submitted: auto-replied',
+      'X-Autorespond: (empty)',
+      'Subject: Out of office:',
+      'Back: Back on Monday 27 October'
+    ]);
+  });
+});
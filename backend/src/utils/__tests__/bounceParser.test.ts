@@ -0,0 +1,116 @@
+import { BounceSource, isDeliveryReport, parseBounces } from '../bounceParser';
+
+// The message/delivery-status part of a Gmail DSN, one block per recipient
+const deliveryStatus = (...recipients: string[]) => [
+  'Reporting-MTA: dns; googlemail.com\nArrival-Date: Mon, 20 Oct 2025 09:30:00 -0700 (PDT)',
+  ...recipients
+].join('\n\n');
+
+const gmailDsn = (status: string): BounceSource => ({
+  from: 'Mail Delivery Subsystem <mailer-daemon@googlemail.com>',
+  subject: 'Delivery Status Notification (Failure)',
+  bodyPlain: "Address not found\n\nYour message wasn't delivered because the address couldn't be found.",
+  mimeType: 'multipart/report',
+  deliveryStatus: status
+});
+
+const daemonNotice = (bodyPlain: string): BounceSource => ({
+  from: 'MAILER-DAEMON@mx.example.com',
+  subject: 'Mail delivery failed: returning message to sender',
+  bodyPlain
+});
+
+describe('isDeliveryReport', () => {
+  it('recognizes a DSN by its structure', () => {
+    expect(isDeliveryReport(gmailDsn(''))).toBe(true);
+    expect(isDeliveryReport({ from: 'x@y.com', subject: 'Hi', bodyPlain: '', deliveryStatus: 'Action: failed' })).toBe(true);
+  });
+
+  it('recognizes a plain-text notice from a mail daemon', () => {
+    expect(isDeliveryReport({ from: 'MAILER-DAEMON@mx.example.com', subject: 'Undeliverable: Hello', bodyPlain: '' })).toBe(true);
+    expect(isDeliveryReport({ from: 'postmaster@example.com', subject: 'Notice', bodyPlain: 'Could not reach jane@acme.com' })).toBe(true);
+  });
+
+  it('leaves replies from people alone, even with a bounce-like subject', () => {
+    expect(isDeliveryReport({ from: 'jane@acme.com', subject: 'Undeliverable: Hello', bodyPlain: '' })).toBe(false);
+    expect(isDeliveryReport({ from: 'jane@acme.com', subject: 'Out of office', bodyPlain: 'Back on Monday' })).toBe(false);
+  });
+});
+
+describe('parseBounces from a delivery-status part', () => {
+  it('reads a permanent failure', () => {
+    const [bounce, ...rest] = parseBounces(gmailDsn(deliveryStatus(
+      'Final-Recipient: rfc822; Jane@Acme.com\nAction: failed\nStatus: 5.1.1\n' +
+      'Diagnostic-Code: smtp; 550-5.1.1 The email account that you tried to reach does not exist.'
+    )));
+
+    expect(rest).toEqual([]);
+    expect(bounce).toMatchObject({ recipient: 'jane@acme.com', type: 'hard', status: '5.1.1', smtpCode: 550, action: 'failed' });
+  });
+
+  it('treats a full mailbox and a delay as soft', () => {
+    const bounces = parseBounces(gmailDsn(deliveryStatus(
+      'Final-Recipient: rfc822; jane@acme.com\nAction: failed\nStatus: 5.2.2\nDiagnostic-Code: smtp; 552 5.2.2 Mailbox full',
+      'Final-Recipient: rfc822; john@acme.com\nAction: delayed\nStatus: 4.4.1'
+    )));
+
+    expect(bounces).toEqual([
+      expect.objectContaining({ recipient: 'jane@acme.com', type: 'soft', status: '5.2.2', smtpCode: 552 }),
+      expect.objectContaining({ recipient: 'john@acme.com', type: 'soft', status: '4.4.1', action: 'delayed' })
+    ]);
+  });
+
+  it('unfolds a diagnostic code continued on the next line', () => {
+    const [bounce] = parseBounces(gmailDsn(deliveryStatus(
+      'Final-Recipient: rfc822; jane@acme.com\nAction: failed\nStatus: 5.1.1\nDiagnostic-Code: smtp; 550 5.1.1\n    user unknown'
+    )));
+
+    expect(bounce.diagnostic).toBe('550 5.1.1 user unknown');
+  });
+
+  it('skips recipients that were delivered', () => {
+    const bounces = parseBounces(gmailDsn(deliveryStatus(
+      'Final-Recipient: rfc822; jane@acme.com\nAction: failed\nStatus: 5.1.1',
+      'Final-Recipient: rfc822; john@acme.com\nAction: delivered\nStatus: 2.0.0',
+      'Final-Recipient: rfc822; joe@acme.com\nAction: failed\nStatus: 4.2.2'
+    )));
+
+    expect(bounces.map(bounce => bounce.recipient)).toEqual(['jane@acme.com', 'joe@acme.com']);
+    expect(parseBounces(gmailDsn(deliveryStatus('Final-Recipient: rfc822; john@acme.com\nAction: delivered\nStatus: 2.0.0')))).toEqual([]);
+  });
+});
+
+describe('parseBounces from the body text', () => {
+  it('reads the SMTP reply quoted in the notice', () => {
+    expect(parseBounces(daemonNotice(
+      'Your message to jane@acme.com could not be delivered.\n550 5.1.1 <jane@acme.com>: Recipient address rejected'
+    ))).toEqual([
+      expect.objectContaining({ recipient: 'jane@acme.com', type: 'hard', status: '5.1.1', smtpCode: 550 })
+    ]);
+  });
+
+  it('falls back to the wording when there is no SMTP code', () => {
+    const [unknownUser] = parseBounces(daemonNotice('Delivery to jane@acme.com failed: no such user here.'));
+    const [delayed] = parseBounces(daemonNotice('Delivery to jane@acme.com is delayed, we will keep trying.'));
+    const [unclear] = parseBounces(daemonNotice('There was a problem delivering your message to jane@acme.com.'));
+
+    expect(unknownUser).toMatchObject({ type: 'hard', status: null, smtpCode: null });
+    expect(delayed.type).toBe('soft');
+    // Not sure it's permanent, so the address isn't written off
+    expect(unclear.type).toBe('soft');
+  });
+
+  it('does not take the daemon address for the recipient', () => {
+    const [bounce] = parseBounces({
+      from: 'postmaster@mx.example.com',
+      subject: 'Undeliverable',
+      bodyPlain: 'From postmaster@mx.example.com: could not deliver to jane@acme.com'
+    });
+
+    expect(bounce.recipient).toBe('jane@acme.com');
+  });
+
+  it('returns nothing for a reply that mentions another address', () => {
+    expect(parseBounces({ from: 'jane@acme.com', subject: 'Re: Hello', bodyPlain: 'Email john@acme.com instead' })).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { parseReturnDate } from '../oooParser';
+
+// A Monday
+const RECEIVED = '2025-10-20T09:30:00Z';
+
+describe('parseReturnDate', () => {
+  it.each([
+    ['English, day and month', 'I am out of the office and will be back on 27 October.', '2025-10-27'],
+    ['English, month and day', 'I will return to the office on October 28th.', '2025-10-28'],
+    ['English, US numeric date', 'Back in the office 10/29/2025, limited access until then.', '2025-10-29'],
+    ['English, ISO date', 'Available again from 2025-11-03.', '2025-11-03'],
+    ['English, last day away', 'I am on leave until 31 October.', '2025-11-01'],
+    ['English, weekday', 'Back Thursday, please expect a delay.', '2025-10-23'],
+    ['English, tomorrow', 'Out today, back tomorrow.', '2025-10-21'],
+    ['French', 'Je suis absent, de retour le 3 novembre.', '2025-11-03'],
+    ['French, last day away', "Absent jusqu'au 31 octobre inclus.", '2025-11-01'],
+    ['German', 'Ich bin im Urlaub und wieder im Büro ab dem 4. November.', '2025-11-04'],
+    ['German, last day away', 'Ich bin bis zum 24.10. nicht erreichbar.', '2025-10-25'],
+    ['Spanish', 'Estoy fuera de la oficina, regreso el 5 de noviembre.', '2025-11-05'],
+    ['Dutch', 'Ik ben afwezig tot en met 30 oktober.', '2025-10-31'],
+    ['Italian', 'Sono fuori ufficio, rientro il 6 novembre.', '2025-11-06'],
+    ['Portuguese', 'Estou de férias, de volta em 7 de novembro.', '2025-11-07'],
+    ['year rolls over', 'Back on 5 January.', '2026-01-05']
+  ])('%s', (_name, text, expected) => {
+    expect(parseReturnDate(text, RECEIVED)?.date).toBe(expected);
+  });
+
+  it('ignores a date with no return phrase near it', () => {
+    expect(parseReturnDate('I have been away since 14 October.', RECEIVED)).toBeNull();
+    expect(parseReturnDate('Thanks for your email, I will get back to you.', RECEIVED)).toBeNull();
+  });
+
+  it('ignores return dates before the reply or more than a year after it', () => {
+    expect(parseReturnDate('Back on 2025-10-01.', RECEIVED)).toBeNull();
+    expect(parseReturnDate('Back on 2027-06-01.', RECEIVED)).toBeNull();
+  });
+
+  it('ignores dates that do not exist', () => {
+    expect(parseReturnDate('Back on 31 June.', RECEIVED)).toBeNull();
+  });
+
+  it('returns the text the date was read from', () => {
+    expect(parseReturnDate('I will be back on Monday 27 October, thanks for waiting.', RECEIVED)).toEqual({
+      date: '2025-10-27',
+      text: 'back on Monday 27 October'
+    });
+  });
+
+  it('returns null for an invalid received date', () => {
+    expect(parseReturnDate('Back on 27 October.', 'not a date')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { parseReply } from '../replyParser';
+
+describe('parseReply', () => {
+  it.each([
+    [
+      'Gmail attribution',
+      'Sounds good, let\'s talk Tuesday.\n\nOn Mon, Oct 20, 2025 at 10:02 AM Jane Doe <jane@acme.com> wrote:\n> Are you free this week?',
+      "Sounds good, let's talk Tuesday.",
+      'On Mon, Oct 20, 2025 at 10:02 AM Jane Doe <jane@acme.com> wrote:\n> Are you free this week?'
+    ],
+    [
+      'wrapped Gmail attribution',
+      'Yes please.\n\nOn Mon, Oct 20, 2025 at 10:02 AM Jane Doe\n<jane@acme.com> wrote:\n> Want a demo?',
+      'Yes please.',
+      'On Mon, Oct 20, 2025 at 10:02 AM Jane Doe\n<jane@acme.com> wrote:\n> Want a demo?'
+    ],
+    [
+      'French attribution',
+      'Merci, ça m\'intéresse.\n\nLe lun. 20 oct. 2025 à 10:02, Jane Doe <jane@acme.com> a écrit :\n> Bonjour',
+      "Merci, ça m'intéresse.",
+      'Le lun. 20 oct. 2025 à 10:02, Jane Doe <jane@acme.com> a écrit :\n> Bonjour'
+    ],
+    [
+      'Outlook separator',
+      'Not right now.\n\n-----Original Message-----\nFrom: Jane Doe\nSubject: Quick question',
+      'Not right now.',
+      '-----Original Message-----\nFrom: Jane Doe\nSubject: Quick question'
+    ],
+    [
+      'interleaved quotes',
+      '> Would Tuesday work?\nTuesday is fine.\n> Or Wednesday?\nWednesday too.',
+      'Tuesday is fine.\nWednesday too.',
+      '> Would Tuesday work?\n> Or Wednesday?'
+    ],
+    [
+      'no quoted history',
+      'Please send me the pricing.',
+      'Please send me the pricing.',
+      ''
+    ]
+  ])('separates the quoted thread: %s', (_name, body, newContent, quoted) => {
+    const reply = parseReply(body);
+    expect(reply.newContent).toBe(newContent);
+    expect(reply.quoted).toBe(quoted);
+  });
+
+  describe('signatures', () => {
+    it('cuts at the "-- " delimiter', () => {
+      const reply = parseReply('Happy to chat.\n-- \nJohn Smith\nHead of Sales');
+      expect(reply.newContent).toBe('Happy to chat.');
+      expect(reply.signature).toBe('-- \nJohn Smith\nHead of Sales');
+    });
+
+    it('cuts a mobile client footer', () => {
+      const reply = parseReply('Call me tomorrow.\n\nSent from my iPhone');
+      expect(reply.newContent).toBe('Call me tomorrow.');
+      expect(reply.signature).toBe('Sent from my iPhone');
+    });
+
+    it('cuts at a sign-off followed by a name and contact block', () => {
+      const reply = parseReply(
+        'Interested, send details.\n\nBest regards,\nJohn Smith\nVP Sales | Acme Corp.\n+1 555 0100\njohn@acme.com\nwww.acme.com'
+      );
+      expect(reply.newContent).toBe('Interested, send details.');
+      expect(reply.signature).toBe('Best regards,\nJohn Smith\nVP Sales | Acme Corp.\n+1 555 0100\njohn@acme.com\nwww.acme.com');
+    });
+
+    it('cuts at a sign-off on the last line', () => {
+      expect(parseReply('Not interested.\nThanks,')).toMatchObject({ newContent: 'Not interested.', signature: 'Thanks,' });
+    });
+
+    // The sign-off word is only a sign-off when nothing but a signature follows
+    it.each([
+      [
+        'a question after "Thanks,"',
+        'Sounds good.\nThanks,\nCould we instead meet Tuesday at 3pm? Monday is booked.\nJane'
+      ],
+      [
+        'prose after "Best,"',
+        'Hi,\nBest,\nI think it\'s a great fit and we\'d like a demo next week...'
+      ],
+      [
+        'a short sentence after "Cheers,"',
+        'Cheers,\nLet\'s do it.\nTom'
+      ]
+    ])('keeps %s', (_name, body) => {
+      expect(parseReply(body)).toMatchObject({ newContent: body, signature: '' });
+    });
+  });
+
+  it('separates a legal disclaimer', () => {
+    const reply = parseReply(
+      'Let\'s meet next week.\n\nCONFIDENTIALITY NOTICE: This email may contain privileged information.'
+    );
+    expect(reply.newContent).toBe("Let's meet next week.");
+    expect(reply.disclaimer).toBe('CONFIDENTIALITY NOTICE: This email may contain privileged information.');
+  });
+
+  it('normalizes Windows line endings', () => {
+    expect(parseReply('Yes.\r\n\r\nOn Mon, Oct 20, 2025 Jane wrote:\r\n> Hi').newContent).toBe('Yes.');
+  });
+
+  it('handles an empty body', () => {
+    expect(parseReply('')).toEqual({ newContent: '', quoted: '', signature: '', disclaimer: '' });
+  });
+});
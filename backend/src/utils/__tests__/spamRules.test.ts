@@ -0,0 +1,164 @@
+import {
+  DEFAULT_SPAM_RULES,
+  DEFAULT_SPAM_THRESHOLD,
+  SpamInput,
+  SpamRule,
+  evaluateSpamRules,
+  matchSpamRule,
+  unsafeRegexReason,
+  validateSpamRule
+} from '../spamRules';
+
+const rule = (overrides: Partial<SpamRule>): SpamRule => ({
+  id: 'rule-1',
+  name: 'Test rule',
+  type: 'regex',
+  field: 'any',
+  pattern: null,
+  terms: [],
+  case_sensitive: false,
+  weight: 1,
+  enabled: true,
+  ...overrides
+});
+
+const input = (overrides: Partial<SpamInput> = {}): SpamInput => ({
+  from: 'Jane Doe <jane@acme.com>',
+  subject: 'Re: Quick question',
+  body: 'Thanks, happy to talk next week.',
+  headers: {},
+  ...overrides
+});
+
+describe('matchSpamRule', () => {
+  const headers = (values: Record<string, string>) => input({ headers: values });
+
+  test.each([
+    { name: 'regex in the subject', spamRule: rule({ field: 'subject', pattern: 'quick\\s+question' }), message: input(), matched: 'Quick question' },
+    { name: 'phrase in the body', spamRule: rule({ type: 'phrases', terms: ['casino', 'Next Week'] }), message: input(), matched: 'Next Week' },
+    { name: 'sender domain', spamRule: rule({ type: 'sender_domain', terms: ['@ACME.com'] }), message: input(), matched: 'acme.com' },
+    { name: 'sender subdomain', spamRule: rule({ type: 'sender_domain', terms: ['acme.com'] }), message: input({ from: 'bot@mail.acme.com' }), matched: 'mail.acme.com' },
+    { name: 'header present', spamRule: rule({ type: 'header', pattern: 'list-unsubscribe' }), message: headers({ 'list-unsubscribe': '<mailto:u@x.com>' }), matched: 'list-unsubscribe: <mailto:u@x.com>' },
+    { name: 'header value', spamRule: rule({ type: 'header', pattern: 'x-spam-flag', terms: ['yes'] }), message: headers({ 'x-spam-flag': 'YES' }), matched: 'x-spam-flag: YES' }
+  ])('matches $name', ({ spamRule, message, matched }) => {
+    expect(matchSpamRule(spamRule, message)).toBe(matched);
+  });
+
+  it('only looks in the rule\'s field', () => {
+    expect(matchSpamRule(rule({ field: 'body', pattern: 'quick question' }), input())).toBeNull();
+  });
+
+  it('honours case_sensitive', () => {
+    expect(matchSpamRule(rule({ pattern: 'quick question', case_sensitive: true }), input())).toBeNull();
+  });
+
+  it('needs the whole phrase', () => {
+    expect(matchSpamRule(rule({ type: 'phrases', terms: ['casino'] }), input())).toBeNull();
+  });
+
+  it('does not match a lookalike sender domain', () => {
+    expect(matchSpamRule(rule({ type: 'sender_domain', terms: ['acme.com'] }), input({ from: 'x@notacme.com' }))).toBeNull();
+  });
+
+  it('needs a listed header value when the rule has terms', () => {
+    const flagged = rule({ type: 'header', pattern: 'x-spam-flag', terms: ['yes'] });
+    expect(matchSpamRule(flagged, headers({ 'x-spam-flag': 'NO' }))).toBeNull();
+    expect(matchSpamRule(flagged, input({ headers: null }))).toBeNull();
+  });
+
+  it('never runs an unsafe pattern saved before validation existed', () => {
+    expect(matchSpamRule(rule({ pattern: '(a+)+$' }), input({ body: 'aaaa' }))).toBeNull();
+  });
+});
+
+describe('evaluateSpamRules', () => {
+  it.each([
+    ['a tracking code alone', { subject: 'who should I call | J4C5BVX' }, true],
+    ['a generic question alone', { body: 'Who handles partnerships at your company?' }, false],
+    ['an order number alone', { subject: 'Order 6PZGMYD shipped' }, false],
+    ['a normal reply', {}, false]
+  ])('default rules: %s', (_name, overrides, isSpam) => {
+    expect(evaluateSpamRules(DEFAULT_SPAM_RULES, input(overrides), DEFAULT_SPAM_THRESHOLD).isSpam).toBe(isSpam);
+  });
+
+  it('adds up the weights of matching rules', () => {
+    const verdict = evaluateSpamRules([
+      rule({ id: 'a', type: 'phrases', terms: ['next week'], weight: 0.1 }),
+      rule({ id: 'b', type: 'phrases', terms: ['happy'], weight: 0.2 }),
+      rule({ id: 'c', type: 'phrases', terms: ['casino'], weight: 5 })
+    ], input(), 0.3);
+
+    expect(verdict).toMatchObject({ isSpam: true, score: 0.3, threshold: 0.3 });
+    expect(verdict.matches.map(match => match.ruleId)).toEqual(['a', 'b']);
+  });
+
+  it('lets negative weights vouch for a sender', () => {
+    const verdict = evaluateSpamRules([
+      rule({ type: 'phrases', terms: ['next week'], weight: 1 }),
+      rule({ type: 'sender_domain', terms: ['acme.com'], weight: -2 })
+    ], input(), 1);
+
+    expect(verdict).toMatchObject({ isSpam: false, score: -1 });
+  });
+
+  it('skips disabled rules', () => {
+    const verdict = evaluateSpamRules([rule({ type: 'phrases', terms: ['next week'], enabled: false })], input(), 1);
+    expect(verdict).toEqual({ isSpam: false, score: 0, threshold: 1, matches: [] });
+  });
+});
+
+describe('unsafeRegexReason', () => {
+  it.each([
+    ['(a+)+$'],
+    ['(a*)*'],
+    ['(a|ab)*c'],
+    ['(?:\\w+\\s?)+$'],
+    ['([a-z]+){2,}'],
+    ['(x+){1,5}'],
+    ['(.)\\1']
+  ])('refuses %s', pattern => {
+    expect(unsafeRegexReason(pattern)).not.toBeNull();
+  });
+
+  it.each([
+    ['viagra|casino'],
+    ['(ab)+'],
+    ['(x|y)?z'],
+    ['(a+)?'],
+    ['(\\d{2,3})-\\d+'],
+    ['\\(a+\\)+'],
+    ['[(a+)]+'],
+    ['(?<code>[A-Z]+\\d+){1}'],
+    [DEFAULT_SPAM_RULES[0].pattern!]
+  ])('allows %s', pattern => {
+    expect(unsafeRegexReason(pattern)).toBeNull();
+  });
+});
+
+describe('validateSpamRule', () => {
+  it.each([
+    [{ name: 'Codes', type: 'regex', pattern: '[A-Z]{3}\\d{3}', weight: 1 }, []],
+    [{ name: 'Bad regex', type: 'regex', pattern: '(unclosed', weight: 1 }, ['pattern is not a valid regular expression']],
+    [{ name: 'Slow regex', type: 'regex', pattern: '(a+)+$', weight: 1 }, ['pattern could take too long to match']],
+    [{ name: 'No terms', type: 'phrases', weight: 1 }, ['"terms" is required']],
+    [{ name: 'Too heavy', type: 'phrases', terms: ['x'], weight: 11 }, ['"weight" must be less than or equal to 10']]
+  ])('%j', (submitted, expectedErrors) => {
+    const { value, errors } = validateSpamRule(submitted);
+    expect(errors).toHaveLength(expectedErrors.length);
+    expectedErrors.forEach((expected, index) => expect(errors[index]).toContain(expected));
+    expect(value === null).toBe(expectedErrors.length > 0);
+  });
+
+  it('fills in defaults and lower-cases header names', () => {
+    expect(validateSpamRule({ name: 'Flag', type: 'header', pattern: 'X-Spam-Flag', weight: 1 }).value).toEqual({
+      name: 'Flag',
+      type: 'header',
+      field: 'any',
+      pattern: 'x-spam-flag',
+      terms: [],
+      case_sensitive: false,
+      weight: 1,
+      enabled: true
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { parseReturnDate } from './oooParser';
+
+// Recognizes machine-generated replies from their headers and subject, so
+// they can be labelled without calling the model:
+// - Auto-Submitted (RFC 3834): anything but "no" is automated
+// - X-Autoreply, X-Autorespond: set by most vacation responders
+// - Precedence: bulk, junk or auto_reply
+// - Subject prefixes Exchange, Gmail, Zimbra and others put on
+//   out-of-office replies, in the languages oooParser reads
+//
+// An automated reply is out of office when its subject or text says the
+// sender is away or gives a date they're back; otherwise it's an
+// auto-reply.
+
+// Recorded as the model of classifications made by these rules; bump it
+// when they change
+export const AUTO_REPLY_RULES_VERSION = 'auto-reply-rules-v1';
+
+export interface AutomatedReplyInput {
+  subject: string;
+  body: string;
+  receivedAt: Date | string;
+  // Header names lower-cased; null for messages stored before headers were
+  // kept, which then only go by the subject
+  headers?: Record<string, string> | null;
+}
+
+export interface AutomatedReply {
+  sentiment: 'auto_reply' | 'out_of_office';
+  // How sure the rules are, stored as the confidence score
+  confidence: number;
+  // What gave it away, e.g. "Auto-Submitted: auto-replied"
+  signals: string[];
+}
+
+const OUT_OF_OFFICE_SUBJECT = new RegExp('^\\s*(?:' + [
+  'out of (?:the )?office',
+  'ooo\\b',
+  'auto(?:matic)?[- ]?reply',
+  'away from (?:the|my) office',
+  'absence',
+  'absent',
+  "(?:message d')?absence du bureau",
+  'réponse automatique',
+  'abwesenheitsnotiz',
+  'automatische antwort',
+  'abwesend',
+  'fuera de la oficina',
+  'respuesta automática',
+  'afwezig',
+  'automatisch antwoord',
+  'fuori (?:sede|ufficio)',
+  'risposta automatica',
+  'ausente',
+  'fora do escritório',
+  'resposta automática'
+].join('|') + ')\\s*[:\\-–]', 'i');
+
+// Subjects that read as out of office rather than a generic auto-reply
+const OUT_OF_OFFICE_WORDS = /(out of (the )?office|\booo\b|absen|abwesen|fuera de la oficina|afwezig|fuori (sede|ufficio)|ausente|fora do escritório|vacation|holiday|congés|urlaub|vacaciones|vakantie|ferie|férias)/i;
+
+// Outlook puts "Automatic reply:" on out-of-office replies and on other
+// auto-responders alike, so the text has to say the sender is away
+const OUT_OF_OFFICE_TEXT = /(out of (the )?office|away from (the|my) (office|desk)|on (annual |parental |maternity |paternity |sick )?leave|on (vacation|holiday)|limited access to (my )?e-?mail|nicht im büro|abwesend|en congés?|absent du bureau|fuera de la oficina|de vacaciones|afwezig|met vakantie|fuori (sede|ufficio)|in ferie|ausente|de férias)/i;
+
+const AUTOMATED_PRECEDENCE = ['bulk', 'junk', 'auto_reply'];
+
+const headerSignals = (headers: Record<string, string>): { signals: string[]; strong: boolean } => {
+  const signals: string[] = [];
+  let strong = false;
+
+  const autoSubmitted = headers['auto-submitted']?.trim().toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') {
+    signals.push(`Auto-Submitted: ${autoSubmitted}`);
+    strong = true;
+  }
+
+  for (const name of ['x-autoreply', 'x-autorespond']) {
+    const value = headers[name]?.trim();
+    if (value !== undefined && value.toLowerCase() !== 'no') {
+      signals.push(`${name === 'x-autoreply' ? 'X-Autoreply' : 'X-Autorespond'}: ${value || '(empty)'}`);
+      strong = true;
+    }
+  }
+
+  const precedence = headers.precedence?.trim().toLowerCase();
+  if (precedence && AUTOMATED_PRECEDENCE.includes(precedence)) {
+    signals.push(`Precedence: ${precedence}`);
+    strong = strong || precedence === 'auto_reply';
+  }
+
+  return { signals, strong };
+};
+
+/**
+ * Whether a reply is machine-generated, and if so whether it's an
+ * out-of-office. Returns null for anything that should go to the model.
+ */
+export const detectAutomatedReply = (input: AutomatedReplyInput): AutomatedReply | null => {
+  const { signals, strong } = headerSignals(input.headers || {});
+  const subjectPrefix = input.subject.match(OUT_OF_OFFICE_SUBJECT)?.[0].trim();
+  if (subjectPrefix) {
+    signals.push(`Subject: ${subjectPrefix}`);
+  }
+
+  if (signals.length === 0) return null;
+
+  const returnDate = parseReturnDate(`${input.subject}\n${input.body}`, input.receivedAt);
+  if (returnDate) {
+    signals.push(`Back: ${returnDate.text}`);
+  }
+
+  const outOfOffice = Boolean(returnDate)
+    || OUT_OF_OFFICE_WORDS.test(input.subject)
+    || OUT_OF_OFFICE_TEXT.test(input.body);
+
+  // Headers and subject agreeing is as sure as this gets. A subject prefix
+  // alone can be typed by a person, and Precedence: bulk alone is also set
+  // by mailing software people reply through.
+  const confidence = strong && subjectPrefix ? 0.98
+    : strong ? 0.95
+    : subjectPrefix ? 0.9
+    : 0.8;
+
+  return { sentiment: outOfOffice ? 'out_of_office' : 'auto_reply', confidence, signals };
+};
@@ -0,0 +1,175 @@
+// Recognizes delivery status notifications (bounces) and reads what they
+// report: which recipient failed, the SMTP status, and whether the failure
+// is permanent (hard) or temporary (soft).
+//
+// Standard reports (RFC 3464) are multipart/report messages with a
+// message/delivery-status part holding "Field: value" blocks, one per
+// recipient. Some servers only send a plain-text explanation from
+// MAILER-DAEMON or postmaster; those are read from the body as a fallback.
+
+// Recorded as the model of classifications made from delivery reports;
+// bump it when the parsing changes
+export const BOUNCE_PARSER_VERSION = 'dsn-parser-v1';
+
+export type BounceType = 'hard' | 'soft';
+
+export interface Bounce {
+  recipient: string;
+  type: BounceType;
+  // Enhanced status code, e.g. "5.1.1"
+  status: string | null;
+  // Basic SMTP reply code, e.g. 550
+  smtpCode: number | null;
+  diagnostic: string | null;
+  // DSN action: failed, delayed, ...
+  action: string | null;
+}
+
+export interface BounceSource {
+  from: string;
+  subject: string;
+  bodyPlain: string;
+  // Top-level content type of the message
+  mimeType?: string | null;
+  // Text of the message/delivery-status part, if there was one
+  deliveryStatus?: string | null;
+}
+
+const DAEMON_SENDER = /(mailer-daemon|postmaster|mail delivery (subsystem|system))/i;
+
+const BOUNCE_SUBJECT = /(undeliverable|undelivered|delivery (status notification|has failed|failure|incomplete)|returned mail|failure notice|mail delivery failed|non[- ]?delivery)/i;
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const ENHANCED_STATUS = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const SMTP_CODE = /\b([45]\d{2})[\s-]/;
+
+// Statuses that start with 5 but are worth retrying: a full mailbox or a
+// message too large for it
+const SOFT_PERMANENT_STATUSES = ['5.2.2', '5.2.3', '5.3.4'];
+
+const HARD_PHRASES = /(does not exist|doesn't exist|user unknown|unknown user|no such (user|mailbox|recipient)|address not found|invalid (recipient|address|mailbox)|recipient (address )?rejected|mailbox unavailable|account (has been )?disabled|not a valid)/i;
+const SOFT_PHRASES = /(mailbox (is )?full|over quota|quota exceeded|temporar(y|ily)|try again|delayed|will (retry|keep trying)|greylist)/i;
+
+/**
+ * Whether a message is a delivery status notification rather than a
+ * reply. Out-of-office and other auto-replies are not.
+ */
+export const isDeliveryReport = (message: BounceSource): boolean => {
+  if (message.deliveryStatus) return true;
+  if (message.mimeType?.toLowerCase() === 'multipart/report') return true;
+  return DAEMON_SENDER.test(message.from) && (BOUNCE_SUBJECT.test(message.subject) || EMAIL.test(message.bodyPlain));
+};
+
+const classify = (status: string | null, smtpCode: number | null, action: string | null, text: string): BounceType => {
+  if (action === 'delayed') return 'soft';
+  if (status) {
+    if (SOFT_PERMANENT_STATUSES.includes(status)) return 'soft';
+    return status.startsWith('5') ? 'hard' : 'soft';
+  }
+  if (smtpCode) return smtpCode >= 500 ? 'hard' : 'soft';
+  if (SOFT_PHRASES.test(text)) return 'soft';
+  // Without a status code only a clear "no such user" is permanent; a
+  // wrong guess here would stop emails to a working address
+  return HARD_PHRASES.test(text) ? 'hard' : 'soft';
+};
+
+/**
+ * "Field: value" pairs of one block, with folded continuation lines
+ * joined back on.
+ */
+const parseFields = (block: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let last: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^\s/.test(line) && last) {
+      fields[last] += ` ${line.trim()}`;
+      continue;
+    }
+    const match = line.match(/^([A-Za-z-]+):\s*(.*)$/);
+    if (match) {
+      last = match[1].toLowerCase();
+      fields[last] = match[2].trim();
+    }
+  }
+
+  return fields;
+};
+
+// "rfc822; jane@acme.com" -> "jane@acme.com"
+const addressOf = (value: string | undefined) => value?.match(EMAIL)?.[0].toLowerCase() || null;
+
+const smtpCodeOf = (text: string | null) => {
+  const match = text?.match(SMTP_CODE);
+  return match ? Number(match[1]) : null;
+};
+
+const fromDeliveryStatus = (report: string): Bounce[] => {
+  const bounces: Bounce[] = [];
+
+  // The first block describes the reporting server, each later one a recipient
+  for (const block of report.split(/\r?\n\s*\r?\n/)) {
+    const fields = parseFields(block);
+    const recipient = addressOf(fields['final-recipient'] || fields['original-recipient']);
+    if (!recipient) continue;
+
+    const action = fields.action?.toLowerCase() || null;
+    if (action === 'delivered' || action === 'relayed' || action === 'expanded') continue;
+
+    const diagnostic = fields['diagnostic-code']?.replace(/^smtp;\s*/i, '') || null;
+    const status = fields.status?.match(ENHANCED_STATUS)?.[0] || null;
+    const smtpCode = smtpCodeOf(diagnostic);
+
+    bounces.push({
+      recipient,
+      type: classify(status, smtpCode, action, diagnostic || ''),
+      status,
+      smtpCode,
+      diagnostic,
+      action
+    });
+  }
+
+  return bounces;
+};
+
+const fromBody = (message: BounceSource): Bounce[] => {
+  const text = message.bodyPlain;
+  const excluded = addressOf(message.from);
+  const recipient = (text.match(new RegExp(EMAIL.source, 'gi')) || [])
+    .map(address => address.toLowerCase())
+    .find(address => address !== excluded && !DAEMON_SENDER.test(address));
+  if (!recipient) return [];
+
+  const status = text.match(ENHANCED_STATUS)?.[0] || null;
+  const smtpCode = smtpCodeOf(text);
+  // The line with the server's answer is the most useful part to keep
+  const diagnostic = text.split(/\r?\n/).find(line => SMTP_CODE.test(line) || ENHANCED_STATUS.test(line))?.trim() || null;
+
+  return [{
+    recipient,
+    type: classify(status, smtpCode, null, text),
+    status,
+    smtpCode,
+    diagnostic: diagnostic ? diagnostic.slice(0, 500) : null,
+    action: null
+  }];
+};
+
+/**
+ * The failed recipients a delivery report lists, or an empty list when
+ * the message isn't one (or only reports successful deliveries).
+ */
+export const parseBounces = (message: BounceSource): Bounce[] => {
+  if (!isDeliveryReport(message)) return [];
+
+  if (message.deliveryStatus) {
+    const bounces = fromDeliveryStatus(message.deliveryStatus);
+    if (bounces.length > 0) return bounces;
+    // A report that parses but names no failed recipient was a success
+    // notification
+    if (/final-recipient/i.test(message.deliveryStatus)) return [];
+  }
+
+  return fromBody(message);
+};
@@ -0,0 +1,221 @@
+// Structured details in a reply: meeting times the sender proposes,
+// colleagues they refer us to, phone numbers, their company and job title,
+// and when an out-of-office sender is back. Most come from the model's
+// answer; phone numbers and email addresses are also matched with patterns
+// so they are found even when the model misses them.
+
+export const ENTITY_TYPES = ['meeting_time', 'referral', 'phone', 'company', 'job_title', 'return_date'] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+export interface ExtractedEntity {
+  type: EntityType;
+  // What is shown: the number, the person, the company, or the text of a
+  // meeting time as the sender wrote it
+  value: string;
+  // meeting_time and return_date, as an ISO timestamp
+  startsAt: string | null;
+  // Type-specific fields, e.g. { name, email, title } of a referral
+  details: Record<string, string | null>;
+  source: 'model' | 'pattern';
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const EMAIL_ONLY = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i;
+
+// An optional country code, an optional area code in parentheses, then
+// groups of digits separated by spaces, dots or dashes
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,5}){1,4}(?![\w])/g;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_PER_TYPE = 10;
+
+// Proposed meetings further from the reply than this are most likely
+// misread dates
+const MEETING_WINDOW_MS = 366 * 24 * 60 * 60 * 1000;
+
+const digitsOf = (phone: string) => phone.replace(/\D/g, '');
+
+/**
+ * Whether a match of PHONE_PATTERN is plausibly a phone number: 7 to 15
+ * digits, written with a country code or separators (a bare run of digits
+ * is more likely an order or ticket number), and not a date.
+ */
+const isPhoneNumber = (candidate: string) => {
+  const digits = digitsOf(candidate).length;
+  if (digits < 7 || digits > 15) return false;
+  if (ISO_DATE.test(candidate) || /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/.test(candidate)) return false;
+  return /^\+|[\s.()-]/.test(candidate);
+};
+
+const cleanText = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().replace(/\s+/g, ' ');
+  return text ? text.slice(0, MAX_TEXT_LENGTH) : null;
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value.slice(0, MAX_PER_TYPE) : []);
+
+/**
+ * UTC offset of a time zone at a given moment, e.g. "+02:00". Unknown
+ * zones are treated as UTC.
+ */
+export const timeZoneOffset = (timeZone: string, at: Date = new Date()): string => {
+  try {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+      .formatToParts(at)
+      .find(part => part.type === 'timeZoneName')?.value;
+    const match = name?.match(/([+-])(\d{2}):?(\d{2})/);
+    return match ? `${match[1]}${match[2]}:${match[3]}` : '+00:00';
+  } catch {
+    return '+00:00';
+  }
+};
+
+/**
+ * Reads a date-time the model gave. Times without an offset are taken to
+ * be in the given zone.
+ */
+const parseDateTime = (value: unknown, timeZone: string, reference: Date): Date | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  let date: Date;
+  if (HAS_OFFSET.test(text)) {
+    date = new Date(text);
+  } else if (LOCAL_DATE_TIME.test(text)) {
+    date = new Date(`${text}${timeZoneOffset(timeZone, reference)}`);
+  } else {
+    return null;
+  }
+
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export interface NormalizeOptions {
+  // Zone that times without an explicit offset are in
+  timeZone: string;
+  // When the reply was received; relative dates were resolved against it
+  receivedAt: Date;
+}
+
+/**
+ * Turns the `entities` field of a model answer into entities. The field is
+ * optional and read leniently: anything malformed is dropped on its own
+ * rather than failing the classification.
+ */
+export const normalizeModelEntities = (raw: unknown, { timeZone, receivedAt }: NormalizeOptions): ExtractedEntity[] => {
+  if (!raw || typeof raw !== 'object') return [];
+  const input = raw as Record<string, unknown>;
+  const entities: ExtractedEntity[] = [];
+  const entity = (type: EntityType, value: string, startsAt: Date | null = null, details: ExtractedEntity['details'] = {}) =>
+    entities.push({ type, value, startsAt: startsAt ? startsAt.toISOString() : null, details, source: 'model' });
+
+  for (const item of asArray(input.meeting_times)) {
+    const meeting = (item || {}) as Record<string, unknown>;
+    const start = parseDateTime(meeting.start, timeZone, receivedAt);
+    if (!start || Math.abs(start.getTime() - receivedAt.getTime()) > MEETING_WINDOW_MS) continue;
+    const text = cleanText(meeting.text);
+    entity('meeting_time', text || start.toISOString(), start, { text });
+  }
+
+  for (const item of asArray(input.referrals)) {
+    const referral = (item || {}) as Record<string, unknown>;
+    const name = cleanText(referral.name);
+    const rawEmail = cleanText(referral.email);
+    const email = rawEmail && EMAIL_ONLY.test(rawEmail) ? rawEmail.toLowerCase() : null;
+    if (!name && !email) continue;
+    entity('referral', (name || email) as string, null, { name, email, title: cleanText(referral.title) });
+  }
+
+  for (const item of asArray(input.phone_numbers)) {
+    const phone = cleanText(item);
+    if (phone && isPhoneNumber(phone)) entity('phone', phone);
+  }
+
+  const company = cleanText(input.company);
+  if (company) entity('company', company);
+
+  const jobTitle = cleanText(input.job_title);
+  if (jobTitle) entity('job_title', jobTitle);
+
+  const returnDate = cleanText(input.return_date);
+  if (returnDate && ISO_DATE.test(returnDate)) {
+    const start = parseDateTime(`${returnDate}T00:00`, timeZone, receivedAt);
+    if (start && start.getTime() >= receivedAt.getTime() - 24 * 60 * 60 * 1000) {
+      entity('return_date', returnDate, start);
+    }
+  }
+
+  return entities;
+};
+
+export interface PatternSources {
+  // What the sender wrote; email addresses here are taken as referrals
+  body: string;
+  // Their signature, searched for phone numbers only
+  signature?: string | null;
+  // Addresses that are never referrals, such as the sender's
+  exclude?: Array<string | null | undefined>;
+}
+
+/**
+ * Phone numbers and referred email addresses found by pattern matching.
+ */
+export const extractPatternEntities = ({ body, signature, exclude = [] }: PatternSources): ExtractedEntity[] => {
+  const entities: ExtractedEntity[] = [];
+  // Entries may be whole From headers ("Jane Doe <jane@acme.com>")
+  const excluded = new Set(exclude.flatMap(value => (value || '').match(EMAIL_PATTERN) || [])
+    .map(address => address.toLowerCase()));
+
+  for (const text of [body, signature || '']) {
+    for (const match of text.match(PHONE_PATTERN) || []) {
+      const phone = match.trim();
+      if (isPhoneNumber(phone)) {
+        entities.push({ type: 'phone', value: phone, startsAt: null, details: {}, source: 'pattern' });
+      }
+    }
+  }
+
+  for (const match of body.match(EMAIL_PATTERN) || []) {
+    const email = match.toLowerCase();
+    if (excluded.has(email)) continue;
+    entities.push({
+      type: 'referral',
+      value: email,
+      startsAt: null,
+      details: { name: null, email, title: null },
+      source: 'pattern'
+    });
+  }
+
+  return entities;
+};
+
+const dedupeKey = (entity: ExtractedEntity) => {
+  if (entity.type === 'phone') return `phone:${digitsOf(entity.value).slice(-9)}`;
+  if (entity.type === 'referral') return `referral:${entity.details.email || entity.value.toLowerCase()}`;
+  if (entity.type === 'meeting_time') return `meeting_time:${entity.startsAt}`;
+  // A reply has one sender, so one company, title and return date
+  return entity.type;
+};
+
+/**
+ * Combines entity lists, keeping the first of duplicates, so the model's
+ * richer version of a referral or number wins over a pattern match.
+ */
+export const mergeEntities = (...lists: ExtractedEntity[][]): ExtractedEntity[] => {
+  const seen = new Set<string>();
+  const merged: ExtractedEntity[] = [];
+
+  for (const entity of lists.flat()) {
+    const key = dedupeKey(entity);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(entity);
+  }
+
+  return merged;
+};
@@ -0,0 +1,190 @@
+// Scores a classifier run against human labels: accuracy, a confusion
+// matrix, per-label precision and recall, and how well confidence_score
+// tracks actual correctness.
+
+// Predictions that errored or failed validation are counted under this
+// label, so they show up as misses rather than silently disappearing
+export const NO_PREDICTION = 'error';
+
+/**
+ * One line of a labeled JSONL dataset, as written by the export script.
+ */
+export interface DatasetRow {
+  id: string;
+  subject: string;
+  body: string;
+  sentiment: string;
+  interest_level?: string;
+  category?: string;
+}
+
+export interface EvaluationItem {
+  id: string;
+  expected: string;
+  predicted: string;
+  confidence: number | null;
+}
+
+export interface LabelMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  avgConfidence: number;
+  accuracy: number;
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+  errors: number;
+  labels: string[];
+  // confusion[expected][predicted] = count
+  confusion: Record<string, Record<string, number>>;
+  perLabel: Record<string, LabelMetrics>;
+  calibration: CalibrationBin[];
+  // Expected calibration error: count-weighted gap between confidence and accuracy
+  ece: number;
+}
+
+export interface LabelDiff {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationDiff {
+  accuracy: number;
+  ece: number;
+  perLabel: Record<string, LabelDiff>;
+  fixed: string[];
+  regressed: string[];
+  changed: Array<{ id: string; expected: string; before: string; after: string }>;
+}
+
+const CALIBRATION_BINS = 10;
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? 0 : numerator / denominator);
+
+export const computeMetrics = (items: EvaluationItem[], knownLabels: readonly string[] = []): EvaluationMetrics => {
+  const labels = Array.from(new Set([
+    ...knownLabels,
+    ...items.map(item => item.expected),
+    ...items.map(item => item.predicted)
+  ]));
+
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const expected of labels) {
+    confusion[expected] = {};
+    for (const predicted of labels) {
+      confusion[expected][predicted] = 0;
+    }
+  }
+
+  let correct = 0;
+  for (const item of items) {
+    confusion[item.expected][item.predicted]++;
+    if (item.expected === item.predicted) correct++;
+  }
+
+  const perLabel: Record<string, LabelMetrics> = {};
+  for (const label of labels) {
+    if (label === NO_PREDICTION) continue;
+
+    const truePositives = confusion[label][label];
+    const predictedAs = labels.reduce((sum, expected) => sum + confusion[expected][label], 0);
+    const support = labels.reduce((sum, predicted) => sum + confusion[label][predicted], 0);
+    const precision = ratio(truePositives, predictedAs);
+    const recall = ratio(truePositives, support);
+
+    perLabel[label] = {
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+      support
+    };
+  }
+
+  const calibration: CalibrationBin[] = [];
+  const scored = items.filter(item => item.confidence !== null && item.predicted !== NO_PREDICTION);
+  let ece = 0;
+
+  for (let bin = 0; bin < CALIBRATION_BINS; bin++) {
+    const from = bin / CALIBRATION_BINS;
+    const to = (bin + 1) / CALIBRATION_BINS;
+    const inBin = scored.filter(item => {
+      const confidence = item.confidence as number;
+      return confidence >= from && (bin === CALIBRATION_BINS - 1 ? confidence <= to : confidence < to);
+    });
+
+    if (inBin.length === 0) continue;
+
+    const avgConfidence = inBin.reduce((sum, item) => sum + (item.confidence as number), 0) / inBin.length;
+    const accuracy = ratio(inBin.filter(item => item.expected === item.predicted).length, inBin.length);
+
+    calibration.push({ from, to, count: inBin.length, avgConfidence, accuracy });
+    ece += (inBin.length / scored.length) * Math.abs(avgConfidence - accuracy);
+  }
+
+  return {
+    total: items.length,
+    correct,
+    accuracy: ratio(correct, items.length),
+    errors: items.filter(item => item.predicted === NO_PREDICTION).length,
+    labels,
+    confusion,
+    perLabel,
+    calibration,
+    ece
+  };
+};
+
+/**
+ * Compares a run with an earlier one over the same dataset. Items are
+ * matched by id; items only present in one of the runs are ignored.
+ */
+export const diffRuns = (
+  baseline: { items: EvaluationItem[]; metrics: EvaluationMetrics },
+  current: { items: EvaluationItem[]; metrics: EvaluationMetrics }
+): EvaluationDiff => {
+  const perLabel: Record<string, LabelDiff> = {};
+  for (const label of Object.keys(current.metrics.perLabel)) {
+    const before = baseline.metrics.perLabel[label] || { precision: 0, recall: 0, f1: 0 };
+    const after = current.metrics.perLabel[label];
+    perLabel[label] = {
+      precision: after.precision - before.precision,
+      recall: after.recall - before.recall,
+      f1: after.f1 - before.f1
+    };
+  }
+
+  const previous = new Map(baseline.items.map(item => [item.id, item]));
+  const fixed: string[] = [];
+  const regressed: string[] = [];
+  const changed: EvaluationDiff['changed'] = [];
+
+  for (const item of current.items) {
+    const before = previous.get(item.id);
+    if (!before || before.predicted === item.predicted) continue;
+
+    changed.push({ id: item.id, expected: item.expected, before: before.predicted, after: item.predicted });
+    if (item.predicted === item.expected) fixed.push(item.id);
+    else if (before.predicted === before.expected) regressed.push(item.id);
+  }
+
+  return {
+    accuracy: current.metrics.accuracy - baseline.metrics.accuracy,
+    ece: current.metrics.ece - baseline.metrics.ece,
+    perLabel,
+    fixed,
+    regressed,
+    changed
+  };
+};
@@ -0,0 +1,243 @@
+// Finds the date the sender of an out-of-office reply is back, in English,
+// French, German, Spanish, Dutch, Italian and Portuguese messages. A date
+// only counts when it follows a phrase like "back on" or "jusqu'au", so the
+// dates the sender was away from, or the date the email was sent, are not
+// mistaken for it.
+
+export interface ReturnDate {
+  // First day the sender is back, YYYY-MM-DD
+  date: string;
+  // The part of the message the date was read from
+  text: string;
+}
+
+interface Trigger {
+  pattern: string;
+  // "until 24 October", "jusqu'au 24 octobre": the date is the last day
+  // away, so the sender is back the day after. Following up a day late is
+  // better than a day early.
+  lastDayAway?: boolean;
+  // US-style 10/24 dates; elsewhere 24/10
+  monthFirst?: boolean;
+}
+
+const TRIGGERS: Trigger[] = [
+  // English
+  { pattern: 'back (?:in the office |at work |at my desk )?(?:on |from )?', monthFirst: true },
+  { pattern: 'return(?:ing)? (?:to (?:the|my) office |to work )?(?:on )?', monthFirst: true },
+  { pattern: '(?:in the office|available) (?:again )?(?:on|from) ', monthFirst: true },
+  { pattern: '(?:until|till|through|thru) (?:and including )?', lastDayAway: true, monthFirst: true },
+  // French
+  { pattern: 'de retour (?:au bureau )?(?:le |à partir du )?' },
+  { pattern: 'retour (?:prévu |au bureau )?(?:le )?' },
+  { pattern: "jusqu'(?:au|à) (?:et y compris )?", lastDayAway: true },
+  // German
+  { pattern: 'zurück (?:im büro )?(?:am |ab )?(?:dem )?' },
+  { pattern: 'wieder (?:im büro |erreichbar |da |verfügbar )?(?:am |ab )(?:dem )?' },
+  { pattern: 'bis (?:einschließlich |einschl\\. )?(?:zum |am )?', lastDayAway: true },
+  // Spanish
+  { pattern: 'de vuelta (?:en la oficina )?(?:el )?' },
+  { pattern: '(?:regres(?:o|aré)|volveré) (?:a la oficina )?(?:el )?' },
+  { pattern: 'hasta (?:el )?', lastDayAway: true },
+  // Dutch
+  { pattern: 'terug (?:op kantoor )?(?:op |vanaf )?' },
+  { pattern: 'weer (?:aanwezig|beschikbaar|op kantoor) (?:op |vanaf )?' },
+  { pattern: '(?:tot en met|t/m|tot) ', lastDayAway: true },
+  // Italian
+  { pattern: 'rientr(?:o|erò) (?:in ufficio )?(?:il |dal )?' },
+  { pattern: '(?:di ritorno|tornerò) (?:in ufficio )?(?:il |dal )?' },
+  { pattern: 'fino al(?:l[ae] )? ', lastDayAway: true },
+  // Portuguese
+  { pattern: '(?:de volta|retorno|regresso) (?:ao escritório )?(?:em |no dia |a )?' },
+  { pattern: 'até (?:o dia |dia |ao dia )?', lastDayAway: true }
+];
+
+const MONTH_NAMES: Array<[number, string[]]> = [
+  [1, ['january', 'jan', 'janvier', 'janv', 'januar', 'enero', 'ene', 'januari', 'gennaio', 'janeiro']],
+  [2, ['february', 'feb', 'février', 'fevrier', 'févr', 'fevr', 'februar', 'febrero', 'februari', 'febbraio', 'fevereiro', 'fev']],
+  [3, ['march', 'mar', 'mars', 'märz', 'maerz', 'marzo', 'maart', 'março', 'marco']],
+  [4, ['april', 'apr', 'avril', 'avr', 'abril', 'abr', 'aprile']],
+  [5, ['may', 'mai', 'mayo', 'mei', 'maggio', 'maio']],
+  [6, ['june', 'jun', 'juin', 'juni', 'junio', 'giugno', 'giu', 'junho']],
+  [7, ['july', 'jul', 'juillet', 'juil', 'juli', 'julio', 'luglio', 'lug', 'julho']],
+  [8, ['august', 'aug', 'août', 'aout', 'agosto', 'augustus']],
+  [9, ['september', 'sep', 'sept', 'septembre', 'septiembre', 'setiembre', 'settembre', 'setembro']],
+  [10, ['october', 'oct', 'octobre', 'oktober', 'okt', 'octubre', 'ottobre', 'ott', 'outubro']],
+  [11, ['november', 'nov', 'novembre', 'noviembre', 'novembro']],
+  [12, ['december', 'dec', 'décembre', 'decembre', 'déc', 'dezember', 'dez', 'diciembre', 'dic', 'dicembre', 'dezembro']]
+];
+
+// Index 0 is Sunday, as in Date.getUTCDay
+const WEEKDAY_NAMES: string[][] = [
+  ['sunday', 'dimanche', 'sonntag', 'domingo', 'zondag', 'domenica'],
+  ['monday', 'lundi', 'montag', 'lunes', 'maandag', 'lunedì', 'lunedi', 'segunda-feira', 'segunda'],
+  ['tuesday', 'mardi', 'dienstag', 'martes', 'dinsdag', 'martedì', 'martedi', 'terça-feira', 'terça', 'terca'],
+  ['wednesday', 'mercredi', 'mittwoch', 'miércoles', 'miercoles', 'woensdag', 'mercoledì', 'mercoledi', 'quarta-feira', 'quarta'],
+  ['thursday', 'jeudi', 'donnerstag', 'jueves', 'donderdag', 'giovedì', 'giovedi', 'quinta-feira', 'quinta'],
+  ['friday', 'vendredi', 'freitag', 'viernes', 'vrijdag', 'venerdì', 'venerdi', 'sexta-feira', 'sexta'],
+  ['saturday', 'samedi', 'samstag', 'sábado', 'sabado', 'zaterdag', 'sabato']
+];
+
+const TOMORROW = ['tomorrow', 'demain', 'morgen', 'mañana', 'domani', 'amanhã', 'amanha'];
+
+const MONTHS = new Map(MONTH_NAMES.flatMap(([month, names]) => names.map(name => [name, month] as [string, number])));
+const WEEKDAYS = new Map(WEEKDAY_NAMES.flatMap((names, day) => names.map(name => [name, day] as [string, number])));
+
+// \b only knows ASCII letters, which would split "février" or "lunedì"
+const START = '(?<![\\p{L}\\d])';
+const END = '(?![\\p{L}\\d])';
+const WORD = '[\\p{L}-]+';
+
+const ISO_DATE = new RegExp(`${START}(\\d{4})-(\\d{1,2})-(\\d{1,2})${END}`, 'u');
+const NUMERIC_DATE = new RegExp(`${START}(\\d{1,2})([./-])(\\d{1,2})(?:\\2(\\d{4}|\\d{2}))?\\.?(?!\\d)`, 'u');
+const DAY_MONTH = new RegExp(`${START}(\\d{1,2})(?:st|nd|rd|th|er|e|\\.|º)?\\s*(?:de\\s+|of\\s+)?(${WORD})\\.?(?:,?\\s*(?:de\\s+)?(\\d{4}))?`, 'gu');
+const MONTH_DAY = new RegExp(`${START}(${WORD})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?${END}(?:,?\\s*(\\d{4}))?`, 'gu');
+const NAMED_DAY = new RegExp(`${START}(${WORD})${END}`, 'gu');
+
+// How far past a trigger phrase the date is looked for
+const WINDOW_CHARS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Return dates further out than this are most likely misread
+const MAX_DAYS_AHEAD = 366;
+
+const TRIGGER_PATTERNS = TRIGGERS.map(trigger => ({ trigger, regex: new RegExp(`${START}(?:${trigger.pattern})`, 'giu') }));
+
+const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const toIsoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * A calendar date as a UTC timestamp, or null when it doesn't exist
+ * (31 June, month 13).
+ */
+const calendarDate = (year: number, month: number, day: number): number | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const time = Date.UTC(year, month - 1, day);
+  return new Date(time).getUTCDate() === day ? time : null;
+};
+
+/**
+ * Fills in a missing year: the next occurrence of the day and month on or
+ * after the reply, so "back 5 January" in a December reply is next year.
+ */
+const resolveYear = (month: number, day: number, year: number | null, received: number): number | null => {
+  if (year !== null) {
+    return calendarDate(year < 100 ? 2000 + year : year, month, day);
+  }
+
+  const receivedYear = new Date(received).getUTCFullYear();
+  const thisYear = calendarDate(receivedYear, month, day);
+  if (thisYear !== null && thisYear >= received - DAY_MS) return thisYear;
+  return calendarDate(receivedYear + 1, month, day);
+};
+
+interface Candidate {
+  time: number;
+  index: number;
+  text: string;
+}
+
+/**
+ * Explicit dates in a piece of text: ISO, numeric and with month names.
+ */
+const explicitDate = (window: string, monthFirst: boolean, received: number): Candidate | null => {
+  const candidates: Candidate[] = [];
+
+  const iso = window.match(ISO_DATE);
+  if (iso?.index !== undefined) {
+    const time = calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (time !== null) candidates.push({ time, index: iso.index, text: iso[0] });
+  }
+
+  // Part of an ISO date would also read as a numeric one
+  const numeric = iso ? null : window.match(NUMERIC_DATE);
+  if (numeric?.index !== undefined) {
+    let first = Number(numeric[1]);
+    let second = Number(numeric[3]);
+    // 24.10. is always day first; slashes follow the language unless the
+    // numbers only make sense one way round
+    const swap = numeric[2] !== '.' && (first > 12 ? false : second > 12 ? true : monthFirst);
+    if (swap) [first, second] = [second, first];
+    const time = resolveYear(second, first, numeric[4] ? Number(numeric[4]) : null, received);
+    if (time !== null) candidates.push({ time, index: numeric.index, text: numeric[0] });
+  }
+
+  // "5 days, back 27 October": skip numbers not followed by a month name
+  for (const match of window.matchAll(DAY_MONTH)) {
+    const month = MONTHS.get(match[2].toLowerCase());
+    const time = month ? resolveYear(month, Number(match[1]), match[3] ? Number(match[3]) : null, received) : null;
+    if (time !== null) {
+      candidates.push({ time, index: match.index ?? 0, text: match[0] });
+      break;
+    }
+  }
+
+  for (const match of window.matchAll(MONTH_DAY)) {
+    const month = MONTHS.get(match[1].toLowerCase());
+    const time = month ? resolveYear(month, Number(match[2]), match[3] ? Number(match[3]) : null, received) : null;
+    if (time !== null) {
+      candidates.push({ time, index: match.index ?? 0, text: match[0] });
+      break;
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((earliest, candidate) => (candidate.index < earliest.index ? candidate : earliest));
+};
+
+/**
+ * "Monday" or "tomorrow", relative to the day the reply was received.
+ */
+const relativeDate = (window: string, received: number): Candidate | null => {
+  for (const match of window.matchAll(NAMED_DAY)) {
+    const word = match[1].toLowerCase();
+
+    if (TOMORROW.includes(word)) {
+      return { time: received + DAY_MS, index: match.index ?? 0, text: match[0] };
+    }
+
+    const weekday = WEEKDAYS.get(word);
+    if (weekday !== undefined) {
+      // The next such day after the reply, never the same day
+      const ahead = (weekday - new Date(received).getUTCDay() + 7) % 7 || 7;
+      return { time: received + ahead * DAY_MS, index: match.index ?? 0, text: match[0] };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * The first day the sender of an out-of-office message is back, or null
+ * when the message doesn't say. Dates without a year are taken to be the
+ * next such date after the message was received.
+ */
+export const parseReturnDate = (text: string, receivedAt: Date | string): ReturnDate | null => {
+  const received = startOfDay(new Date(receivedAt));
+  if (Number.isNaN(received)) return null;
+
+  const normalized = text.replace(/\s+/g, ' ');
+
+  const matches = TRIGGER_PATTERNS
+    .flatMap(({ trigger, regex }) => Array.from(normalized.matchAll(regex), match => ({ trigger, match })))
+    .sort((a, b) => (a.match.index ?? 0) - (b.match.index ?? 0));
+
+  for (const { trigger, match } of matches) {
+    const start = (match.index ?? 0) + match[0].length;
+    const window = normalized.slice(start, start + WINDOW_CHARS);
+
+    // "back Monday 27 October": the explicit date wins over the weekday
+    const found = explicitDate(window, Boolean(trigger.monthFirst), received) || relativeDate(window, received);
+    if (!found) continue;
+
+    const time = trigger.lastDayAway ? found.time + DAY_MS : found.time;
+    if (time < received || time > received + MAX_DAYS_AHEAD * DAY_MS) continue;
+
+    return {
+      date: toIsoDate(time),
+      text: `${match[0]}${window.slice(0, found.index + found.text.length)}`.trim()
+    };
+  }
+
+  return null;
+};
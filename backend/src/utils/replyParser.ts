@@ -0,0 +1,180 @@
+// Splits a plain-text email body into what the sender actually wrote and
+// the parts mail clients add around it: the quoted thread, the signature
+// and legal disclaimers.
+
+export interface ParsedReply {
+  newContent: string;
+  quoted: string;
+  signature: string;
+  disclaimer: string;
+}
+
+// "On Mon, Jan 6, 2025 at 10:02 AM Jane Doe <jane@acme.com> wrote:" and the
+// equivalents of the most common localized clients
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.+\swrote:$/i,
+  /^Le\s.+\sa écrit\s?:$/i,
+  /^Am\s.+\sschrieb\s.+:$/i,
+  /^El\s.+\sescribió:$/i,
+  /^Op\s.+\sschreef\s.+:$/i
+];
+
+// Gmail wraps long attribution lines, so the header may span two lines
+const QUOTE_HEADER_START = /^(On|Le|Am|El|Op)\s/i;
+
+const OUTLOOK_SEPARATORS = [
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}$/i,
+  /^_{10,}$/
+];
+
+const SIGNATURE_DELIMITER = /^--\s?$/;
+
+const MOBILE_SIGNATURES = [
+  /^Sent from my (iPhone|iPad|Android|Samsung|BlackBerry|mobile device)/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail) for /i,
+  /^Get Outlook for (iOS|Android)/i,
+  /^Sent via /i
+];
+
+const SIGN_OFF = /^(thanks|thank you|thx|cheers|best|best regards|kind regards|warm regards|regards|sincerely|all the best|many thanks)[,.!]?$/i;
+
+// A sign-off is only treated as the start of the signature when what
+// follows it looks like a name and contact block, not more prose
+const MAX_SIGNATURE_LINES = 8;
+const MAX_SIGNATURE_LINE_CHARS = 60;
+const MAX_NAME_LINE_WORDS = 6;
+
+// Email addresses, URLs, phone numbers and "Tel:"-style labels
+const CONTACT_LINE = /[\w.+-]+@[\w-]+\.[\w.]+|https?:\/\/|www\.|^\+?[\d\s().-]{7,}$|^(tel|phone|mobile|cell|fax|email|e|t|m|w)\s?[:.]/i;
+
+// A name, job title or company: a few words starting with a capital, with
+// no questions, exclamations or sentence ending (bar "Inc." and the like)
+const NAME_LINE = /^[\p{Lu}\d(][^?!…]*$/u;
+const COMPANY_SUFFIX = /\b(inc|ltd|co|corp|llc|llp|plc|gmbh|s\.a|b\.v)\.$/i;
+
+const DISCLAIMER_PATTERNS = [
+  /^(confidentiality|legal) (notice|disclaimer)/i,
+  /^disclaimer\s*:/i,
+  /^this (e-?mail|message|communication)( and any (files|attachments)[^.]*)? (is|are|may contain|contains) (confidential|privileged|intended)/i,
+  /^the information (contained )?in this (e-?mail|message|communication)/i,
+  /^if you (are not|have received this)[^.]*(intended recipient|in error)/i
+];
+
+const matchesAny = (line: string, patterns: RegExp[]) => patterns.some(pattern => pattern.test(line));
+
+const joinLines = (lines: string[]) => lines.join('\n').trim();
+
+/**
+ * Index of the first line of quoted history introduced by a client header
+ * (Gmail attribution or Outlook separator/header block), or -1.
+ */
+const findQuoteHeader = (lines: string[]): number => {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (matchesAny(line, QUOTE_HEADER_PATTERNS)) return i;
+
+    if (QUOTE_HEADER_START.test(line) && i + 1 < lines.length) {
+      const joined = `${line} ${lines[i + 1].trim()}`;
+      if (matchesAny(joined, QUOTE_HEADER_PATTERNS)) return i;
+    }
+
+    if (matchesAny(line, OUTLOOK_SEPARATORS)) return i;
+
+    // Outlook without a separator: a From: line followed closely by Sent:/Date:
+    if (/^\*?From\s?:\*?\s/i.test(line)) {
+      const following = lines.slice(i + 1, i + 4).map(l => l.trim());
+      if (following.some(l => /^\*?(Sent|Date)\s?:\*?\s/i.test(l))) return i;
+    }
+  }
+
+  return -1;
+};
+
+const isNameOrContactLine = (line: string): boolean => {
+  if (line.length > MAX_SIGNATURE_LINE_CHARS) return false;
+  if (CONTACT_LINE.test(line)) return true;
+
+  return NAME_LINE.test(line)
+    && line.split(/\s+/).length <= MAX_NAME_LINE_WORDS
+    && (!line.endsWith('.') || COMPANY_SUFFIX.test(line));
+};
+
+const findSignature = (lines: string[]): number => {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (SIGNATURE_DELIMITER.test(lines[i]) || matchesAny(line, MOBILE_SIGNATURES)) return i;
+  }
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines.length - i > MAX_SIGNATURE_LINES + 1) break;
+    if (!SIGN_OFF.test(lines[i].trim())) continue;
+
+    const block = lines.slice(i + 1).map(line => line.trim()).filter(Boolean);
+    if (block.every(isNameOrContactLine)) return i;
+  }
+
+  return -1;
+};
+
+const findDisclaimer = (lines: string[]): number =>
+  lines.findIndex(line => matchesAny(line.trim(), DISCLAIMER_PATTERNS));
+
+export const parseReply = (body: string): ParsedReply => {
+  const lines = (body || '').replace(/\r\n?/g, '\n').split('\n');
+
+  // Everything below a client quote header is history
+  let quotedLines: string[] = [];
+  let ownLines = lines;
+  const headerIndex = findQuoteHeader(lines);
+  if (headerIndex !== -1) {
+    quotedLines = lines.slice(headerIndex);
+    ownLines = lines.slice(0, headerIndex);
+  }
+
+  // `>` quoted lines can be interleaved with the reply, so only they are
+  // moved out and the lines around them are kept
+  const unquoted: string[] = [];
+  const inlineQuoted: string[] = [];
+  for (const line of ownLines) {
+    if (/^\s*>/.test(line)) {
+      inlineQuoted.push(line);
+    } else {
+      unquoted.push(line);
+    }
+  }
+  quotedLines = [...inlineQuoted, ...quotedLines];
+
+  let disclaimerLines: string[] = [];
+  let contentLines = unquoted;
+  const disclaimerIndex = findDisclaimer(contentLines);
+  if (disclaimerIndex > 0) {
+    disclaimerLines = contentLines.slice(disclaimerIndex);
+    contentLines = contentLines.slice(0, disclaimerIndex);
+  }
+
+  // Drop trailing blank lines so the sign-off search starts at real text
+  while (contentLines.length > 0 && !contentLines[contentLines.length - 1].trim()) {
+    contentLines = contentLines.slice(0, -1);
+  }
+
+  let signatureLines: string[] = [];
+  const signatureIndex = findSignature(contentLines);
+  if (signatureIndex > 0 && joinLines(contentLines.slice(0, signatureIndex))) {
+    signatureLines = contentLines.slice(signatureIndex);
+    contentLines = contentLines.slice(0, signatureIndex);
+  }
+
+  const newContent = joinLines(contentLines);
+
+  return {
+    // A body that is nothing but a quote (e.g. a bare forward) keeps its
+    // full text, so there is always something to classify
+    newContent: newContent || joinLines(lines),
+    quoted: joinLines(quotedLines),
+    signature: joinLines(signatureLines),
+    disclaimer: joinLines(disclaimerLines)
+  };
+};
@@ -0,0 +1,306 @@
+import Joi from 'joi';
+
+// Each user has a list of weighted rules. A reply whose matching rules add
+// up to the user's threshold is labelled spam without calling the model.
+//
+// Rule types:
+// - regex: `pattern` is matched against the subject, body or both
+// - phrases: any of `terms` appears in the subject, body or both
+// - sender_domain: the sender's domain is one of `terms` (or a subdomain)
+// - header: the header named in `pattern` is present; with `terms`, its
+//   value must also contain one of them
+
+// Recorded as the model of classifications made by the spam rules; bump it
+// when the matching changes
+export const SPAM_RULES_VERSION = 'spam-rules-v1';
+
+export const SPAM_RULE_TYPES = ['regex', 'phrases', 'sender_domain', 'header'] as const;
+export type SpamRuleType = typeof SPAM_RULE_TYPES[number];
+
+export const SPAM_RULE_FIELDS = ['subject', 'body', 'any'] as const;
+export type SpamRuleField = typeof SPAM_RULE_FIELDS[number];
+
+export const DEFAULT_SPAM_THRESHOLD = 1;
+
+export interface SpamRule {
+  // Null for rules that aren't saved yet (defaults, drafts being tested)
+  id: string | null;
+  name: string;
+  type: SpamRuleType;
+  field: SpamRuleField;
+  pattern: string | null;
+  terms: string[];
+  case_sensitive: boolean;
+  weight: number;
+  enabled: boolean;
+}
+
+export interface SpamInput {
+  from: string;
+  subject: string;
+  body: string;
+  // Header names lower-cased; null for messages stored before headers were
+  // kept
+  headers?: Record<string, string> | null;
+}
+
+export interface SpamRuleMatch {
+  ruleId: string | null;
+  name: string;
+  weight: number;
+  // The text that matched, for showing why
+  matched: string;
+}
+
+export interface SpamVerdict {
+  isSpam: boolean;
+  score: number;
+  threshold: number;
+  matches: SpamRuleMatch[];
+}
+
+const builtin = (rule: Omit<SpamRule, 'id' | 'enabled' | 'case_sensitive'> & { case_sensitive?: boolean }): SpamRule => ({
+  id: null,
+  enabled: true,
+  case_sensitive: false,
+  ...rule
+});
+
+// Seeded for every user on first use. A code in the subject or a generic
+// "who handles this" question alone is common in real replies (order
+// numbers, ticket IDs), so each only counts as spam together with another
+// signal.
+export const DEFAULT_SPAM_RULES: SpamRule[] = [
+  builtin({
+    name: 'Tracking code in subject',
+    type: 'regex',
+    field: 'subject',
+    // Upper-case letters and digits mixed, like 6PZGMYD or J4C5BVX
+    pattern: '\\b(?=[A-Z0-9]*\\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{6,8}\\b',
+    terms: [],
+    case_sensitive: true,
+    weight: 0.5
+  }),
+  builtin({
+    name: 'Generic who-to-contact question',
+    type: 'phrases',
+    field: 'any',
+    pattern: null,
+    terms: ['who should i call', 'who do i speak with', 'who handles', 'who is responsible for'],
+    weight: 0.5
+  }),
+  builtin({
+    name: 'Bulk mail',
+    type: 'header',
+    field: 'any',
+    pattern: 'list-unsubscribe',
+    terms: [],
+    weight: 0.5
+  }),
+  builtin({
+    name: 'Flagged by the sending server',
+    type: 'header',
+    field: 'any',
+    pattern: 'x-spam-flag',
+    terms: ['yes'],
+    weight: 1
+  })
+];
+
+// Long inputs are cut to keep matching cheap. This doesn't stop a
+// backtracking pattern from stalling a sync (a few dozen characters are
+// enough for that), which is why unsafeRegexReason refuses such patterns.
+const MAX_MATCH_CHARS = 10000;
+const MAX_SHOWN_MATCH_CHARS = 80;
+
+const EMAIL = /[A-Z0-9._%+-]+@([A-Z0-9.-]+\.[A-Z]{2,})/i;
+
+const textOf = (field: SpamRuleField, input: SpamInput) => {
+  const text = field === 'subject' ? input.subject : field === 'body' ? input.body : `${input.subject}\n${input.body}`;
+  return text.slice(0, MAX_MATCH_CHARS);
+};
+
+interface RegexGroup {
+  // Something inside is repeated (a quantifier, or a nested group that is)
+  repeats: boolean;
+  alternates: boolean;
+}
+
+// Length of a quantifier starting at `index`, and whether it allows more
+// than one repetition; null when there is none
+const quantifierAt = (pattern: string, index: number): { length: number; repeats: boolean } | null => {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return { length: 1, repeats: true };
+  if (char === '?') return { length: 1, repeats: false };
+  if (char === '{') {
+    const bounds = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!bounds) return null;
+    const max = bounds[2] === undefined ? Number(bounds[1]) : bounds[3] === '' ? Infinity : Number(bounds[3]);
+    return { length: bounds[0].length, repeats: max > 1 };
+  }
+  return null;
+};
+
+/**
+ * Why a user pattern could backtrack catastrophically, or null when it's
+ * safe to run. JavaScript regexes can't be interrupted, so patterns that
+ * repeat a group which itself repeats or alternates, like (a+)+ or (a|ab)*,
+ * are refused, as are backreferences.
+ */
+export const unsafeRegexReason = (pattern: string): string | null => {
+  const groups: RegexGroup[] = [{ repeats: false, alternates: false }];
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const current = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[index + 1] || '')) {
+        return 'backreferences are not allowed';
+      }
+      index++;
+    } else if (char === '[') {
+      // Skip the character class; nothing in it is a quantifier
+      for (index++; index < pattern.length && pattern[index] !== ']'; index++) {
+        if (pattern[index] === '\\') index++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      // Skip the (?:, (?=, (?<name> prefixes
+      if (pattern[index + 1] === '?') {
+        const prefix = pattern.slice(index + 1).match(/^\?(<[A-Za-z_$][\w$]*>|<=|<!|[:=!])/);
+        if (prefix) index += prefix[0].length;
+      }
+      continue;
+    } else if (char === ')') {
+      if (groups.length === 1) return null; // unbalanced; let RegExp report it
+      const group = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      const quantifier = quantifierAt(pattern, index + 1);
+      if (quantifier?.repeats && (group.repeats || group.alternates)) {
+        return 'a repeated group must not contain another repetition or an alternation (like (a+)+ or (a|b)*)';
+      }
+      parent.repeats = parent.repeats || group.repeats || Boolean(quantifier?.repeats);
+      if (quantifier) index += quantifier.length;
+      continue;
+    } else if (char === '|') {
+      current.alternates = true;
+      continue;
+    }
+
+    const quantifier = quantifierAt(pattern, index + 1);
+    if (quantifier) {
+      current.repeats = current.repeats || quantifier.repeats;
+      index += quantifier.length;
+    }
+  }
+
+  return null;
+};
+
+const shown = (text: string) => text.length > MAX_SHOWN_MATCH_CHARS ? `${text.slice(0, MAX_SHOWN_MATCH_CHARS)}…` : text;
+
+/**
+ * What a single rule matched in the message, or null when it didn't.
+ */
+export const matchSpamRule = (rule: SpamRule, input: SpamInput): string | null => {
+  switch (rule.type) {
+    case 'regex': {
+      // Rules saved before patterns were checked are skipped rather than run
+      if (!rule.pattern || unsafeRegexReason(rule.pattern)) return null;
+      const match = textOf(rule.field, input).match(new RegExp(rule.pattern, rule.case_sensitive ? '' : 'i'));
+      return match ? shown(match[0]) : null;
+    }
+    case 'phrases': {
+      const text = textOf(rule.field, input).toLowerCase();
+      return rule.terms.find(phrase => text.includes(phrase.toLowerCase())) || null;
+    }
+    case 'sender_domain': {
+      const domain = input.from.match(EMAIL)?.[1].toLowerCase();
+      if (!domain) return null;
+      const listed = rule.terms.find(value => {
+        const listedDomain = value.toLowerCase().replace(/^@/, '');
+        return domain === listedDomain || domain.endsWith(`.${listedDomain}`);
+      });
+      return listed ? domain : null;
+    }
+    case 'header': {
+      const name = rule.pattern?.toLowerCase();
+      const value = name ? input.headers?.[name] : undefined;
+      if (value === undefined) return null;
+      if (rule.terms.length === 0) return `${name}: ${shown(value)}`;
+      const lower = value.toLowerCase();
+      return rule.terms.some(expected => lower.includes(expected.toLowerCase())) ? `${name}: ${shown(value)}` : null;
+    }
+  }
+};
+
+/**
+ * Runs the enabled rules over a message and adds up the weights of those
+ * that match.
+ */
+export const evaluateSpamRules = (rules: SpamRule[], input: SpamInput, threshold: number): SpamVerdict => {
+  const matches: SpamRuleMatch[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const matched = matchSpamRule(rule, input);
+    if (matched !== null) {
+      matches.push({ ruleId: rule.id, name: rule.name, weight: rule.weight, matched });
+    }
+  }
+
+  // Rounded so weights like 0.1 + 0.2 still reach a threshold of 0.3
+  const score = Math.round(matches.reduce((sum, match) => sum + match.weight, 0) * 100) / 100;
+  return { isSpam: matches.length > 0 && score >= threshold, score, threshold, matches };
+};
+
+const spamRuleValidator = Joi.object({
+  name: Joi.string().trim().min(1).max(80).required(),
+  type: Joi.string().valid(...SPAM_RULE_TYPES).required(),
+  field: Joi.string().valid(...SPAM_RULE_FIELDS).default('any'),
+  pattern: Joi.when('type', {
+    is: Joi.valid('regex', 'header'),
+    then: Joi.string().trim().min(1).max(200).required(),
+    otherwise: Joi.any().empty(Joi.any()).default(null)
+  }),
+  terms: Joi.when('type', {
+    is: Joi.valid('phrases', 'sender_domain'),
+    then: Joi.array().items(Joi.string().trim().min(1).max(200)).min(1).max(50).required(),
+    otherwise: Joi.array().items(Joi.string().trim().min(1).max(200)).max(50).default([])
+  }),
+  case_sensitive: Joi.boolean().default(false),
+  // Negative weights let a rule vouch for a message (e.g. a known domain)
+  weight: Joi.number().min(-10).max(10).required(),
+  enabled: Joi.boolean().default(true)
+});
+
+/**
+ * Checks a rule submitted by a user, including that a regex compiles and
+ * can't backtrack catastrophically.
+ */
+export const validateSpamRule = (input: unknown): { value: Omit<SpamRule, 'id'> | null; errors: string[] } => {
+  const { value, error } = spamRuleValidator.validate(input, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    return { value: null, errors: error.details.map(detail => detail.message) };
+  }
+
+  if (value.type === 'regex') {
+    try {
+      new RegExp(value.pattern);
+    } catch (regexError: any) {
+      return { value: null, errors: [`pattern is not a valid regular expression: ${regexError.message}`] };
+    }
+
+    const unsafe = unsafeRegexReason(value.pattern);
+    if (unsafe) {
+      return { value: null, errors: [`pattern could take too long to match: ${unsafe}`] };
+    }
+  }
+
+  if (value.type === 'header') {
+    value.pattern = value.pattern.toLowerCase();
+  }
+
+  return { value, errors: [] };
+};
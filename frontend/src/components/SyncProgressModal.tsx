@@ -1,124 +1,208 @@
 import { useEffect, useState, useRef } from 'react';
-import { CheckCircle, Loader2, Inbox, Sparkles } from 'lucide-react';
+import { CheckCircle, Loader2, Inbox, Sparkles, XCircle } from 'lucide-react';
+import axios from 'axios';
+import { openEventStream } from '../utils/eventStream';
 
 interface SyncProgress {
+  jobId: string;
   mailbox: string;
-  status: 'pending' | 'syncing' | 'completed' | 'error';
-  emailsProcessed: number;
-  totalEmails: number;
+  status: 'pending' | 'syncing' | 'completed' | 'error' | 'cancelled';
+  listed: number;
+  stored: number;
+  classified: number;
+  skipped: number;
+  failed: number;
+  deferred: number;
+  cacheHits: number;
   message?: string;
 }
 
+interface SyncJobEvent {
+  jobId: string;
+  mailboxId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: {
+    listed: number;
+    fetched: number;
+    stored: number;
+    classified: number;
+    skipped: number;
+    failed: number;
+    deferred?: number;
+    cacheHits?: number;
+    cacheMisses?: number;
+  } | null;
+  error: string | null;
+}
+
 interface SyncProgressModalProps {
   isOpen: boolean;
-  mailboxes: string[];
   onComplete: () => void;
 }
 
-const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalProps) => {
+const STATUS_MAP: Record<SyncJobEvent['status'], SyncProgress['status']> = {
+  queued: 'pending',
+  running: 'syncing',
+  completed: 'completed',
+  failed: 'error',
+  cancelled: 'cancelled'
+};
+
+const describeProgress = (item: SyncProgress) => {
+  switch (item.status) {
+    case 'pending':
+      return item.message || 'Waiting to start...';
+    case 'syncing':
+      return item.listed === 0
+        ? 'Fetching emails...'
+        : `${item.stored} new · ${item.classified} classified · ${item.skipped} skipped · ${item.failed} failed`;
+    case 'completed':
+      return `✓ ${item.stored} new emails, ${item.classified} classified${item.cacheHits > 0 ? ` (${item.cacheHits} from cache)` : ''}${item.deferred > 0 ? `, ${item.deferred} queued until the AI provider is back` : ''}`;
+    case 'cancelled':
+      return `Cancelled after ${item.stored} new emails`;
+    case 'error':
+      return item.message || 'Sync failed';
+  }
+};
+
+const SyncProgressModal = ({ isOpen, onComplete }: SyncProgressModalProps) => {
   const [progress, setProgress] = useState<SyncProgress[]>([]);
-  const [totalProcessed, setTotalProcessed] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
   const [isCancelled, setIsCancelled] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const closeStreamRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
-    if (isOpen && mailboxes.length > 0) {
-      // Initialize progress for all mailboxes
-      const initialProgress = mailboxes.map(mailbox => ({
-        mailbox,
-        status: 'pending' as const,
-        emailsProcessed: 0,
-        totalEmails: 0
-      }));
-      setProgress(initialProgress);
-      setTotalProcessed(0);
+    if (isOpen) {
+      setProgress([]);
       setIsComplete(false);
       setIsCancelled(false);
-      
+      setStartError(null);
+
       // Start syncing
       startSync();
     }
+
+    return () => {
+      closeStreamRef.current?.();
+      closeStreamRef.current = null;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, mailboxes]);
+  }, [isOpen]);
 
-  const startSync = async () => {
-    for (let i = 0; i < mailboxes.length; i++) {
-      // Check if cancelled
-      if (isCancelled) {
-        break;
+  const finish = (delay: number) => {
+    setIsComplete(true);
+    setTimeout(() => {
+      onComplete();
+    }, delay);
+  };
+
+  const handleJobEvent = (event: SyncJobEvent) => {
+    setProgress(prev => {
+      const next = prev.map(p => p.jobId === event.jobId ? {
+        ...p,
+        status: STATUS_MAP[event.status],
+        listed: event.progress?.listed ?? p.listed,
+        stored: event.progress?.stored ?? p.stored,
+        classified: event.progress?.classified ?? p.classified,
+        skipped: event.progress?.skipped ?? p.skipped,
+        failed: event.progress?.failed ?? p.failed,
+        deferred: event.progress?.deferred ?? p.deferred,
+        cacheHits: event.progress?.cacheHits ?? p.cacheHits,
+        message: event.status === 'queued' && event.error
+          ? `Retrying: ${event.error}`
+          : event.error || undefined
+      } : p);
+
+      // Auto-scroll to the mailbox that is currently syncing
+      const current = next.findIndex(p => p.status === 'syncing');
+      if (current !== -1) {
+        setTimeout(() => {
+          const element = document.getElementById(`mailbox-${current}`);
+          if (element && scrollContainerRef.current) {
+            element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+          }
+        }, 100);
       }
 
-      // Auto-scroll to current mailbox - scroll to start of item
-      setTimeout(() => {
-        const element = document.getElementById(`mailbox-${i}`);
-        if (element && scrollContainerRef.current) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'start' });
-        }
-      }, 100);
-      
-      // Update status to syncing
-      setProgress(prev => prev.map((p, idx) => 
-        idx === i ? { ...p, status: 'syncing' } : p
-      ));
+      return next;
+    });
+  };
 
-      // Simulate email processing with realistic progress
-      const emailCount = Math.floor(Math.random() * 20) + 5; // 5-25 emails
-      
-      for (let j = 0; j <= emailCount; j++) {
-        if (isCancelled) {
-          break;
+  const startSync = async () => {
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/all`,
+        { maxResults: 50 },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
         }
-        
-        await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
-        
-        setProgress(prev => prev.map((p, idx) => 
-          idx === i ? { 
-            ...p, 
-            emailsProcessed: j,
-            totalEmails: emailCount,
-            message: j === emailCount ? 'Analyzing sentiments...' : 'Fetching emails...'
-          } : p
-        ));
-        
-        setTotalProcessed(prev => prev + 1);
+      );
+
+      const jobs: Array<{ id: string; email: string; status: SyncJobEvent['status'] }> = response.data.jobs || [];
+      if (jobs.length === 0) {
+        finish(1000);
+        return;
       }
 
-      // Mark as completed
-      setProgress(prev => prev.map((p, idx) => 
-        idx === i ? { 
-          ...p, 
-          status: 'completed',
-          message: `✓ ${emailCount} emails synced`
-        } : p
-      ));
-    }
+      setProgress(jobs.map(job => ({
+        jobId: job.id,
+        mailbox: job.email,
+        status: STATUS_MAP[job.status],
+        listed: 0,
+        stored: 0,
+        classified: 0,
+        skipped: 0,
+        failed: 0,
+        deferred: 0,
+        cacheHits: 0
+      })));
 
-    // All done or cancelled
-    if (!isCancelled) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setIsComplete(true);
-      
-      // Auto close after 2 seconds
-      setTimeout(() => {
-        onComplete();
-      }, 2000);
-    } else {
-      // If cancelled, close immediately
-      setTimeout(() => {
-        onComplete();
-      }, 500);
+      closeStreamRef.current = openEventStream(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/events?jobs=${jobs.map(job => job.id).join(',')}`,
+        (event, data) => {
+          if (event === 'job') {
+            handleJobEvent(data);
+          } else if (event === 'done') {
+            finish(2000);
+          }
+        },
+        error => {
+          console.error('Sync progress stream failed:', error);
+          setStartError('Lost connection to the sync progress stream');
+        }
+      );
+    } catch (error) {
+      console.error('Failed to start sync:', error);
+      setStartError('Failed to start sync. Please try again.');
     }
   };
 
-  const handleCancel = () => {
+  const handleCancel = async () => {
     setIsCancelled(true);
+
+    const active = progress.filter(p => p.status === 'pending' || p.status === 'syncing');
+    await Promise.all(active.map(p =>
+      axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/jobs/${p.jobId}/cancel`,
+        {},
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      ).catch(error => console.error('Failed to cancel sync job:', error))
+    ));
   };
 
   if (!isOpen) return null;
 
-  const completedCount = progress.filter(p => p.status === 'completed').length;
-  const overallProgress = mailboxes.length > 0 ? (completedCount / mailboxes.length) * 100 : 0;
+  const finishedCount = progress.filter(p => ['completed', 'error', 'cancelled'].includes(p.status)).length;
+  const overallProgress = progress.length > 0 ? (finishedCount / progress.length) * 100 : 0;
+  const totalStored = progress.reduce((sum, p) => sum + p.stored, 0);
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -135,12 +219,12 @@ const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalP
             </div>
             <div>
               <h2 className="text-2xl font-bold">
-                {isComplete ? 'Sync Complete!' : 'Syncing Emails'}
+                {isComplete ? (isCancelled ? 'Sync Cancelled' : 'Sync Complete!') : 'Syncing Emails'}
               </h2>
               <p className="text-white/80 text-sm">
                 {isComplete 
-                  ? `Successfully synced ${totalProcessed} emails`
-                  : `Processing ${completedCount} of ${mailboxes.length} mailboxes`
+                  ? `Successfully synced ${totalStored} new emails`
+                  : `Processed ${finishedCount} of ${progress.length} mailboxes`
                 }
               </p>
             </div>
@@ -167,15 +251,22 @@ const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalP
           style={{ height: '320px' }} // Height for 2.5 items for better visibility
         >
           <div className="space-y-3">
+            {startError && (
+              <div className="p-4 rounded-xl border-2 bg-red-50 border-red-200 text-sm text-red-700">
+                {startError}
+              </div>
+            )}
             {progress.map((item, index) => (
               <div 
-                key={item.mailbox}
+                key={item.jobId}
                 id={`mailbox-${index}`}
                 className={`p-4 rounded-xl border-2 transition-all duration-300 ${
                   item.status === 'completed' 
                     ? 'bg-green-50 border-green-200' 
                     : item.status === 'syncing'
                     ? 'bg-blue-50 border-blue-200 shadow-md'
+                    : item.status === 'error'
+                    ? 'bg-red-50 border-red-200'
                     : 'bg-gray-50 border-gray-200'
                 }`}
               >
@@ -186,12 +277,16 @@ const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalP
                       ? 'bg-green-500 text-white'
                       : item.status === 'syncing'
                       ? 'bg-blue-500 text-white'
+                      : item.status === 'error'
+                      ? 'bg-red-500 text-white'
                       : 'bg-gray-300 text-gray-600'
                   }`}>
                     {item.status === 'completed' ? (
                       <CheckCircle className="w-5 h-5" />
                     ) : item.status === 'syncing' ? (
                       <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : item.status === 'error' ? (
+                      <XCircle className="w-5 h-5" />
                     ) : (
                       <Inbox className="w-5 h-5" />
                     )}
@@ -203,27 +298,29 @@ const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalP
                       <p className="font-medium text-gray-900 truncate">
                         {item.mailbox}
                       </p>
-                      {item.status === 'syncing' && (
+                      {item.status === 'syncing' && item.listed > 0 && (
                         <span className="text-sm text-blue-600 font-medium">
-                          {item.emailsProcessed}/{item.totalEmails}
+                          {item.stored + item.skipped + item.failed}/{item.listed}
                         </span>
                       )}
                     </div>
                     
-                    {item.message && (
-                      <p className={`text-sm ${
-                        item.status === 'completed' ? 'text-green-600' : 'text-gray-600'
-                      }`}>
-                        {item.message}
-                      </p>
-                    )}
+                    <p className={`text-sm ${
+                      item.status === 'completed'
+                        ? 'text-green-600'
+                        : item.status === 'error'
+                        ? 'text-red-600'
+                        : 'text-gray-600'
+                    }`}>
+                      {describeProgress(item)}
+                    </p>
 
                     {/* Progress bar for current mailbox */}
-                    {item.status === 'syncing' && item.totalEmails > 0 && (
+                    {item.status === 'syncing' && item.listed > 0 && (
                       <div className="mt-2 h-1.5 bg-blue-200 rounded-full overflow-hidden">
                         <div 
                           className="h-full bg-blue-500 rounded-full transition-all duration-300"
-                          style={{ width: `${(item.emailsProcessed / item.totalEmails) * 100}%` }}
+                          style={{ width: `${((item.stored + item.skipped + item.failed) / item.listed) * 100}%` }}
                         />
                       </div>
                     )}
@@ -236,15 +333,27 @@ const SyncProgressModal = ({ isOpen, mailboxes, onComplete }: SyncProgressModalP
 
         {/* Footer */}
         <div className="bg-gray-50 px-6 py-4 border-t border-gray-200">
-          {isComplete ? (
+          {isComplete && isCancelled ? (
+            <div className="flex items-center justify-center gap-2 text-orange-600">
+              <span className="font-medium">Sync cancelled</span>
+            </div>
+          ) : isComplete ? (
             <div className="flex items-center justify-center gap-2 text-green-600">
               <Sparkles className="w-5 h-5" />
               <span className="font-medium">All emails synced and analyzed!</span>
             </div>
           ) : isCancelled ? (
             <div className="flex items-center justify-center gap-2 text-orange-600">
-              <span className="font-medium">Sync cancelled</span>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span className="font-medium">Cancelling sync...</span>
             </div>
+          ) : startError ? (
+            <button
+              onClick={onComplete}
+              className="w-full py-2 px-4 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg font-medium transition-colors"
+            >
+              Close
+            </button>
           ) : (
             <button
               onClick={handleCancel}
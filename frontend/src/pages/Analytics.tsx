@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { Mail, ThumbsUp, Heart, Frown } from 'lucide-react';
 import axios from 'axios';
+import { labelColor, labelFor, Taxonomy } from '../utils/taxonomy';
 
 interface MailboxBreakdown {
   mailbox_id: string;
@@ -20,11 +21,38 @@ interface AnalyticsData {
   neutralCount: number;
   autoReplyCount: number;
   outOfOfficeCount: number;
+  bySentiment: Record<string, number>;
+  byCategory: Record<string, number>;
+  taxonomy: Taxonomy;
   byMailbox: MailboxBreakdown[];
 }
 
+interface OpenerStats {
+  subject: string;
+  sent: number;
+  replied: number;
+  replyRate: number;
+  avgResponseMinutes: number | null;
+}
+
+interface ReplyRateData {
+  sentCount: number;
+  repliedCount: number;
+  replyRate: number;
+  avgResponseMinutes: number | null;
+  byOpener: OpenerStats[];
+}
+
+const formatDuration = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / (24 * 60)).toFixed(1)}d`;
+};
+
 const Analytics = () => {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [replyRates, setReplyRates] = useState<ReplyRateData | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -33,12 +61,15 @@ const Analytics = () => {
 
   const fetchAnalytics = async () => {
     try {
-      const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/analytics/overview`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      setAnalytics(response.data);
+      const headers = {
+        Authorization: `Bearer ${localStorage.getItem('token')}`
+      };
+      const [overview, rates] = await Promise.all([
+        axios.get(`${import.meta.env.VITE_API_BASE_URL}/analytics/overview`, { headers }),
+        axios.get(`${import.meta.env.VITE_API_BASE_URL}/analytics/reply-rates`, { headers })
+      ]);
+      setAnalytics(overview.data);
+      setReplyRates(rates.data);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
     } finally {
@@ -54,14 +85,30 @@ const Analytics = () => {
     );
   }
 
-  const pieData = [
-    { name: 'Positive', value: analytics?.positiveCount || 0, color: '#10b981' },
-    { name: 'Warm', value: analytics?.warmCount || 0, color: '#E66B2B' },
-    { name: 'Negative', value: analytics?.negativeCount || 0, color: '#ef4444' },
-    { name: 'Neutral', value: analytics?.neutralCount || 0, color: '#6b7280' },
-    { name: 'Auto/OOO', value: (analytics?.autoReplyCount || 0) + (analytics?.outOfOfficeCount || 0), color: '#3b82f6' },
+  const sentimentLabels = analytics?.taxonomy?.sentiments || [];
+  const categoryLabels = analytics?.taxonomy?.categories || [];
+
+  // Taxonomy order first, then labels only older replies still carry
+  const orderedKeys = (labels: { key: string }[], counts: Record<string, number> = {}) => [
+    ...labels.map(label => label.key),
+    ...Object.keys(counts).filter(key => !labels.some(label => label.key === key))
   ];
 
+  const pieData = orderedKeys(sentimentLabels, analytics?.bySentiment)
+    .map(key => ({
+      name: labelFor(sentimentLabels, key),
+      value: analytics?.bySentiment?.[key] || 0,
+      color: labelColor(key)
+    }))
+    .filter(entry => entry.value > 0);
+
+  const categoryData = orderedKeys(categoryLabels, analytics?.byCategory)
+    .map(key => ({
+      name: labelFor(categoryLabels, key),
+      value: analytics?.byCategory?.[key] || 0
+    }))
+    .filter(entry => entry.value > 0);
+
   const conversionRate = analytics?.totalReplies
     ? (((analytics.positiveCount + analytics.warmCount) / analytics.totalReplies) * 100).toFixed(1)
     : '0.0';
@@ -93,6 +140,57 @@ const Analytics = () => {
         </div>
       </div>
 
+      {/* Reply Rates */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-6">Reply Rates</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div>
+            <div className="text-sm text-gray-600 mb-1">Emails Sent</div>
+            <div className="text-2xl font-bold text-gray-900">{replyRates?.sentCount || 0}</div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-600 mb-1">Reply Rate</div>
+            <div className="text-2xl font-bold text-green-600">{replyRates?.replyRate ?? 0}%</div>
+            <div className="text-xs text-gray-500 mt-1">{replyRates?.repliedCount || 0} answered</div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-600 mb-1">Avg. Response Time</div>
+            <div className="text-2xl font-bold text-gray-900">{formatDuration(replyRates?.avgResponseMinutes ?? null)}</div>
+          </div>
+        </div>
+
+        {!replyRates?.byOpener || replyRates.byOpener.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No sent emails synced yet
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-semibold">Opener</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Sent</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Replies</th>
+                  <th className="py-2 pr-4 font-semibold text-right">Reply Rate</th>
+                  <th className="py-2 font-semibold text-right">Avg. Response</th>
+                </tr>
+              </thead>
+              <tbody>
+                {replyRates.byOpener.map(opener => (
+                  <tr key={opener.subject} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900 truncate max-w-xs">{opener.subject}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{opener.sent}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{opener.replied}</td>
+                    <td className="py-2 pr-4 text-right font-medium text-gray-900">{opener.replyRate}%</td>
+                    <td className="py-2 text-right text-gray-700">{formatDuration(opener.avgResponseMinutes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Sentiment Distribution */}
       <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-8">
         <h2 className="text-xl font-semibold text-gray-900 mb-6">Sentiment Distribution</h2>
@@ -118,6 +216,26 @@ const Analytics = () => {
         </ResponsiveContainer>
       </div>
 
+      {/* Category Breakdown */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-6">Replies by Category</h2>
+        {categoryData.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No categorized replies yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={Math.max(200, categoryData.length * 40)}>
+            <BarChart data={categoryData} layout="vertical" margin={{ left: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="name" width={140} />
+              <Tooltip />
+              <Bar dataKey="value" name="Replies" fill="#E66B2B" />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
       {/* Mailbox Breakdown */}
       <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100">
         <h2 className="text-xl font-semibold text-gray-900 mb-6">Performance by Mailbox</h2>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { TrendingUp, Mail, ThumbsUp, Heart, Frown, Bot } from 'lucide-react';
+import { TrendingUp, Mail, ThumbsUp, Heart, Frown, Bot, Clock, Check, X } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend } from 'recharts';
 import axios from 'axios';
 
@@ -38,16 +38,76 @@ interface PositiveReply {
   };
 }
 
+interface FollowUp {
+  id: string;
+  reason: string;
+  return_date: string | null;
+  due_at: string;
+  thread: {
+    id: string;
+    subject: string | null;
+    lead_email: string | null;
+  };
+  message: {
+    from_address: string;
+    subject: string;
+  } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dueLabel = (dueAt: string) => {
+  const remaining = new Date(dueAt).getTime() - Date.now();
+  if (remaining <= 0) return { text: 'Due now', color: 'bg-red-100 text-red-700' };
+
+  const days = Math.ceil(remaining / DAY_MS);
+  if (days === 1) return { text: 'Due within a day', color: 'bg-amber-100 text-amber-700' };
+  return { text: `Due in ${days} days`, color: 'bg-gray-100 text-gray-700' };
+};
+
 const Dashboard = () => {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [recentPositive, setRecentPositive] = useState<PositiveReply[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchAnalytics();
     fetchRecentPositive();
+    fetchFollowUps();
   }, []);
 
+  const fetchFollowUps = async () => {
+    try {
+      const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/follow-ups`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      setFollowUps(response.data.data || []);
+    } catch (error) {
+      console.error('Failed to fetch follow-ups:', error);
+    }
+  };
+
+  const handleFollowUpStatus = async (followUp: FollowUp, status: 'done' | 'dismissed') => {
+    try {
+      await axios.patch(
+        `${import.meta.env.VITE_API_BASE_URL}/follow-ups/${followUp.id}`,
+        { status },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        }
+      );
+      setFollowUps(current => current.filter(item => item.id !== followUp.id));
+    } catch (error) {
+      console.error('Failed to update follow-up:', error);
+      alert('Failed to update follow-up');
+    }
+  };
+
   const fetchAnalytics = async () => {
     try {
       const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/analytics/overview`, {
@@ -218,6 +278,66 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Follow-ups */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Clock size={20} className="text-primary" />
+          Follow-ups
+        </h2>
+        {followUps.length === 0 ? (
+          <div className="text-gray-500 text-center py-8">
+            No follow-ups scheduled
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {followUps.map((followUp) => {
+              const due = dueLabel(followUp.due_at);
+              return (
+                <div
+                  key={followUp.id}
+                  className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4 rounded-xl border border-gray-100 bg-gray-50"
+                >
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">
+                      {followUp.thread.subject || followUp.message?.subject || 'No subject'}
+                    </div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      {followUp.message?.from_address || followUp.thread.lead_email}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {followUp.return_date
+                        ? `Out of office, back on ${new Date(`${followUp.return_date}T00:00`).toLocaleDateString('en-GB', {
+                          day: '2-digit',
+                          month: 'short',
+                          year: 'numeric',
+                        })}`
+                        : 'Out of office, return date not given'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 whitespace-nowrap">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${due.color}`}>{due.text}</span>
+                    <button
+                      onClick={() => handleFollowUpStatus(followUp, 'done')}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                      title="Mark as done"
+                    >
+                      <Check size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleFollowUpStatus(followUp, 'dismissed')}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                      title="Dismiss"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Recent Positive Replies */}
       <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Plus, Mail, CheckCircle, XCircle, RefreshCw, Download, Trash2 } from 'lucide-react';
+import { Plus, Mail, CheckCircle, XCircle, RefreshCw, Download, Trash2, History, Archive, MailX } from 'lucide-react';
 import axios from 'axios';
 import SyncProgressModal from '../components/SyncProgressModal';
 
@@ -9,14 +9,65 @@ interface Mailbox {
   email_address: string;
   status: string;
   last_synced_at: string;
+  sync_interval_minutes: number | null;
+  next_sync_at: string | null;
   created_at: string;
 }
 
+interface SyncRun {
+  id: string;
+  trigger: 'manual' | 'scheduled' | 'push';
+  status: 'completed' | 'failed' | 'cancelled';
+  mode: 'incremental' | 'full' | null;
+  total_messages: number;
+  processed_count: number;
+  classified_count: number;
+  deferred_count: number;
+  cache_hits: number;
+  cache_misses: number;
+  failed_count: number;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+const INTERVAL_OPTIONS = [
+  { value: '', label: 'Use default' },
+  { value: '0', label: 'Off' },
+  { value: '15', label: 'Every 15 minutes' },
+  { value: '30', label: 'Every 30 minutes' },
+  { value: '60', label: 'Every hour' },
+  { value: '240', label: 'Every 4 hours' },
+  { value: '1440', label: 'Daily' }
+];
+
+interface Bounce {
+  id: string;
+  recipient: string;
+  type: 'hard' | 'soft';
+  status: string | null;
+  diagnostic: string | null;
+  bounced_at: string;
+}
+
+const monthsAgo = (months: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date.toISOString().slice(0, 10);
+};
+
 const Mailboxes = () => {
   const [mailboxes, setMailboxes] = useState<Mailbox[]>([]);
   const [loading, setLoading] = useState(true);
   const [showSyncModal, setShowSyncModal] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [backfillFor, setBackfillFor] = useState<string | null>(null);
+  const [backfillRange, setBackfillRange] = useState({ after: monthsAgo(6), before: '' });
+  const [startingBackfill, setStartingBackfill] = useState(false);
+  const [bounces, setBounces] = useState<Bounce[]>([]);
+  const [bounceTotal, setBounceTotal] = useState(0);
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
@@ -40,8 +91,46 @@ const Mailboxes = () => {
     }
 
     fetchMailboxes();
+    fetchBounces();
   }, [searchParams, setSearchParams]);
 
+  const fetchBounces = async () => {
+    try {
+      const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/bounces`, {
+        params: { type: 'hard', pageSize: 10 },
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setBounces(response.data.data || []);
+      setBounceTotal(response.data.total || 0);
+    } catch (error) {
+      console.error('Failed to fetch bounces:', error);
+    }
+  };
+
+  const handleExportBounces = async () => {
+    try {
+      const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/bounces/export`, {
+        params: { type: 'hard' },
+        responseType: 'blob',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'bounces-hard.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export bounces:', error);
+      alert('Failed to export bounces');
+    }
+  };
+
   const fetchMailboxes = async () => {
     try {
       const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/mailboxes`, {
@@ -74,27 +163,76 @@ const Mailboxes = () => {
     setShowSyncModal(true);
   };
 
-  const handleSyncComplete = async () => {
+  const handleSyncComplete = () => {
     // Hide modal and refresh data
     setShowSyncModal(false);
-    
-    // Actually trigger the sync API in background
+    fetchMailboxes();
+  };
+
+  const handleIntervalChange = async (mailboxId: string, value: string) => {
     try {
-      await axios.post(
-        `${import.meta.env.VITE_API_BASE_URL}/sync/all`,
-        { maxResults: 50 },
+      const response = await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/mailboxes/${mailboxId}/schedule`,
+        { syncIntervalMinutes: value === '' ? null : parseInt(value) },
         {
           headers: {
             Authorization: `Bearer ${localStorage.getItem('token')}`
           }
         }
       );
+      setMailboxes(prev => prev.map(m => m.id === mailboxId ? response.data : m));
     } catch (error) {
-      console.error('Background sync failed:', error);
+      console.error('Failed to update sync schedule:', error);
+      alert('Failed to update sync schedule. Please try again.');
+    }
+  };
+
+  const toggleHistory = async (mailboxId: string) => {
+    if (historyFor === mailboxId) {
+      setHistoryFor(null);
+      return;
+    }
+
+    setHistoryFor(mailboxId);
+    setSyncRuns([]);
+    try {
+      const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/mailboxes/${mailboxId}/sync-runs`, {
+        params: { limit: 10 },
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setSyncRuns(response.data || []);
+    } catch (error) {
+      console.error('Failed to fetch sync history:', error);
+    }
+  };
+
+  const toggleBackfill = (mailboxId: string) => {
+    setBackfillFor(backfillFor === mailboxId ? null : mailboxId);
+    setBackfillRange({ after: monthsAgo(6), before: '' });
+  };
+
+  const handleStartBackfill = async (mailboxId: string) => {
+    setStartingBackfill(true);
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/mailbox/${mailboxId}/backfill`,
+        { after: backfillRange.after, before: backfillRange.before || null },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      alert(`Backfill started. About ${response.data.estimatedTotal} emails will be imported in the background.`);
+      setBackfillFor(null);
+    } catch (error: any) {
+      console.error('Failed to start backfill:', error);
+      alert(error.response?.data?.error || 'Failed to start backfill. Please try again.');
+    } finally {
+      setStartingBackfill(false);
     }
-    
-    // Refresh mailboxes
-    fetchMailboxes();
   };
 
   const handleDeleteMailbox = async (mailboxId: string, email: string) => {
@@ -219,8 +357,102 @@ const Mailboxes = () => {
                     {new Date(mailbox.created_at).toLocaleDateString()}
                   </span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-600">Auto sync:</span>
+                  <select
+                    value={mailbox.sync_interval_minutes === null ? '' : String(mailbox.sync_interval_minutes)}
+                    onChange={(e) => handleIntervalChange(mailbox.id, e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                  >
+                    {INTERVAL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
+              <button
+                onClick={() => toggleHistory(mailbox.id)}
+                className="mt-4 w-full flex items-center justify-center gap-2 text-sm text-primary hover:text-primary/80 font-medium"
+              >
+                <History size={16} />
+                {historyFor === mailbox.id ? 'Hide Sync History' : 'Show Sync History'}
+              </button>
+
+              {historyFor === mailbox.id && (
+                <div className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+                  {syncRuns.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-2">No sync runs yet</p>
+                  ) : (
+                    syncRuns.map(run => (
+                      <div key={run.id} className="p-3 rounded-lg bg-gray-50 border border-gray-100 text-xs">
+                        <div className="flex justify-between mb-1">
+                          <span className="font-medium text-gray-900">
+                            {new Date(run.started_at).toLocaleString()}
+                          </span>
+                          <span className={`font-medium ${
+                            run.status === 'completed'
+                              ? 'text-green-600'
+                              : run.status === 'failed'
+                              ? 'text-red-600'
+                              : 'text-orange-600'
+                          }`}>
+                            {run.status}
+                          </span>
+                        </div>
+                        <div className="text-gray-600">
+                          {run.trigger} · {run.mode || '—'} · {run.processed_count} new, {run.classified_count} classified
+                          {run.cache_hits > 0 && ` (${run.cache_hits} from cache)`}
+                          {run.deferred_count > 0 && `, ${run.deferred_count} waiting for the AI provider`}
+                          {run.failed_count > 0 && `, ${run.failed_count} failed`}
+                        </div>
+                        {run.error_message && (
+                          <div className="text-red-600 mt-1">{run.error_message}</div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+
+              <button
+                onClick={() => toggleBackfill(mailbox.id)}
+                className="mt-2 w-full flex items-center justify-center gap-2 text-sm text-primary hover:text-primary/80 font-medium"
+              >
+                <Archive size={16} />
+                {backfillFor === mailbox.id ? 'Hide Backfill' : 'Import Older Emails'}
+              </button>
+
+              {backfillFor === mailbox.id && (
+                <div className="mt-3 p-3 rounded-lg bg-gray-50 border border-gray-100 space-y-2 text-sm">
+                  <div className="flex justify-between items-center">
+                    <label className="text-gray-600">From:</label>
+                    <input
+                      type="date"
+                      value={backfillRange.after}
+                      onChange={(e) => setBackfillRange({ ...backfillRange, after: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <label className="text-gray-600">Until:</label>
+                    <input
+                      type="date"
+                      value={backfillRange.before}
+                      onChange={(e) => setBackfillRange({ ...backfillRange, before: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleStartBackfill(mailbox.id)}
+                    disabled={startingBackfill || !backfillRange.after}
+                    className="w-full bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {startingBackfill ? 'Starting...' : 'Start Backfill'}
+                  </button>
+                </div>
+              )}
+
               <div className="mt-4 pt-4 border-t border-gray-100">
                 <button
                   onClick={() => handleDeleteMailbox(mailbox.id, mailbox.email_address)}
@@ -245,10 +477,49 @@ const Mailboxes = () => {
         </div>
       )}
 
+      {/* Hard bounces */}
+      {bounceTotal > 0 && (
+        <div className="mt-8 bg-white rounded-2xl shadow-sm p-6 border border-gray-100">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                <MailX size={20} className="text-red-500" />
+                Bounced Addresses
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {bounceTotal} hard bounce{bounceTotal === 1 ? '' : 's'}. Export them to your sending tool's suppression list.
+              </p>
+            </div>
+            <button
+              onClick={handleExportBounces}
+              className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+            >
+              <Download size={16} />
+              Export CSV
+            </button>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {bounces.map(bounce => (
+              <div key={bounce.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{bounce.recipient}</span>
+                  {bounce.status && <span className="ml-2 text-xs text-gray-500">{bounce.status}</span>}
+                  {bounce.diagnostic && (
+                    <p className="text-xs text-gray-500 truncate max-w-xl">{bounce.diagnostic}</p>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(bounce.bounced_at).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Sync Progress Modal */}
       <SyncProgressModal
         isOpen={showSyncModal}
-        mailboxes={mailboxes.map(m => m.email_address)}
         onComplete={handleSyncComplete}
       />
     </div>
@@ -1,15 +1,45 @@
 import { useEffect, useState } from 'react';
-import { Search, Eye, X, Mail, Calendar, Tag, TrendingUp, FileText, Filter } from 'lucide-react';
+import { Search, Eye, X, Mail, Calendar, Tag, TrendingUp, FileText, Filter, RefreshCw, Edit2 } from 'lucide-react';
 import axios from 'axios';
+import { AUTOMATED_SENTIMENTS, fetchTaxonomy, labelColor, labelFor, Taxonomy } from '../utils/taxonomy';
+
+const INTEREST_OPTIONS = ['high', 'medium', 'low', 'none'];
+
+const ENTITY_LABELS: Record<string, string> = {
+  meeting_time: 'Meeting time',
+  referral: 'Referral',
+  phone: 'Phone',
+  company: 'Company',
+  job_title: 'Job title',
+  return_date: 'Back on'
+};
+
+interface ReplyEntity {
+  id: string;
+  type: string;
+  value: string;
+  starts_at: string | null;
+  details: { name?: string | null; email?: string | null; title?: string | null; text?: string | null };
+  source: 'model' | 'pattern';
+}
 
 interface Reply {
   id: string;
-  sentiment: string;
+  status: 'classified' | 'needs_review';
+  sentiment: string | null;
   interest_level: string;
   summary: string;
   category: string;
   recommended_action: string;
   confidence_score: number;
+  overridden_at: string | null;
+  source: 'model' | 'cache' | 'spam_heuristic' | 'header_rules' | 'bounce' | null;
+  provider: string | null;
+  model: string | null;
+  prompt_version: string | null;
+  latency_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
   message: {
     id: string;
     from_address: string;
@@ -17,9 +47,17 @@ interface Reply {
     snippet: string;
     body_plain: string;
     body_html: string;
+    body_new_content: string | null;
     received_at: string;
     is_read: boolean;
+    entities: ReplyEntity[];
+    replied_to: {
+      subject: string;
+      snippet: string;
+      received_at: string;
+    } | null;
     thread: {
+      current_stage: string | null;
       mailbox: {
         email_address: string;
       };
@@ -32,15 +70,29 @@ const Replies = () => {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [sentimentFilter, setSentimentFilter] = useState('all');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [entityFilter, setEntityFilter] = useState('all');
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ sentiments: [], categories: [] });
   const [selectedReply, setSelectedReply] = useState<Reply | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [deleting, setDeleting] = useState(false);
   const [dateFilter, setDateFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
   const [hideAutoReplies, setHideAutoReplies] = useState(false);
+  const [showFullEmail, setShowFullEmail] = useState(false);
+  const [reclassifying, setReclassifying] = useState(false);
+  const [editingLabels, setEditingLabels] = useState(false);
+  const [labelDraft, setLabelDraft] = useState({ sentiment: 'neutral', interestLevel: 'none', category: '' });
+  const [savingLabels, setSavingLabels] = useState(false);
+
+  useEffect(() => {
+    fetchTaxonomy()
+      .then(setTaxonomy)
+      .catch(error => console.error('Failed to fetch taxonomy:', error));
+  }, []);
 
   useEffect(() => {
     fetchReplies();
-  }, [sentimentFilter]);
+  }, [sentimentFilter, categoryFilter, entityFilter]);
 
   const fetchReplies = async () => {
     try {
@@ -48,6 +100,12 @@ const Replies = () => {
       if (sentimentFilter !== 'all') {
         params.sentiment = sentimentFilter;
       }
+      if (categoryFilter !== 'all') {
+        params.category = categoryFilter;
+      }
+      if (entityFilter !== 'all') {
+        params.entity = entityFilter;
+      }
 
       const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/replies`, {
         params,
@@ -73,11 +131,7 @@ const Replies = () => {
 
       // Hide auto-replies filter - only hide based on sentiment classification
       if (hideAutoReplies) {
-        const isAutoReply = reply.sentiment === 'auto_reply' || 
-                           reply.sentiment === 'out_of_office' || 
-                           reply.sentiment === 'spam';
-        
-        if (isAutoReply) {
+        if (reply.sentiment && AUTOMATED_SENTIMENTS.includes(reply.sentiment)) {
           return false;
         }
       }
@@ -97,7 +151,10 @@ const Replies = () => {
     })
     .sort((a, b) => new Date(b.message.received_at).getTime() - new Date(a.message.received_at).getTime());
 
-  const getSentimentColor = (sentiment: string) => {
+  const getSentimentLabel = (reply: Reply) =>
+    reply.status === 'needs_review' ? 'needs review' : labelFor(taxonomy.sentiments, reply.sentiment);
+
+  const getSentimentColor = (sentiment: string | null) => {
     const colors: Record<string, string> = {
       positive: 'bg-green-100 text-green-700 border-green-200',
       warm: 'bg-yellow-100 text-yellow-700 border-yellow-200',
@@ -107,6 +164,7 @@ const Replies = () => {
       out_of_office: 'bg-purple-100 text-purple-700 border-purple-200',
       spam: 'bg-orange-100 text-orange-700 border-orange-200'
     };
+    if (!sentiment) return 'bg-amber-100 text-amber-800 border-amber-300';
     return colors[sentiment] || 'bg-gray-100 text-gray-700 border-gray-200';
   };
 
@@ -130,6 +188,36 @@ const Replies = () => {
     return match ? match[1] : fromAddress;
   };
 
+  const renderEntity = (entity: ReplyEntity) => {
+    switch (entity.type) {
+      case 'meeting_time':
+        return (
+          <>
+            {entity.starts_at ? new Date(entity.starts_at).toLocaleString() : entity.value}
+            {entity.details.text && <span className="text-gray-500"> ("{entity.details.text}")</span>}
+          </>
+        );
+      case 'return_date':
+        return new Date(`${entity.value}T00:00`).toLocaleDateString();
+      case 'phone':
+        return <a href={`tel:${entity.value.replace(/[^\d+]/g, '')}`} className="text-primary hover:underline">{entity.value}</a>;
+      case 'referral':
+        return (
+          <>
+            {[entity.details.name, entity.details.title].filter(Boolean).join(', ')}
+            {entity.details.email && (
+              <>
+                {entity.details.name && ' · '}
+                <a href={`mailto:${entity.details.email}`} className="text-primary hover:underline">{entity.details.email}</a>
+              </>
+            )}
+          </>
+        );
+      default:
+        return entity.value;
+    }
+  };
+
   const toggleSelectAll = () => {
     if (selectedIds.size === filteredReplies.length) {
       setSelectedIds(new Set());
@@ -177,33 +265,124 @@ const Replies = () => {
     }
   };
 
-  // Uncomment if you want to add a "Reclassify All" button
-  // const handleReclassifyAll = async () => {
-  //   if (!confirm('This will re-classify all existing messages. Continue?')) {
-  //     return;
-  //   }
-  //
-  //   setReclassifying(true);
-  //   try {
-  //     await axios.post(
-  //       `${import.meta.env.VITE_API_BASE_URL}/sync/reclassify`,
-  //       {},
-  //       {
-  //         headers: {
-  //           Authorization: `Bearer ${localStorage.getItem('token')}`
-  //         }
-  //       }
-  //     );
-  //
-  //     alert('Re-classification started! Refresh in a few seconds.');
-  //     setTimeout(() => fetchReplies(), 3000);
-  //   } catch (error) {
-  //     console.error('Failed to re-classify:', error);
-  //     alert('Failed to start re-classification. Please try again.');
-  //   } finally {
-  //     setReclassifying(false);
-  //   }
-  // };
+  const handleReclassifyAll = async () => {
+    const scope = sentimentFilter === 'all' ? 'all' : `all "${sentimentFilter.replace('_', ' ')}"`;
+    if (!confirm(`This will re-classify ${scope} replies with the current model. Labels you set by hand are kept. Continue?`)) {
+      return;
+    }
+
+    setReclassifying(true);
+    try {
+      const filters: any = {};
+      if (sentimentFilter === 'needs_review') {
+        filters.status = 'needs_review';
+      } else if (sentimentFilter !== 'all') {
+        filters.sentiment = sentimentFilter;
+      }
+
+      await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/reclassify`,
+        filters,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+
+      alert('Re-classification started! Refresh in a few seconds.');
+      setTimeout(() => fetchReplies(), 3000);
+    } catch (error: any) {
+      console.error('Failed to re-classify:', error);
+      alert(error.response?.data?.error || 'Failed to start re-classification. Please try again.');
+    } finally {
+      setReclassifying(false);
+    }
+  };
+
+  const openReply = (reply: Reply) => {
+    setSelectedReply(reply);
+    setShowFullEmail(false);
+    setEditingLabels(false);
+  };
+
+  const updateReply = (id: string, changes: Partial<Reply>) => {
+    setReplies(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+    setSelectedReply(prev => prev && prev.id === id ? { ...prev, ...changes } : prev);
+  };
+
+  const handleReclassifyOne = async (reply: Reply) => {
+    setReclassifying(true);
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/replies/${reply.id}/reclassify`,
+        {},
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      if (response.data.classification) {
+        updateReply(reply.id, response.data.classification);
+      }
+    } catch (error: any) {
+      console.error('Failed to re-classify reply:', error);
+      alert(error.response?.data?.error || 'Failed to re-classify reply. Please try again.');
+    } finally {
+      setReclassifying(false);
+    }
+  };
+
+  const handleRemoveOverride = async (reply: Reply) => {
+    try {
+      const response = await axios.delete(
+        `${import.meta.env.VITE_API_BASE_URL}/replies/${reply.id}/override`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      updateReply(reply.id, response.data);
+    } catch (error) {
+      console.error('Failed to remove override:', error);
+      alert('Failed to remove override. Please try again.');
+    }
+  };
+
+  const startEditingLabels = (reply: Reply) => {
+    const hasCategory = taxonomy.categories.some(c => c.key === reply.category);
+    setLabelDraft({
+      sentiment: reply.sentiment || taxonomy.sentiments[0]?.key || '',
+      interestLevel: reply.interest_level || 'none',
+      category: hasCategory ? reply.category : ''
+    });
+    setEditingLabels(true);
+  };
+
+  const handleSaveLabels = async (reply: Reply) => {
+    setSavingLabels(true);
+    try {
+      const response = await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/replies/${reply.id}/override`,
+        labelDraft,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      const { message: _message, ...classification } = response.data;
+      updateReply(reply.id, classification);
+      setEditingLabels(false);
+    } catch (error: any) {
+      console.error('Failed to save labels:', error);
+      alert(error.response?.data?.error || 'Failed to save labels. Please try again.');
+    } finally {
+      setSavingLabels(false);
+    }
+  };
 
   return (
     <div className="p-4 sm:p-6 lg:p-8">
@@ -238,7 +417,7 @@ const Replies = () => {
           </div>
 
           <div className="flex gap-2 flex-wrap">
-            <div className="flex gap-2">
+            <div className="flex gap-2 flex-wrap">
               <button
                 onClick={() => setSentimentFilter('all')}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -247,29 +426,27 @@ const Replies = () => {
               >
                 All
               </button>
+              {taxonomy.sentiments
+                .filter(sentiment => !AUTOMATED_SENTIMENTS.includes(sentiment.key))
+                .map(sentiment => (
+                  <button
+                    key={sentiment.key}
+                    onClick={() => setSentimentFilter(sentiment.key)}
+                    style={sentimentFilter === sentiment.key ? { backgroundColor: labelColor(sentiment.key) } : undefined}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                      sentimentFilter === sentiment.key ? 'text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {sentiment.label}
+                  </button>
+                ))}
               <button
-                onClick={() => setSentimentFilter('positive')}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  sentimentFilter === 'positive' ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                Positive
-              </button>
-              <button
-                onClick={() => setSentimentFilter('warm')}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  sentimentFilter === 'warm' ? 'bg-accent text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                Warm
-              </button>
-              <button
-                onClick={() => setSentimentFilter('negative')}
+                onClick={() => setSentimentFilter('needs_review')}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  sentimentFilter === 'negative' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  sentimentFilter === 'needs_review' ? 'bg-amber-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                 }`}
               >
-                Negative
+                Needs Review
               </button>
             </div>
             
@@ -285,6 +462,26 @@ const Replies = () => {
                 <option value="week">Last 7 Days</option>
                 <option value="month">Last 30 Days</option>
               </select>
+              <select
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent text-sm"
+              >
+                <option value="all">All Categories</option>
+                {taxonomy.categories.map(category => (
+                  <option key={category.key} value={category.key}>{category.label}</option>
+                ))}
+              </select>
+              <select
+                value={entityFilter}
+                onChange={(e) => setEntityFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent text-sm"
+              >
+                <option value="all">Any Details</option>
+                {Object.entries(ENTITY_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>Has {label.toLowerCase()}</option>
+                ))}
+              </select>
             </div>
             
             <div className="flex items-center gap-2 ml-4">
@@ -298,6 +495,15 @@ const Replies = () => {
                 <span className="text-sm text-gray-700">Hide Auto-Replies</span>
               </label>
             </div>
+
+            <button
+              onClick={handleReclassifyAll}
+              disabled={reclassifying}
+              className="flex items-center gap-2 ml-4 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw size={16} className={reclassifying ? 'animate-spin' : ''} />
+              Reclassify
+            </button>
           </div>
         </div>
       </div>
@@ -372,7 +578,7 @@ const Replies = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-3 py-1 rounded-full text-xs font-medium ${getSentimentColor(reply.sentiment)}`}>
-                        {reply.sentiment}
+                        {getSentimentLabel(reply)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -384,7 +590,7 @@ const Replies = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right sticky right-0 bg-white">
                       <button
-                        onClick={() => setSelectedReply(reply)}
+                        onClick={() => openReply(reply)}
                         className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium"
                       >
                         <Eye size={16} />
@@ -452,7 +658,89 @@ const Replies = () => {
                 <p className="text-lg font-medium text-gray-900">{selectedReply.message.subject}</p>
               </div>
 
+              {/* Conversation Stage */}
+              {selectedReply.message.thread?.current_stage && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-600 mb-2">Conversation Stage</h3>
+                  <span className="inline-block px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-800 border border-gray-200">
+                    {selectedReply.message.thread.current_stage.replace('_', ' ')}
+                  </span>
+                </div>
+              )}
+
+              {/* Original Email */}
+              {selectedReply.message.replied_to && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-600 mb-2">In Reply To</h3>
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <p className="font-medium text-gray-900">{selectedReply.message.replied_to.subject}</p>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Sent {new Date(selectedReply.message.replied_to.received_at).toLocaleString()}
+                    </p>
+                    <p className="text-sm text-gray-700">{selectedReply.message.replied_to.snippet}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Classification */}
+              {editingLabels ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-600 mb-1">Sentiment</label>
+                      <select
+                        value={labelDraft.sentiment}
+                        onChange={(e) => setLabelDraft({ ...labelDraft, sentiment: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        {taxonomy.sentiments.map(option => (
+                          <option key={option.key} value={option.key}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-600 mb-1">Interest Level</label>
+                      <select
+                        value={labelDraft.interestLevel}
+                        onChange={(e) => setLabelDraft({ ...labelDraft, interestLevel: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        {INTEREST_OPTIONS.map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-600 mb-1">Category</label>
+                      <select
+                        value={labelDraft.category}
+                        onChange={(e) => setLabelDraft({ ...labelDraft, category: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="">Choose...</option>
+                        {taxonomy.categories.map(option => (
+                          <option key={option.key} value={option.key}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditingLabels(false)}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleSaveLabels(selectedReply)}
+                      disabled={savingLabels || !labelDraft.sentiment || !labelDraft.category}
+                      className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+                    >
+                      {savingLabels ? 'Saving...' : 'Save Labels'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <h3 className="text-sm font-semibold text-gray-600 mb-2 flex items-center gap-2">
@@ -460,7 +748,7 @@ const Replies = () => {
                     Sentiment
                   </h3>
                   <span className={`inline-block px-4 py-2 rounded-lg text-sm font-medium border ${getSentimentColor(selectedReply.sentiment)}`}>
-                    {selectedReply.sentiment}
+                    {getSentimentLabel(selectedReply)}
                   </span>
                 </div>
                 <div>
@@ -473,6 +761,19 @@ const Replies = () => {
                   </span>
                 </div>
               </div>
+              )}
+
+              {selectedReply.overridden_at && !editingLabels && (
+                <p className="text-xs text-gray-500">
+                  Labels set by hand on {new Date(selectedReply.overridden_at).toLocaleString()}.{' '}
+                  <button
+                    onClick={() => handleRemoveOverride(selectedReply)}
+                    className="text-primary hover:underline"
+                  >
+                    Allow reclassification
+                  </button>
+                </p>
+              )}
 
               {/* AI Summary */}
               <div>
@@ -481,13 +782,36 @@ const Replies = () => {
                   AI Summary
                 </h3>
                 <p className="text-gray-700 bg-blue-50 p-4 rounded-lg">{selectedReply.summary}</p>
+                {selectedReply.source && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {selectedReply.source === 'spam_heuristic'
+                      ? `Flagged by the spam filter (${selectedReply.model})`
+                      : selectedReply.source === 'header_rules'
+                      ? `Recognized as automated from its headers (${selectedReply.model})`
+                      : selectedReply.source === 'bounce'
+                      ? `Read from the delivery report (${selectedReply.model})`
+                      : selectedReply.source === 'cache'
+                      ? [
+                          'Reused from an identical earlier reply',
+                          `${selectedReply.provider} · ${selectedReply.model}`,
+                          selectedReply.prompt_version && `prompt ${selectedReply.prompt_version}`
+                        ].filter(Boolean).join(' · ')
+                      : [
+                          `${selectedReply.provider} · ${selectedReply.model}`,
+                          selectedReply.prompt_version && `prompt ${selectedReply.prompt_version}`,
+                          selectedReply.latency_ms !== null && `${selectedReply.latency_ms} ms`,
+                          selectedReply.prompt_tokens !== null &&
+                            `${(selectedReply.prompt_tokens + (selectedReply.completion_tokens || 0)).toLocaleString()} tokens`
+                        ].filter(Boolean).join(' · ')}
+                  </p>
+                )}
               </div>
 
               {/* Category & Action */}
               {selectedReply.category && (
                 <div>
                   <h3 className="text-sm font-semibold text-gray-600 mb-2">Category</h3>
-                  <p className="text-gray-700">{selectedReply.category}</p>
+                  <p className="text-gray-700">{labelFor(taxonomy.categories, selectedReply.category)}</p>
                 </div>
               )}
 
@@ -498,19 +822,68 @@ const Replies = () => {
                 </div>
               )}
 
+              {/* Extracted Details */}
+              {selectedReply.message.entities?.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-600 mb-2">Extracted Details</h3>
+                  <dl className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+                    {selectedReply.message.entities.map(entity => (
+                      <div key={entity.id} className="flex gap-3">
+                        <dt className="w-28 shrink-0 text-gray-500">{ENTITY_LABELS[entity.type] || entity.type}</dt>
+                        <dd className="text-gray-900">{renderEntity(entity)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
               {/* Email Body */}
               <div>
-                <h3 className="text-sm font-semibold text-gray-600 mb-2">Email Content</h3>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-600">
+                    {showFullEmail || !selectedReply.message.body_new_content ? 'Email Content' : 'Reply'}
+                  </h3>
+                  {selectedReply.message.body_new_content && (
+                    <button
+                      onClick={() => setShowFullEmail(!showFullEmail)}
+                      className="text-sm text-primary hover:text-primary/80 font-medium"
+                    >
+                      {showFullEmail ? 'Show reply only' : 'Show full email'}
+                    </button>
+                  )}
+                </div>
                 <div className="bg-white border border-gray-200 rounded-lg p-4 max-h-96 overflow-y-auto">
                   <pre className="whitespace-pre-wrap text-sm text-gray-700 font-sans">
-                    {selectedReply.message.body_plain || selectedReply.message.snippet || 'No content available'}
+                    {(showFullEmail ? null : selectedReply.message.body_new_content) ||
+                      selectedReply.message.body_plain ||
+                      selectedReply.message.snippet ||
+                      'No content available'}
                   </pre>
                 </div>
               </div>
             </div>
 
             {/* Modal Footer */}
-            <div className="p-6 border-t border-gray-200 flex justify-end">
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              {!editingLabels && (
+                <button
+                  onClick={() => startEditingLabels(selectedReply)}
+                  className="flex items-center gap-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                >
+                  <Edit2 size={16} />
+                  Edit Labels
+                </button>
+              )}
+              {!selectedReply.overridden_at && selectedReply.source !== 'bounce' && (
+                <button
+                  onClick={() => handleReclassifyOne(selectedReply)}
+                  disabled={reclassifying}
+                  className="flex items-center gap-2 px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+                >
+                  <RefreshCw size={16} className={reclassifying ? 'animate-spin' : ''} />
+                  Reclassify
+                </button>
+              )}
               <button
                 onClick={() => setSelectedReply(null)}
                 className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
@@ -1,10 +1,99 @@
 import { useState, useEffect } from 'react';
-import { Save, Bell } from 'lucide-react';
+import { Save, Bell, RefreshCw, BookOpen, Trash2, Tags, Plus, ShieldAlert, FlaskConical } from 'lucide-react';
 import axios from 'axios';
+import { AUTOMATED_SENTIMENTS, FALLBACK_CATEGORIES, fetchTaxonomy, Taxonomy, TaxonomyCategory, TaxonomySentiment } from '../utils/taxonomy';
+
+interface ProviderInfo {
+  name: string;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+}
+
+interface ClassificationExample {
+  id: string;
+  subject: string | null;
+  body: string;
+  sentiment: string;
+  interest_level: string;
+  category: string;
+  original_sentiment: string | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+type SpamRuleType = 'regex' | 'phrases' | 'sender_domain' | 'header';
+
+interface SpamRule {
+  id: string;
+  name: string;
+  type: SpamRuleType;
+  field: 'subject' | 'body' | 'any';
+  pattern: string | null;
+  terms: string[];
+  case_sensitive: boolean;
+  weight: number;
+  enabled: boolean;
+  builtin: boolean;
+}
+
+interface SpamTestReport {
+  checked: number;
+  spam: number;
+  newly_spam: number;
+  results: {
+    message_id: string;
+    subject: string | null;
+    from_address: string;
+    sentiment: string | null;
+    score: number;
+    is_spam: boolean;
+    matches: { name: string; weight: number; matched: string }[];
+  }[];
+}
+
+const SPAM_RULE_TYPE_LABELS: Record<SpamRuleType, string> = {
+  regex: 'Regular expression',
+  phrases: 'Phrases',
+  sender_domain: 'Sender domain',
+  header: 'Header present'
+};
+
+const EMPTY_SPAM_RULE = { name: '', type: 'phrases' as SpamRuleType, field: 'any', pattern: '', terms: '', weight: '0.5', caseSensitive: false };
+
+const describeSpamRule = (rule: SpamRule) => {
+  const where = rule.field === 'any' ? 'subject or body' : rule.field;
+  switch (rule.type) {
+    case 'regex':
+      return `/${rule.pattern}/${rule.case_sensitive ? '' : 'i'} in ${where}`;
+    case 'phrases':
+      return `${rule.terms.map(term => `"${term}"`).join(', ')} in ${where}`;
+    case 'sender_domain':
+      return `from ${rule.terms.join(', ')}`;
+    case 'header':
+      return rule.terms.length > 0 ? `${rule.pattern} containing ${rule.terms.join(', ')}` : `${rule.pattern} header`;
+  }
+};
 
 const Settings = () => {
   const [notifyEmail, setNotifyEmail] = useState('');
   const [enabledSentiments, setEnabledSentiments] = useState<string[]>(['positive', 'warm']);
+  const [syncInterval, setSyncInterval] = useState('0');
+  const [threadContextEnabled, setThreadContextEnabled] = useState(true);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState('gemini');
+  const [aiProvider, setAiProvider] = useState('');
+  const [aiModel, setAiModel] = useState('');
+  const [examples, setExamples] = useState<ClassificationExample[]>([]);
+  const [promptVersion, setPromptVersion] = useState('');
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null);
+  const [savingTaxonomy, setSavingTaxonomy] = useState(false);
+  const [reclassifying, setReclassifying] = useState(false);
+  const [spamRules, setSpamRules] = useState<SpamRule[]>([]);
+  const [spamThreshold, setSpamThreshold] = useState('1');
+  const [spamRuleDraft, setSpamRuleDraft] = useState(EMPTY_SPAM_RULE);
+  const [spamTest, setSpamTest] = useState<SpamTestReport | null>(null);
+  const [testingSpamRules, setTestingSpamRules] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -21,6 +110,42 @@ const Settings = () => {
       });
       setNotifyEmail(response.data.notify_email || '');
       setEnabledSentiments(response.data.enabled_sentiments || ['positive', 'warm']);
+
+      const syncResponse = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/settings/sync`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setSyncInterval(String(syncResponse.data.sync_interval_minutes ?? 0));
+
+      const classificationResponse = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/settings/classification`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setThreadContextEnabled(classificationResponse.data.thread_context_enabled ?? true);
+      setProviders(classificationResponse.data.providers || []);
+      setDefaultProvider(classificationResponse.data.default_provider || 'gemini');
+      setAiProvider(classificationResponse.data.ai_provider || '');
+      setAiModel(classificationResponse.data.ai_model || '');
+      setPromptVersion(classificationResponse.data.prompt_version || '');
+
+      const examplesResponse = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/settings/classification/examples`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setExamples(examplesResponse.data.examples || []);
+
+      const spamResponse = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/settings/spam`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setSpamRules(spamResponse.data.rules || []);
+      setSpamThreshold(String(spamResponse.data.threshold ?? 1));
+
+      setTaxonomy(await fetchTaxonomy());
     } catch (error) {
       console.error('Failed to fetch settings:', error);
     } finally {
@@ -43,6 +168,37 @@ const Settings = () => {
           }
         }
       );
+      await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/sync`,
+        { syncIntervalMinutes: parseInt(syncInterval) },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/classification`,
+        {
+          threadContextEnabled,
+          aiProvider: aiProvider || null,
+          aiModel: aiModel.trim() || null
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/spam`,
+        { threshold: parseFloat(spamThreshold) },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
       alert('Settings saved successfully!');
     } catch (error) {
       console.error('Failed to save settings:', error);
@@ -52,6 +208,235 @@ const Settings = () => {
     }
   };
 
+  const updateSentiment = (index: number, changes: Partial<TaxonomySentiment>) => {
+    if (!taxonomy) return;
+    setTaxonomy({
+      ...taxonomy,
+      sentiments: taxonomy.sentiments.map((s, i) => i === index ? { ...s, ...changes } : s)
+    });
+  };
+
+  const updateCategory = (index: number, changes: Partial<TaxonomyCategory>) => {
+    if (!taxonomy) return;
+    setTaxonomy({
+      ...taxonomy,
+      categories: taxonomy.categories.map((c, i) => i === index ? { ...c, ...changes } : c)
+    });
+  };
+
+  const handleSaveTaxonomy = async () => {
+    if (!taxonomy) return;
+
+    setSavingTaxonomy(true);
+    try {
+      const response = await axios.put(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/taxonomy`,
+        {
+          sentiments: taxonomy.sentiments.map(sentiment => ({
+            ...sentiment,
+            examples: sentiment.examples.map(example => example.trim()).filter(Boolean)
+          })),
+          categories: taxonomy.categories
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setTaxonomy({ ...taxonomy, ...response.data });
+      alert('Labels saved. New replies use them right away; re-classify to update older replies.');
+    } catch (error: any) {
+      console.error('Failed to save labels:', error);
+      alert(error.response?.data?.error || 'Failed to save labels');
+    } finally {
+      setSavingTaxonomy(false);
+    }
+  };
+
+  const handleResetTaxonomy = async () => {
+    if (!taxonomy || !confirm('Replace your labels with the built-in ones?')) {
+      return;
+    }
+
+    try {
+      const response = await axios.delete(`${import.meta.env.VITE_API_BASE_URL}/settings/taxonomy`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      setTaxonomy({ ...taxonomy, ...response.data });
+    } catch (error) {
+      console.error('Failed to reset labels:', error);
+      alert('Failed to reset labels');
+    }
+  };
+
+  const handleReclassifyOutdated = async () => {
+    if (!confirm('Re-classify every reply that was classified with an older prompt? Labels you set by hand are kept.')) {
+      return;
+    }
+
+    setReclassifying(true);
+    try {
+      await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/sync/reclassify`,
+        { outdatedPrompt: true },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      alert('Re-classification started. It runs in the background; labels update as replies are processed.');
+    } catch (error: any) {
+      console.error('Failed to start re-classification:', error);
+      alert(error.response?.data?.error || 'Failed to start re-classification');
+    } finally {
+      setReclassifying(false);
+    }
+  };
+
+  const handleToggleExample = async (example: ClassificationExample) => {
+    try {
+      const response = await axios.patch(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/classification/examples/${example.id}`,
+        { enabled: !example.enabled },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setExamples(examples.map(e => e.id === example.id ? response.data : e));
+    } catch (error) {
+      console.error('Failed to update example:', error);
+      alert('Failed to update example');
+    }
+  };
+
+  const handleDeleteExample = async (example: ClassificationExample) => {
+    if (!confirm('Remove this example? The reply keeps its corrected labels.')) {
+      return;
+    }
+
+    try {
+      await axios.delete(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/classification/examples/${example.id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setExamples(examples.filter(e => e.id !== example.id));
+    } catch (error) {
+      console.error('Failed to delete example:', error);
+      alert('Failed to delete example');
+    }
+  };
+
+  // The draft as the API expects it, or null if it's still empty
+  const spamRuleFromDraft = () => {
+    if (!spamRuleDraft.name.trim()) return null;
+    const usesPattern = spamRuleDraft.type === 'regex' || spamRuleDraft.type === 'header';
+    return {
+      name: spamRuleDraft.name.trim(),
+      type: spamRuleDraft.type,
+      field: spamRuleDraft.field,
+      pattern: usesPattern ? spamRuleDraft.pattern.trim() : null,
+      terms: spamRuleDraft.terms.split('\n').map(term => term.trim()).filter(Boolean),
+      case_sensitive: spamRuleDraft.caseSensitive,
+      weight: parseFloat(spamRuleDraft.weight)
+    };
+  };
+
+  const handleAddSpamRule = async () => {
+    const rule = spamRuleFromDraft();
+    if (!rule) {
+      alert('Give the rule a name');
+      return;
+    }
+
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/spam/rules`,
+        rule,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setSpamRules([...spamRules, response.data]);
+      setSpamRuleDraft(EMPTY_SPAM_RULE);
+      setSpamTest(null);
+    } catch (error: any) {
+      console.error('Failed to add spam rule:', error);
+      alert(error.response?.data?.error || 'Failed to add spam rule');
+    }
+  };
+
+  const handleUpdateSpamRule = async (rule: SpamRule, changes: { enabled?: boolean; weight?: number }) => {
+    try {
+      const response = await axios.patch(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/spam/rules/${rule.id}`,
+        changes,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setSpamRules(spamRules.map(r => r.id === rule.id ? response.data : r));
+    } catch (error: any) {
+      console.error('Failed to update spam rule:', error);
+      alert(error.response?.data?.error || 'Failed to update spam rule');
+    }
+  };
+
+  const handleDeleteSpamRule = async (rule: SpamRule) => {
+    if (!confirm(`Delete the spam rule "${rule.name}"? Replies already labelled spam stay spam.`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/spam/rules/${rule.id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setSpamRules(spamRules.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Failed to delete spam rule:', error);
+      alert('Failed to delete spam rule');
+    }
+  };
+
+  const handleTestSpamRules = async () => {
+    setTestingSpamRules(true);
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_BASE_URL}/settings/spam/test`,
+        { rule: spamRuleFromDraft(), threshold: parseFloat(spamThreshold) },
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      setSpamTest(response.data);
+    } catch (error: any) {
+      console.error('Failed to test spam rules:', error);
+      alert(error.response?.data?.error || 'Failed to test spam rules');
+    } finally {
+      setTestingSpamRules(false);
+    }
+  };
+
   const toggleSentiment = (sentiment: string) => {
     if (enabledSentiments.includes(sentiment)) {
       setEnabledSentiments(enabledSentiments.filter(s => s !== sentiment));
@@ -60,6 +445,8 @@ const Settings = () => {
     }
   };
 
+  const activeProvider = providers.find(p => p.name === (aiProvider || defaultProvider));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -105,33 +492,554 @@ const Settings = () => {
                 Send alerts for these sentiments:
               </label>
               <div className="space-y-2">
-                {['positive', 'warm', 'neutral', 'negative'].map((sentiment) => (
-                  <label key={sentiment} className="flex items-center gap-3 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={enabledSentiments.includes(sentiment)}
-                      onChange={() => toggleSentiment(sentiment)}
-                      className="w-5 h-5 text-primary border-gray-300 rounded focus:ring-primary"
-                    />
-                    <span className="text-gray-700 capitalize">{sentiment}</span>
-                  </label>
-                ))}
+                {(taxonomy?.sentiments || [])
+                  .filter(sentiment => !AUTOMATED_SENTIMENTS.includes(sentiment.key))
+                  .map((sentiment) => (
+                    <label key={sentiment.key} className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={enabledSentiments.includes(sentiment.key)}
+                        onChange={() => toggleSentiment(sentiment.key)}
+                        className="w-5 h-5 text-primary border-gray-300 rounded focus:ring-primary"
+                      />
+                      <span className="text-gray-700">{sentiment.label}</span>
+                    </label>
+                  ))}
               </div>
             </div>
           </div>
         </div>
 
-        {/* Gemini Settings */}
+        {/* Automatic Sync Settings */}
+        <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-6">
+          <div className="flex items-center gap-3 mb-6">
+            <RefreshCw className="text-primary" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Automatic Sync</h2>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Default sync interval
+          </label>
+          <select
+            value={syncInterval}
+            onChange={(e) => setSyncInterval(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="0">Off (sync manually)</option>
+            <option value="15">Every 15 minutes</option>
+            <option value="30">Every 30 minutes</option>
+            <option value="60">Every hour</option>
+            <option value="240">Every 4 hours</option>
+            <option value="1440">Daily</option>
+          </select>
+          <p className="text-sm text-gray-500 mt-1">
+            Applies to every mailbox that doesn't set its own interval on the Mailboxes page
+          </p>
+        </div>
+
+        {/* AI Settings */}
         <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">AI Configuration</h2>
-          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-sm font-medium text-green-800">
-                Gemini API is configured and active
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Provider
+              </label>
+              <select
+                value={aiProvider}
+                onChange={(e) => setAiProvider(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                <option value="">
+                  Server default ({providers.find(p => p.name === defaultProvider)?.label || defaultProvider})
+                </option>
+                {providers.map(provider => (
+                  <option key={provider.name} value={provider.name}>
+                    {provider.label}{provider.configured ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Model
+              </label>
+              <input
+                type="text"
+                value={aiModel}
+                onChange={(e) => setAiModel(e.target.value)}
+                placeholder={activeProvider?.defaultModel || ''}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {activeProvider && (
+            activeProvider.configured ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                  <span className="text-sm font-medium text-green-800">
+                    {activeProvider.label} is configured and active
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                  <span className="text-sm font-medium text-red-800">
+                    {activeProvider.label} is not configured on the server, replies will not be classified
+                  </span>
+                </div>
+              </div>
+            )
+          )}
+
+          <label className="flex items-start gap-3 cursor-pointer mt-4">
+            <input
+              type="checkbox"
+              checked={threadContextEnabled}
+              onChange={(e) => setThreadContextEnabled(e.target.checked)}
+              className="w-5 h-5 mt-0.5 text-primary border-gray-300 rounded focus:ring-primary"
+            />
+            <span>
+              <span className="block text-gray-700">Use the whole conversation when classifying</span>
+              <span className="block text-sm text-gray-500">
+                Earlier messages in the thread are sent along with each reply, so short answers like "sure, Tuesday works" are understood
               </span>
+            </span>
+          </label>
+
+          {promptVersion && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-6 pt-4 border-t border-gray-100">
+              <div>
+                <p className="text-sm text-gray-700">
+                  Current prompt: <span className="font-mono">{promptVersion}</span>
+                </p>
+                <p className="text-sm text-gray-500">
+                  Replies classified with an earlier prompt keep their labels until they are re-classified
+                </p>
+              </div>
+              <button
+                onClick={handleReclassifyOutdated}
+                disabled={reclassifying}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 flex-shrink-0"
+              >
+                <RefreshCw size={16} className={reclassifying ? 'animate-spin' : ''} />
+                Re-classify outdated
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Classification Labels */}
+        {taxonomy && (
+          <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-6">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <div className="flex items-center gap-3">
+                <Tags className="text-primary" size={24} />
+                <h2 className="text-xl font-semibold text-gray-900">Classification Labels</h2>
+              </div>
+              {!taxonomy.is_default && (
+                <button
+                  onClick={handleResetTaxonomy}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Reset to defaults
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-gray-500 mb-6">
+              The sentiments and categories replies are sorted into. Descriptions and example phrases are shown to the AI. Auto-reply, out of office and spam, and the Other category, are needed by the app and can be reworded but not removed.
+            </p>
+
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">Sentiments</h3>
+            <div className="space-y-4 mb-4">
+              {taxonomy.sentiments.map((sentiment, index) => {
+                const isSystem = (taxonomy.system_sentiments || AUTOMATED_SENTIMENTS).includes(sentiment.key);
+                return (
+                  <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <input
+                        type="text"
+                        value={sentiment.key}
+                        disabled={isSystem}
+                        onChange={(e) => updateSentiment(index, { key: e.target.value })}
+                        placeholder="key, e.g. referral"
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-gray-50"
+                      />
+                      <input
+                        type="text"
+                        value={sentiment.label}
+                        onChange={(e) => updateSentiment(index, { label: e.target.value })}
+                        placeholder="Label"
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                      <div className="flex gap-2">
+                        <select
+                          value={sentiment.stage || ''}
+                          onChange={(e) => updateSentiment(index, { stage: e.target.value || null })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                          title="Conversation stage a reply with this sentiment moves the thread to"
+                        >
+                          <option value="">Stage unchanged</option>
+                          {(taxonomy.stages || []).map(stage => (
+                            <option key={stage} value={stage}>{stage.replace(/_/g, ' ')}</option>
+                          ))}
+                        </select>
+                        {!isSystem && (
+                          <button
+                            onClick={() => setTaxonomy({ ...taxonomy, sentiments: taxonomy.sentiments.filter((_, i) => i !== index) })}
+                            className="text-gray-400 hover:text-red-600 transition-colors"
+                            title="Remove sentiment"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <input
+                      type="text"
+                      value={sentiment.description}
+                      onChange={(e) => updateSentiment(index, { description: e.target.value })}
+                      placeholder="Description"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                    <textarea
+                      value={sentiment.examples.join('\n')}
+                      onChange={(e) => updateSentiment(index, { examples: e.target.value.split('\n') })}
+                      placeholder="Example phrases, one per line"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                  </div>
+                );
+              })}
             </div>
+            <button
+              onClick={() => setTaxonomy({
+                ...taxonomy,
+                sentiments: [...taxonomy.sentiments, { key: '', label: '', description: '', examples: [], stage: null }]
+              })}
+              className="flex items-center gap-2 text-sm text-primary hover:text-primary/80 font-medium mb-6"
+            >
+              <Plus size={16} />
+              Add sentiment
+            </button>
+
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">Categories</h3>
+            <div className="space-y-2 mb-4">
+              {taxonomy.categories.map((category, index) => {
+                const isSystem = (taxonomy.system_categories || FALLBACK_CATEGORIES).includes(category.key);
+                return (
+                  <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center">
+                    <input
+                      type="text"
+                      value={category.key}
+                      disabled={isSystem}
+                      onChange={(e) => updateCategory(index, { key: e.target.value })}
+                      placeholder="key, e.g. wrong_person"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-gray-50"
+                    />
+                    <input
+                      type="text"
+                      value={category.label}
+                      onChange={(e) => updateCategory(index, { label: e.target.value })}
+                      placeholder="Label"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={category.description}
+                      onChange={(e) => updateCategory(index, { description: e.target.value })}
+                      placeholder="Description"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                    {isSystem ? <span /> : (
+                      <button
+                        onClick={() => setTaxonomy({ ...taxonomy, categories: taxonomy.categories.filter((_, i) => i !== index) })}
+                        className="text-gray-400 hover:text-red-600 transition-colors justify-self-end"
+                        title="Remove category"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setTaxonomy({
+                  ...taxonomy,
+                  categories: [...taxonomy.categories, { key: '', label: '', description: '' }]
+                })}
+                className="flex items-center gap-2 text-sm text-primary hover:text-primary/80 font-medium"
+              >
+                <Plus size={16} />
+                Add category
+              </button>
+              <button
+                onClick={handleSaveTaxonomy}
+                disabled={savingTaxonomy}
+                className="flex items-center gap-2 bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors font-medium disabled:opacity-50"
+              >
+                <Save size={16} />
+                {savingTaxonomy ? 'Saving...' : 'Save Labels'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Learned Examples */}
+        <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-6">
+          <div className="flex items-center gap-3 mb-2">
+            <BookOpen className="text-primary" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Learned Examples</h2>
           </div>
+          <p className="text-sm text-gray-500 mb-4">
+            When you correct a reply's labels it becomes an example. The most similar examples are shown to the AI with each new reply, so it stops repeating the same mistakes.
+          </p>
+
+          {examples.length === 0 ? (
+            <p className="text-sm text-gray-500">No corrections yet. Use "Edit Labels" on a reply to add one.</p>
+          ) : (
+            <div className="space-y-3">
+              {examples.map(example => (
+                <div
+                  key={example.id}
+                  className={`border border-gray-200 rounded-lg p-4 ${example.enabled ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{example.subject || '(no subject)'}</p>
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">{example.body}</p>
+                      <p className="text-xs text-gray-500 mt-2">
+                        {example.original_sentiment
+                          ? <><span className="line-through">{example.original_sentiment.replace('_', ' ')}</span> → </>
+                          : null}
+                        <span className="font-medium text-gray-700">{example.sentiment.replace('_', ' ')}</span>
+                        {' · '}{example.interest_level} interest · {example.category}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={example.enabled}
+                          onChange={() => handleToggleExample(example)}
+                          className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                        />
+                        Use
+                      </label>
+                      <button
+                        onClick={() => handleDeleteExample(example)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove example"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Spam Rules */}
+        <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100 mb-6">
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldAlert className="text-primary" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Spam Rules</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Replies are checked against these rules before the AI sees them. When the weights of the matching rules add up to the threshold, the reply is labelled spam and the rules that matched are shown in its summary.
+          </p>
+
+          <div className="flex items-center gap-3 mb-4">
+            <label className="text-sm font-medium text-gray-700">Threshold</label>
+            <input
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={spamThreshold}
+              onChange={(e) => setSpamThreshold(e.target.value)}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+            <span className="text-xs text-gray-500">Saved with the other settings</span>
+          </div>
+
+          <div className="space-y-2 mb-6">
+            {spamRules.map(rule => (
+              <div
+                key={rule.id}
+                className={`flex items-center justify-between gap-4 border border-gray-200 rounded-lg p-3 ${rule.enabled ? '' : 'opacity-60'}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {rule.name}
+                    {rule.builtin && <span className="ml-2 text-xs font-normal text-gray-500">built-in</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1 truncate">
+                    {SPAM_RULE_TYPE_LABELS[rule.type]}: {describeSpamRule(rule)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <input
+                    type="number"
+                    step="0.1"
+                    defaultValue={rule.weight}
+                    onBlur={(e) => {
+                      const weight = parseFloat(e.target.value);
+                      if (!isNaN(weight) && weight !== rule.weight) handleUpdateSpamRule(rule, { weight });
+                    }}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                    title="Weight"
+                  />
+                  <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleUpdateSpamRule(rule, { enabled: !rule.enabled })}
+                      className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                    />
+                    On
+                  </label>
+                  {!rule.builtin && (
+                    <button
+                      onClick={() => handleDeleteSpamRule(rule)}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">New rule</h3>
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3 mb-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={spamRuleDraft.name}
+                onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, name: e.target.value })}
+                placeholder="Name"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+              <select
+                value={spamRuleDraft.type}
+                onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, type: e.target.value as SpamRuleType })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                {(Object.keys(SPAM_RULE_TYPE_LABELS) as SpamRuleType[]).map(type => (
+                  <option key={type} value={type}>{SPAM_RULE_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.1"
+                value={spamRuleDraft.weight}
+                onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, weight: e.target.value })}
+                placeholder="Weight"
+                title="Weight"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+            {(spamRuleDraft.type === 'regex' || spamRuleDraft.type === 'phrases') && (
+              <select
+                value={spamRuleDraft.field}
+                onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, field: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                <option value="any">Subject or body</option>
+                <option value="subject">Subject</option>
+                <option value="body">Body</option>
+              </select>
+            )}
+            {(spamRuleDraft.type === 'regex' || spamRuleDraft.type === 'header') && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  value={spamRuleDraft.pattern}
+                  onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, pattern: e.target.value })}
+                  placeholder={spamRuleDraft.type === 'regex' ? 'Regular expression' : 'Header name, e.g. List-Unsubscribe'}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                {spamRuleDraft.type === 'regex' && (
+                  <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={spamRuleDraft.caseSensitive}
+                      onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, caseSensitive: e.target.checked })}
+                      className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                    />
+                    Match case
+                  </label>
+                )}
+              </div>
+            )}
+            {spamRuleDraft.type !== 'regex' && (
+              <textarea
+                value={spamRuleDraft.terms}
+                onChange={(e) => setSpamRuleDraft({ ...spamRuleDraft, terms: e.target.value })}
+                placeholder={
+                  spamRuleDraft.type === 'phrases' ? 'Phrases, one per line'
+                    : spamRuleDraft.type === 'sender_domain' ? 'Domains, one per line'
+                    : 'Header values to look for, one per line (optional)'
+                }
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mb-4">
+            <button
+              onClick={handleTestSpamRules}
+              disabled={testingSpamRules}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+              title="Run the rules, including the new one, over your latest replies without changing anything"
+            >
+              <FlaskConical size={16} />
+              {testingSpamRules ? 'Testing...' : 'Test on recent replies'}
+            </button>
+            <button
+              onClick={handleAddSpamRule}
+              className="flex items-center gap-2 bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors font-medium"
+            >
+              <Plus size={16} />
+              Add Rule
+            </button>
+          </div>
+
+          {spamTest && (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-700 mb-3">
+                Checked {spamTest.checked} replies: {spamTest.spam} would be spam
+                {spamTest.newly_spam > 0 && `, ${spamTest.newly_spam} of them not labelled spam now`}.
+              </p>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {spamTest.results.map(result => (
+                  <div key={result.message_id} className="text-sm">
+                    <p className={`truncate ${result.is_spam ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                      {result.is_spam ? 'Spam' : 'Not spam'} ({result.score}) · {result.subject || '(no subject)'}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {result.from_address}
+                      {result.sentiment && ` · now ${result.sentiment.replace('_', ' ')}`}
+                      {' · '}{result.matches.map(match => `${match.name} (${match.matched})`).join(', ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Save Button */}
@@ -0,0 +1,61 @@
+// Minimal Server-Sent Events reader built on fetch. EventSource can't send
+// an Authorization header, and the API token must not end up in URLs.
+
+export const openEventStream = (
+  url: string,
+  onEvent: (event: string, data: any) => void,
+  onError?: (error: unknown) => void
+) => {
+  const controller = new AbortController();
+
+  const dispatch = (frame: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+
+    if (dataLines.length === 0) return;
+    onEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  const run = async () => {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+        Accept: 'text/event-stream'
+      },
+      signal: controller.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  };
+
+  run().catch(error => {
+    if (!controller.signal.aborted) onError?.(error);
+  });
+
+  return () => controller.abort();
+};
@@ -0,0 +1,63 @@
+// The user's sentiment and category labels (GET /settings/taxonomy), plus
+// display helpers shared by the pages that show them.
+import axios from 'axios';
+
+export interface TaxonomyCategory {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export interface TaxonomySentiment extends TaxonomyCategory {
+  examples: string[];
+  stage: string | null;
+}
+
+export interface Taxonomy {
+  sentiments: TaxonomySentiment[];
+  categories: TaxonomyCategory[];
+  is_default?: boolean;
+  system_sentiments?: string[];
+  system_categories?: string[];
+  stages?: string[];
+}
+
+export const AUTOMATED_SENTIMENTS = ['auto_reply', 'out_of_office', 'spam'];
+
+// Given to replies labelled without the AI (spam, automated, bounces)
+export const FALLBACK_CATEGORIES = ['other'];
+
+export const fetchTaxonomy = async (): Promise<Taxonomy> => {
+  const response = await axios.get(`${import.meta.env.VITE_API_BASE_URL}/settings/taxonomy`, {
+    headers: {
+      Authorization: `Bearer ${localStorage.getItem('token')}`
+    }
+  });
+  return response.data;
+};
+
+const BUILT_IN_COLORS: Record<string, string> = {
+  positive: '#10b981',
+  warm: '#E66B2B',
+  neutral: '#6b7280',
+  negative: '#ef4444',
+  auto_reply: '#3b82f6',
+  out_of_office: '#8b5cf6',
+  spam: '#f97316'
+};
+
+const PALETTE = ['#0ea5e9', '#14b8a6', '#eab308', '#ec4899', '#6366f1', '#84cc16', '#f43f5e', '#a855f7'];
+
+// Custom labels get a stable color derived from their key
+export const labelColor = (key: string) => {
+  if (BUILT_IN_COLORS[key]) return BUILT_IN_COLORS[key];
+
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return PALETTE[hash % PALETTE.length];
+};
+
+export const labelFor = (labels: TaxonomyCategory[], key: string | null) =>
+  labels.find(label => label.key === key)?.label || (key ? key.replace(/_/g, ' ') : '');
@@ -22,6 +22,13 @@ CREATE TABLE mailboxes (
     status TEXT DEFAULT 'connected' CHECK (status IN ('connected', 'error', 'disabled')),
     last_synced_at TIMESTAMPTZ,
     last_history_id TEXT,
+    -- Gmail IDs that failed in the last sync, each with the number of
+    -- syncs in a row it has failed; the history checkpoint has moved past
+    -- them, so the next sync retries them explicitly
+    retry_messages JSONB DEFAULT '{}'::jsonb,
+    watch_expires_at TIMESTAMPTZ,
+    sync_interval_minutes INTEGER CHECK (sync_interval_minutes >= 0),
+    next_sync_at TIMESTAMPTZ,
     access_token_encrypted TEXT,
     refresh_token_encrypted TEXT,
     token_expires_at TIMESTAMPTZ,
@@ -37,6 +44,11 @@ CREATE TABLE threads (
     subject TEXT,
     lead_email TEXT,
     last_message_at TIMESTAMPTZ,
+    -- Rolled up from the latest human reply, see ClassificationService.refreshThreadStage
+    current_stage TEXT CHECK (current_stage IN ('contacted', 'replied', 'interested', 'nurturing', 'not_interested')),
+    stage_updated_at TIMESTAMPTZ,
+    -- When the lead is back, from their latest out-of-office reply
+    ooo_return_date DATE,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(mailbox_id, gmail_thread_id)
 );
@@ -47,6 +59,11 @@ CREATE TABLE messages (
     thread_id UUID NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
     gmail_message_id TEXT NOT NULL UNIQUE,
     direction TEXT NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+    rfc_message_id TEXT,
+    in_reply_to TEXT,
+    reference_ids TEXT[] DEFAULT ARRAY[]::TEXT[],
+    -- For inbound replies, the outbound message they answer
+    replied_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
     from_address TEXT NOT NULL,
     to_addresses TEXT[] DEFAULT ARRAY[]::TEXT[],
     cc_addresses TEXT[] DEFAULT ARRAY[]::TEXT[],
@@ -54,6 +71,11 @@ CREATE TABLE messages (
     snippet TEXT,
     body_plain TEXT,
     body_html TEXT,
+    -- body_plain without quoted history, signature and disclaimers
+    body_new_content TEXT,
+    body_signature TEXT,
+    -- Every header by lower-cased name, for spam rules
+    headers JSONB,
     received_at TIMESTAMPTZ NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -62,15 +84,166 @@ CREATE TABLE messages (
 CREATE TABLE classifications (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
-    sentiment TEXT NOT NULL CHECK (sentiment IN ('positive', 'warm', 'neutral', 'negative', 'auto_reply', 'out_of_office', 'spam')),
+    -- needs_review: the AI answer failed validation; sentiment and the
+    -- other fields are empty until someone classifies it by hand
+    status TEXT NOT NULL DEFAULT 'classified' CHECK (status IN ('classified', 'needs_review')),
+    -- Sentiment and category are keys of the user's taxonomy
+    sentiment TEXT,
     confidence_score NUMERIC(3, 2) CHECK (confidence_score >= 0 AND confidence_score <= 1),
     interest_level TEXT CHECK (interest_level IN ('high', 'medium', 'low', 'none')),
     summary TEXT,
     category TEXT,
     recommended_action TEXT,
     raw_ai_response JSONB,
+    -- Provenance: what produced the row and what it cost. source is
+    -- 'model', 'spam_heuristic' (the user's spam rules; model holds the
+    -- rules version and raw_ai_response the rules that matched),
+    -- 'header_rules' (auto-replies recognized from their headers, same
+    -- layout), 'cache' (copied from an identical earlier reply; provider,
+    -- model and prompt_version are the ones that first answered) or
+    -- 'bounce'
+    source TEXT CHECK (source IN ('model', 'cache', 'spam_heuristic', 'header_rules', 'bounce')),
+    provider TEXT,
+    model TEXT,
+    prompt_version TEXT,
+    latency_ms INTEGER,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    raw_response_text TEXT,
+    -- Set when a person corrected the labels; reclassification skips these
+    overridden_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    overridden_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    UNIQUE(message_id)
+    UNIQUE(message_id),
+    CHECK (status = 'needs_review' OR sentiment IS NOT NULL)
+);
+
+-- Classification examples table (human corrections reused as few-shot
+-- examples in the classification prompt)
+CREATE TABLE classification_examples (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    classification_id UUID REFERENCES classifications(id) ON DELETE SET NULL,
+    subject TEXT,
+    body TEXT NOT NULL,
+    sentiment TEXT NOT NULL,
+    interest_level TEXT NOT NULL CHECK (interest_level IN ('high', 'medium', 'low', 'none')),
+    category TEXT NOT NULL,
+    -- What the model had said before the correction, NULL if it had no answer
+    original_sentiment TEXT,
+    enabled BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(classification_id)
+);
+
+-- Taxonomies table (per-user sentiment and category labels; users
+-- without a row use the built-in taxonomy)
+CREATE TABLE taxonomies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- [{key, label, description, examples[], stage}]
+    sentiments JSONB NOT NULL,
+    -- [{key, label, description}]
+    categories JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id)
+);
+
+-- Reply entities table (details pulled out of a reply: proposed meeting
+-- times, referred contacts, phone numbers, the sender's company and title,
+-- out-of-office return dates). Replaced whenever the reply is classified.
+CREATE TABLE reply_entities (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('meeting_time', 'referral', 'phone', 'company', 'job_title', 'return_date')),
+    value TEXT NOT NULL,
+    -- Normalized time of meeting_time and return_date entities
+    starts_at TIMESTAMPTZ,
+    -- Type-specific fields, e.g. {name, email, title} of a referral
+    details JSONB DEFAULT '{}'::JSONB,
+    -- 'model' (from the classification answer) or 'pattern' (regex match)
+    source TEXT NOT NULL CHECK (source IN ('model', 'pattern')),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Follow-up tasks table (reminders to get back to a lead, e.g. when an
+-- out-of-office sender returns)
+CREATE TABLE follow_up_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    thread_id UUID NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+    -- The reply that created or last moved the task
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('out_of_office')),
+    -- NULL when the reply didn't say; due_at is then a default delay
+    return_date DATE,
+    due_at TIMESTAMPTZ NOT NULL,
+    status TEXT DEFAULT 'open' CHECK (status IN ('open', 'done', 'dismissed')),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Bounces table (failed recipients read from delivery status notifications;
+-- hard bounces are exported as a suppression list)
+CREATE TABLE bounces (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    mailbox_id UUID NOT NULL REFERENCES mailboxes(id) ON DELETE CASCADE,
+    -- The delivery report itself
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    recipient TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('hard', 'soft')),
+    -- Enhanced status code (5.1.1) and basic SMTP reply code (550)
+    status TEXT,
+    smtp_code INTEGER,
+    diagnostic TEXT,
+    action TEXT,
+    bounced_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(message_id, recipient)
+);
+
+-- Spam rules table (per-user weighted rules checked before a reply is sent
+-- to the model; built-in rules are added on first use and can be turned off
+-- but not deleted)
+CREATE TABLE spam_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('regex', 'phrases', 'sender_domain', 'header')),
+    -- What regex and phrases rules look at
+    field TEXT NOT NULL DEFAULT 'any' CHECK (field IN ('subject', 'body', 'any')),
+    -- The regex, or the header name for header rules
+    pattern TEXT,
+    -- Phrases, domains, or accepted header values
+    terms TEXT[] DEFAULT ARRAY[]::TEXT[],
+    case_sensitive BOOLEAN DEFAULT FALSE,
+    weight NUMERIC(4, 2) NOT NULL CHECK (weight >= -10 AND weight <= 10),
+    enabled BOOLEAN DEFAULT TRUE,
+    builtin BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+-- Classification cache table (model answers keyed by a hash of the
+-- normalized reply text and taxonomy, reused for identical replies)
+CREATE TABLE classification_cache (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    content_hash TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    -- The answer without entities, which depend on when the reply arrived
+    classification JSONB NOT NULL,
+    hit_count INTEGER DEFAULT 0,
+    last_hit_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, content_hash, prompt_version, provider, model)
 );
 
 -- Alerts table
@@ -92,26 +265,99 @@ CREATE TABLE settings (
     notify_email TEXT,
     enabled_sentiments TEXT[] DEFAULT ARRAY['positive', 'warm']::TEXT[],
     timezone TEXT DEFAULT 'UTC',
+    sync_interval_minutes INTEGER CHECK (sync_interval_minutes >= 0),
+    thread_context_enabled BOOLEAN DEFAULT TRUE,
+    -- NULL means the server default (AI_PROVIDER, provider's default model)
+    ai_provider TEXT CHECK (ai_provider IN ('gemini', 'openai_compatible', 'offline')),
+    ai_model TEXT,
+    -- Replies whose matching spam rules add up to this are spam
+    spam_threshold NUMERIC(5, 2) DEFAULT 1 CHECK (spam_threshold > 0),
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(user_id)
 );
 
+-- Sync jobs table (background mailbox syncs)
+CREATE TABLE sync_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    mailbox_id UUID NOT NULL REFERENCES mailboxes(id) ON DELETE CASCADE,
+    kind TEXT DEFAULT 'sync' CHECK (kind IN ('sync', 'backfill', 'reclassify', 'classify')),
+    status TEXT DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    params JSONB DEFAULT '{}'::jsonb,
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER DEFAULT 3,
+    run_after TIMESTAMPTZ DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    locked_by TEXT,
+    progress JSONB,
+    checkpoint JSONB,
+    result JSONB,
+    error_message TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+-- Sync runs table (history of every mailbox sync and its outcome)
+CREATE TABLE sync_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    mailbox_id UUID NOT NULL REFERENCES mailboxes(id) ON DELETE CASCADE,
+    job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'scheduled', 'push')),
+    status TEXT NOT NULL CHECK (status IN ('completed', 'failed', 'cancelled')),
+    mode TEXT CHECK (mode IN ('incremental', 'full')),
+    total_messages INTEGER DEFAULT 0,
+    processed_count INTEGER DEFAULT 0,
+    classified_count INTEGER DEFAULT 0,
+    skipped_count INTEGER DEFAULT 0,
+    failed_count INTEGER DEFAULT 0,
+    -- Replies stored unlabelled because the AI provider was unavailable
+    deferred_count INTEGER DEFAULT 0,
+    -- Classifications reused from the cache, and lookups that found nothing
+    cache_hits INTEGER DEFAULT 0,
+    cache_misses INTEGER DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ
+);
+
 -- Indexes for performance
 CREATE INDEX idx_mailboxes_user_id ON mailboxes(user_id);
 CREATE INDEX idx_mailboxes_status ON mailboxes(status);
 CREATE INDEX idx_threads_mailbox_id ON threads(mailbox_id);
 CREATE INDEX idx_threads_gmail_thread_id ON threads(gmail_thread_id);
+CREATE INDEX idx_threads_current_stage ON threads(current_stage);
 CREATE INDEX idx_messages_thread_id ON messages(thread_id);
 CREATE INDEX idx_messages_gmail_message_id ON messages(gmail_message_id);
 CREATE INDEX idx_messages_direction ON messages(direction);
 CREATE INDEX idx_messages_received_at ON messages(received_at DESC);
+CREATE INDEX idx_messages_rfc_message_id ON messages(rfc_message_id);
+CREATE INDEX idx_messages_replied_to_message_id ON messages(replied_to_message_id);
 CREATE INDEX idx_classifications_message_id ON classifications(message_id);
 CREATE INDEX idx_classifications_sentiment ON classifications(sentiment);
+CREATE INDEX idx_classifications_status ON classifications(status);
+CREATE INDEX idx_classifications_prompt_version ON classifications(prompt_version);
 CREATE INDEX idx_classifications_interest_level ON classifications(interest_level);
+CREATE INDEX idx_classifications_category ON classifications(category);
 CREATE INDEX idx_classifications_created_at ON classifications(created_at DESC);
+CREATE INDEX idx_classification_examples_user_id ON classification_examples(user_id, created_at DESC);
+CREATE INDEX idx_reply_entities_message_id ON reply_entities(message_id);
+CREATE INDEX idx_reply_entities_type_starts_at ON reply_entities(type, starts_at);
+CREATE INDEX idx_follow_up_tasks_user_status_due ON follow_up_tasks(user_id, status, due_at);
+-- At most one open follow-up of each reason per thread
+CREATE UNIQUE INDEX idx_follow_up_tasks_open_thread ON follow_up_tasks(thread_id, reason) WHERE status = 'open';
+CREATE INDEX idx_bounces_user_type_bounced_at ON bounces(user_id, type, bounced_at DESC);
+CREATE INDEX idx_bounces_recipient ON bounces(recipient);
+CREATE INDEX idx_spam_rules_user_id ON spam_rules(user_id, created_at);
 CREATE INDEX idx_alerts_classification_id ON alerts(classification_id);
 CREATE INDEX idx_alerts_status ON alerts(status);
+CREATE INDEX idx_sync_jobs_status_run_after ON sync_jobs(status, run_after);
+CREATE INDEX idx_sync_jobs_user_id ON sync_jobs(user_id);
+-- At most one queued or running job of each kind per mailbox
+CREATE UNIQUE INDEX idx_sync_jobs_active_mailbox ON sync_jobs(mailbox_id, kind) WHERE status IN ('queued', 'running');
+CREATE INDEX idx_sync_runs_mailbox_started_at ON sync_runs(mailbox_id, started_at DESC);
 
 -- Row Level Security (RLS) policies
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -119,8 +365,17 @@ ALTER TABLE mailboxes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE threads ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE classifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE classification_examples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE taxonomies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reply_entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_up_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bounces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE spam_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE classification_cache ENABLE ROW LEVEL SECURITY;
 ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
 
 -- Policies (adjust based on your auth setup)
 -- Example: Users can only see their own data
@@ -144,6 +399,20 @@ CREATE POLICY "Users can view own classifications" ON classifications FOR SELECT
         WHERE m.user_id = auth.uid()
     )
 );
+CREATE POLICY "Users can view own classification examples" ON classification_examples FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can view own taxonomy" ON taxonomies FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can view own reply entities" ON reply_entities FOR SELECT USING (
+    message_id IN (
+        SELECT msg.id FROM messages msg
+        JOIN threads t ON msg.thread_id = t.id
+        JOIN mailboxes m ON t.mailbox_id = m.id
+        WHERE m.user_id = auth.uid()
+    )
+);
+CREATE POLICY "Users can view own follow-up tasks" ON follow_up_tasks FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can view own bounces" ON bounces FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can view own spam rules" ON spam_rules FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can view own classification cache" ON classification_cache FOR SELECT USING (user_id = auth.uid());
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -159,3 +428,27 @@ CREATE TRIGGER update_settings_updated_at
     BEFORE UPDATE ON settings
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for classification_examples table
+CREATE TRIGGER update_classification_examples_updated_at
+    BEFORE UPDATE ON classification_examples
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for taxonomies table
+CREATE TRIGGER update_taxonomies_updated_at
+    BEFORE UPDATE ON taxonomies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for follow_up_tasks table
+CREATE TRIGGER update_follow_up_tasks_updated_at
+    BEFORE UPDATE ON follow_up_tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for spam_rules table
+CREATE TRIGGER update_spam_rules_updated_at
+    BEFORE UPDATE ON spam_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();